@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getTriageService,
+  ensureTriageServiceInitialized,
+} from "@/services/triage-manager";
+import {
+  parseAlertWebhook,
+  parseWebhookSource,
+  verifyAlertWebhook,
+} from "@/services/sources/webhook";
+import { getSecret, SecretsService } from "@/services/secrets.service";
+import { prisma } from "@/services/prisma.service";
+import { TeamService } from "@/services/team.service";
+import { envString } from "@/utils/env";
+
+export async function POST(req: NextRequest) {
+  await new SecretsService(prisma).load();
+  const slug = req.nextUrl.searchParams.get("team");
+  const team = slug ? await new TeamService(prisma).findBySlug(slug) : null;
+  if (slug && !team) {
+    return NextResponse.json(
+      { error: `Unknown team "${slug}"` },
+      { status: 404 },
+    );
+  }
+
+  const secret = getSecret("ALERT_WEBHOOK_SECRET", team?.id);
+  if (!secret) {
+    return NextResponse.json(
+      { error: "ALERT_WEBHOOK_SECRET is not configured" },
+      { status: 503 },
+    );
+  }
+
+  const rawBody = await req.text();
+  if (!verifyAlertWebhook(rawBody, req.headers, secret)) {
+    return NextResponse.json({ error: "Invalid signature" }, { status: 401 });
+  }
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(rawBody);
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  try {
+    const requested = req.nextUrl.searchParams.get("source");
+    const source = parseWebhookSource(requested);
+    if (requested && !source) {
+      return NextResponse.json(
+        { error: `Unknown alert source "${requested}"` },
+        { status: 400 },
+      );
+    }
+
+    const parsed = parseAlertWebhook(payload, {
+      site: envString("DATADOG_SITE", "datadoghq.com"),
+      source,
+    });
+    await ensureTriageServiceInitialized();
+    const triageService = getTriageService();
+    const result = await triageService.ingestWebhookAlerts(
+      parsed.alerts,
+      team?.id,
+    );
+    return NextResponse.json({ source: parsed.source, ...result });
+  } catch (error: unknown) {
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error ? error.message : "Failed to ingest alerts",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { AuditService } from "@/services/audit.service";
+import { prisma } from "@/services/prisma.service";
+
+function parseDate(value: string | null) {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+export async function GET(req: Request) {
+  try {
+    const url = new URL(req.url);
+    const params = url.searchParams;
+    const limit = Number.parseInt(params.get("limit") ?? "100", 10);
+
+    const auditService = new AuditService(prisma);
+    const [events, actions] = await Promise.all([
+      auditService.list({
+        action: params.get("action") ?? undefined,
+        actor: params.get("actor") ?? undefined,
+        outcome: params.get("outcome") ?? undefined,
+        target: params.get("target") ?? undefined,
+        since: parseDate(params.get("since")),
+        until: parseDate(params.get("until")),
+        limit: Number.isNaN(limit) ? undefined : limit,
+      }),
+      auditService.actions(),
+    ]);
+
+    return NextResponse.json({ events, actions });
+  } catch (error) {
+    console.error("[Audit] Error listing audit events:", error);
+    return NextResponse.json(
+      { error: "Failed to list audit events" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,59 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { AuthService } from "@/services/auth.service";
+import { prisma } from "@/services/prisma.service";
+import {
+  authEnabled,
+  createSessionToken,
+  SESSION_COOKIE,
+  sessionCookieOptions,
+} from "@/utils/session";
+
+const loginSchema = z.object({
+  email: z.string().min(1),
+  password: z.string().min(1),
+});
+
+export async function POST(req: Request) {
+  if (!authEnabled()) {
+    return NextResponse.json(
+      { error: "Authentication is disabled" },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const body = await req.json();
+    const parsed = loginSchema.parse(body);
+
+    const authService = new AuthService(prisma);
+    const result = await authService.login(parsed.email, parsed.password);
+    if (!result.user) {
+      return NextResponse.json({ error: result.error }, { status: 401 });
+    }
+
+    const response = NextResponse.json({ user: result.user });
+    response.cookies.set(
+      SESSION_COOKIE,
+      createSessionToken(result.user),
+      sessionCookieOptions(),
+    );
+    return response;
+  } catch (error: unknown) {
+    if (
+      error &&
+      typeof error === "object" &&
+      "name" in error &&
+      error.name === "ZodError"
+    ) {
+      return NextResponse.json(
+        { error: "Email and password are required" },
+        { status: 400 },
+      );
+    }
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Login failed" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,13 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AuthService } from "@/services/auth.service";
+import { prisma } from "@/services/prisma.service";
+import { authEnabled, SESSION_COOKIE } from "@/utils/session";
+
+export async function GET(req: NextRequest) {
+  const authService = new AuthService(prisma);
+  return NextResponse.json({
+    authEnabled: authEnabled(),
+    oidcEnabled: authService.oidcEnabled(),
+    user: await authService.sessionUser(req.cookies.get(SESSION_COOKIE)?.value),
+  });
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AuthService } from "@/services/auth.service";
+import { prisma } from "@/services/prisma.service";
+import {
+  createSessionToken,
+  SESSION_COOKIE,
+  sessionCookieOptions,
+} from "@/utils/session";
+
+const STATE_COOKIE = "triage_oidc_state";
+
+function loginError(req: NextRequest, message: string) {
+  const login = new URL("/login", req.url);
+  login.searchParams.set("error", message);
+  return NextResponse.redirect(login);
+}
+
+export async function GET(req: NextRequest) {
+  const code = req.nextUrl.searchParams.get("code");
+  const state = req.nextUrl.searchParams.get("state");
+  const expectedState = req.cookies.get(STATE_COOKIE)?.value;
+  if (!code || !state || state !== expectedState) {
+    return loginError(req, "OIDC login failed: invalid state");
+  }
+
+  try {
+    const authService = new AuthService(prisma);
+    const redirectUri = new URL("/api/auth/oidc/callback", req.url).toString();
+    const result = await authService.oidcCallback(code, redirectUri);
+    if (!result.user) return loginError(req, result.error);
+
+    const response = NextResponse.redirect(new URL("/", req.url));
+    response.cookies.delete(STATE_COOKIE);
+    response.cookies.set(
+      SESSION_COOKIE,
+      createSessionToken(result.user),
+      sessionCookieOptions(),
+    );
+    return response;
+  } catch (error: unknown) {
+    return loginError(
+      req,
+      error instanceof Error ? error.message : "OIDC login failed",
+    );
+  }
+}
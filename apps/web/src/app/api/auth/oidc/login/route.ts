@@ -0,0 +1,38 @@
+import { randomBytes } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { AuthService } from "@/services/auth.service";
+import { prisma } from "@/services/prisma.service";
+
+const STATE_COOKIE = "triage_oidc_state";
+
+export async function GET(req: NextRequest) {
+  const authService = new AuthService(prisma);
+  if (!authService.oidcEnabled()) {
+    return NextResponse.json(
+      { error: "OIDC is not configured" },
+      { status: 404 },
+    );
+  }
+
+  try {
+    const state = randomBytes(16).toString("hex");
+    const redirectUri = new URL("/api/auth/oidc/callback", req.url).toString();
+    const url = await authService.oidcAuthorizeUrl(state, redirectUri);
+    const response = NextResponse.redirect(url);
+    response.cookies.set(STATE_COOKIE, state, {
+      httpOnly: true,
+      sameSite: "lax",
+      path: "/api/auth/oidc",
+      maxAge: 600,
+    });
+    return response;
+  } catch (error: unknown) {
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error ? error.message : "Failed to start OIDC login",
+      },
+      { status: 502 },
+    );
+  }
+}
@@ -0,0 +1,57 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { AuthService } from "@/services/auth.service";
+import { prisma } from "@/services/prisma.service";
+import { ROLES } from "@/utils/session";
+import { AuditService, outcomeOf } from "@/services/audit.service";
+
+const updateUserSchema = z.object({
+  role: z.enum(ROLES).optional(),
+  password: z.string().min(8).optional(),
+  disabled: z.boolean().optional(),
+});
+
+export async function PATCH(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id } = await params;
+    const body = await req.json();
+    const parsed = updateUserSchema.parse(body);
+
+    const authService = new AuthService(prisma);
+    const result = await authService.updateUser(id, parsed);
+    await new AuditService(prisma).record(req, {
+      action: "users.update",
+      target: id,
+      ...outcomeOf(result),
+      after: parsed,
+    });
+    if (result.error) {
+      return NextResponse.json(result, { status: 404 });
+    }
+    return NextResponse.json(result);
+  } catch (error: unknown) {
+    if (
+      error &&
+      typeof error === "object" &&
+      "name" in error &&
+      error.name === "ZodError"
+    ) {
+      return NextResponse.json(
+        {
+          error: "Invalid request body",
+          details: "errors" in error ? error.errors : undefined,
+        },
+        { status: 400 },
+      );
+    }
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Failed to update user",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,67 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { AuthService } from "@/services/auth.service";
+import { prisma } from "@/services/prisma.service";
+import { ROLES } from "@/utils/session";
+import { AuditService, outcomeOf } from "@/services/audit.service";
+
+const createUserSchema = z.object({
+  email: z.string().email(),
+  name: z.string().optional(),
+  password: z.string().min(8).optional(),
+  role: z.enum(ROLES),
+});
+
+export async function GET() {
+  try {
+    const authService = new AuthService(prisma);
+    return NextResponse.json(await authService.listUsers());
+  } catch (error: unknown) {
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Failed to list users",
+      },
+      { status: 500 },
+    );
+  }
+}
+
+export async function POST(req: Request) {
+  try {
+    const body = await req.json();
+    const parsed = createUserSchema.parse(body);
+
+    const authService = new AuthService(prisma);
+    const result = await authService.createUser(parsed);
+    await new AuditService(prisma).record(req, {
+      action: "users.create",
+      target: parsed.email,
+      ...outcomeOf(result),
+    });
+    if (result.error) {
+      return NextResponse.json(result, { status: 409 });
+    }
+    return NextResponse.json(result);
+  } catch (error: unknown) {
+    if (
+      error &&
+      typeof error === "object" &&
+      "name" in error &&
+      error.name === "ZodError"
+    ) {
+      return NextResponse.json(
+        {
+          error: "Invalid request body",
+          details: "errors" in error ? error.errors : undefined,
+        },
+        { status: 400 },
+      );
+    }
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Failed to create user",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -1,5 +1,7 @@
 import { NextRequest } from "next/server";
+import { TriageRunEvent } from "@prisma/client";
 import { prisma } from "@/services/prisma.service";
+import { RunProgressService } from "@/services/run-progress.service";
 
 type Report = {
   id: string;
@@ -7,6 +9,7 @@ type Report = {
   status: string | null;
   error: string | null;
   finishedAt: Date | null;
+  supersededAt: Date | null;
   reportMarkdown: string | null;
   sessionId: string | null;
   sessionUrl: string | null;
@@ -20,20 +23,47 @@ type Report = {
     environment: string | null;
     overallStateModified: Date | null;
     repoPath: string | null;
+    resolvedAt: Date | null;
+    timeToRecoverSec: number | null;
+  } | null;
+  incident: {
+    id: string;
+    title: string;
+    resolvedAt: Date | null;
+    alerts: {
+      id: string;
+      monitorName: string;
+      monitorState: string;
+      service: string | null;
+      resolvedAt: Date | null;
+    }[];
   } | null;
 };
 
 interface StreamData {
   type: "initial" | "update";
   reports: Report[];
+  /** The live log of runs that are still going. */
+  progress?: TriageRunEvent[];
   timestamp?: string;
 }
 
+/** Live log entries written since the last message. */
+interface ProgressData {
+  type: "progress";
+  progress: TriageRunEvent[];
+  timestamp: string;
+}
+
 export const dynamic = "force-dynamic";
 
 export async function GET(req: NextRequest) {
   const encoder = new TextEncoder();
+  const teamId = req.nextUrl.searchParams.get("team") || undefined;
   let lastReports: Report[] = [];
+  const runProgress = new RunProgressService(prisma);
+  // Null until the initial message has been sent.
+  let lastEventId: number | null = null;
 
   const reportsChanged = (
     oldReports: Report[],
@@ -49,6 +79,20 @@ export async function GET(req: NextRequest) {
       if (old.status !== newR.status) return true;
       if (old.finishedAt?.toISOString() !== newR.finishedAt?.toISOString())
         return true;
+      if (old.incident?.alerts.length !== newR.incident?.alerts.length)
+        return true;
+      if (
+        old.incident?.resolvedAt?.toISOString() !==
+        newR.incident?.resolvedAt?.toISOString()
+      )
+        return true;
+      if (old.supersededAt?.toISOString() !== newR.supersededAt?.toISOString())
+        return true;
+      if (
+        old.alert?.resolvedAt?.toISOString() !==
+        newR.alert?.resolvedAt?.toISOString()
+      )
+        return true;
     }
 
     return false;
@@ -57,6 +101,7 @@ export async function GET(req: NextRequest) {
   const fetchData = async (): Promise<StreamData | null> => {
     try {
       const reports = await prisma.triageRun.findMany({
+        where: { teamId },
         include: {
           alert: {
             select: {
@@ -68,6 +113,24 @@ export async function GET(req: NextRequest) {
               environment: true,
               overallStateModified: true,
               repoPath: true,
+              resolvedAt: true,
+              timeToRecoverSec: true,
+            },
+          },
+          incident: {
+            select: {
+              id: true,
+              title: true,
+              resolvedAt: true,
+              alerts: {
+                select: {
+                  id: true,
+                  monitorName: true,
+                  monitorState: true,
+                  service: true,
+                  resolvedAt: true,
+                },
+              },
             },
           },
         },
@@ -89,10 +152,28 @@ export async function GET(req: NextRequest) {
     }
   };
 
+  const fetchProgress = async (): Promise<ProgressData | null> => {
+    if (lastEventId === null) return null;
+    try {
+      const progress = await runProgress.since(lastEventId, teamId);
+      if (progress.length === 0) return null;
+      lastEventId = progress[progress.length - 1].id;
+      return {
+        type: "progress",
+        progress,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      console.error("[Events] Progress polling error:", error);
+      return null;
+    }
+  };
+
   const stream = new ReadableStream({
     async start(controller) {
       const sendInitialData = async () => {
         const reports = await prisma.triageRun.findMany({
+          where: { teamId },
           include: {
             alert: {
               select: {
@@ -104,6 +185,24 @@ export async function GET(req: NextRequest) {
                 environment: true,
                 overallStateModified: true,
                 repoPath: true,
+                resolvedAt: true,
+                timeToRecoverSec: true,
+              },
+            },
+            incident: {
+              select: {
+                id: true,
+                title: true,
+                resolvedAt: true,
+                alerts: {
+                  select: {
+                    id: true,
+                    monitorName: true,
+                    monitorState: true,
+                    service: true,
+                    resolvedAt: true,
+                  },
+                },
               },
             },
           },
@@ -111,10 +210,13 @@ export async function GET(req: NextRequest) {
           take: 20,
         });
 
+        const untilId = await runProgress.latestId();
         const data: StreamData = {
           type: "initial",
           reports,
+          progress: await runProgress.running(untilId, teamId),
         };
+        lastEventId = untilId;
 
         controller.enqueue(encoder.encode(`data: ${JSON.stringify(data)}\n\n`));
       };
@@ -130,8 +232,9 @@ export async function GET(req: NextRequest) {
       }, 15000);
 
       const polling = setInterval(async () => {
-        const data = await fetchData();
-        if (data) {
+        const messages = [await fetchData(), await fetchProgress()];
+        for (const data of messages) {
+          if (!data) continue;
           try {
             controller.enqueue(
               encoder.encode(`data: ${JSON.stringify(data)}\n\n`),
@@ -1,5 +1,6 @@
 import { NextResponse } from "next/server";
 import { prisma } from "@/services/prisma.service";
+import { UsageService } from "@/services/usage.service";
 import { envNumber } from "@/utils/env";
 
 export async function GET() {
@@ -20,6 +21,7 @@ export async function GET() {
       ? now - scheduler.lastRunAt.getTime()
       : null;
     const stale = ageMs !== null ? ageMs > staleThreshold : true;
+    const budget = await new UsageService(prisma).budget();
 
     return NextResponse.json({
       ok: true,
@@ -31,6 +33,10 @@ export async function GET() {
         intervalMs,
         staleThresholdMs: staleThreshold,
         stale,
+        // Amounts stay on /api/usage; this route is public.
+        budgetPaused: budget.paused,
+        // Set when the budget undercounts because some runs have no price.
+        budgetUnpriced: budget.limitUsd !== null && budget.unpricedRuns > 0,
       },
     });
   } catch (error) {
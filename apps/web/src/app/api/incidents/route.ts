@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+import { IncidentService } from "@/services/incident.service";
+import { prisma } from "@/services/prisma.service";
+
+export async function GET(req: Request) {
+  try {
+    const url = new URL(req.url);
+    const limit = Number.parseInt(url.searchParams.get("limit") ?? "20", 10);
+    const teamId = url.searchParams.get("team") || undefined;
+
+    const incidentService = new IncidentService(prisma);
+    const incidents = await incidentService.list(limit, teamId);
+
+    return NextResponse.json(incidents);
+  } catch (error) {
+    console.error("[Incidents] Error listing incidents:", error);
+    return NextResponse.json(
+      { error: "Failed to list incidents" },
+      { status: 500 },
+    );
+  }
+}
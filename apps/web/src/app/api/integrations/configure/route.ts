@@ -2,12 +2,18 @@ import { NextResponse } from "next/server";
 import { IntegrationsService } from "@/services/integrations.service";
 import { prisma } from "@/services/prisma.service";
 import { z } from "zod";
+import { AuditService, outcomeOf } from "@/services/audit.service";
 
 const configureSchema = z.object({
   datadogApiKey: z.string().optional(),
   datadogAppKey: z.string().optional(),
   datadogSite: z.string().optional(),
   alertTeam: z.string().optional(),
+  alertSources: z.string().optional(),
+  alertmanagerUrl: z.string().optional(),
+  grafanaUrl: z.string().optional(),
+  grafanaApiToken: z.string().optional(),
+  genericAlertsUrl: z.string().optional(),
   githubToken: z.string().optional(),
   confluenceBaseUrl: z.string().optional(),
   confluenceUser: z.string().optional(),
@@ -20,13 +26,24 @@ const configureSchema = z.object({
 });
 
 export async function POST(req: Request) {
+  const audit = new AuditService(prisma);
   try {
     const body = await req.json();
     const parsed = configureSchema.parse(body);
 
     const integrationsService = new IntegrationsService(prisma);
+    const before = await integrationsService.getConfig();
     const result = await integrationsService.configure(parsed);
+    const after = await integrationsService.getConfig();
 
+    const { outcome, error } = outcomeOf(result);
+    await audit.record(req, {
+      action: "integrations.configure",
+      before,
+      after,
+      outcome,
+      error,
+    });
     return NextResponse.json(result);
   } catch (error: unknown) {
     if (
@@ -43,9 +60,12 @@ export async function POST(req: Request) {
         { status: 400 },
       );
     }
-    return NextResponse.json(
-      { error: error instanceof Error ? error.message : "Configure failed" },
-      { status: 500 },
-    );
+    const message = error instanceof Error ? error.message : "Configure failed";
+    await audit.record(req, {
+      action: "integrations.configure",
+      outcome: "failure",
+      error: message,
+    });
+    return NextResponse.json({ error: message }, { status: 500 });
   }
 }
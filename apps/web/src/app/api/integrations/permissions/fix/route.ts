@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import { IntegrationsService } from "@/services/integrations.service";
+import { prisma } from "@/services/prisma.service";
+import { AuditService, outcomeOf } from "@/services/audit.service";
+
+export async function POST(req: Request) {
+  const audit = new AuditService(prisma);
+  try {
+    const integrationsService = new IntegrationsService(prisma);
+    const result = await integrationsService.fixPermissions();
+    await audit.record(req, {
+      action: "integrations.permissions-fix",
+      ...outcomeOf(result),
+    });
+    return NextResponse.json(result);
+  } catch (error: unknown) {
+    const message =
+      error instanceof Error
+        ? error.message
+        : "Failed to fix provider permissions";
+    await audit.record(req, {
+      action: "integrations.permissions-fix",
+      outcome: "failure",
+      error: message,
+    });
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+import { IntegrationsService } from "@/services/integrations.service";
+import { prisma } from "@/services/prisma.service";
+
+export async function GET() {
+  try {
+    const integrationsService = new IntegrationsService(prisma);
+    const result = await integrationsService.checkPermissions();
+    return NextResponse.json(result);
+  } catch (error: unknown) {
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Failed to check provider permissions",
+      },
+      { status: 500 },
+    );
+  }
+}
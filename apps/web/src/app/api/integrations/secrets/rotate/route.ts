@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import { SecretsService } from "@/services/secrets.service";
+import { prisma } from "@/services/prisma.service";
+import { AuditService, outcomeOf } from "@/services/audit.service";
+
+export async function POST(req: Request) {
+  try {
+    const secretsService = new SecretsService(prisma);
+    const result = await secretsService.rotate();
+    await new AuditService(prisma).record(req, {
+      action: "secrets.rotate",
+      ...outcomeOf(result),
+    });
+    if (result.error) {
+      return NextResponse.json(result, { status: 400 });
+    }
+    return NextResponse.json(result);
+  } catch (error: unknown) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Rotation failed" },
+      { status: 500 },
+    );
+  }
+}
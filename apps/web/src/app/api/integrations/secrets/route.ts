@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server";
+import { SecretsService } from "@/services/secrets.service";
+import { prisma } from "@/services/prisma.service";
+
+export async function GET() {
+  try {
+    const secretsService = new SecretsService(prisma);
+    return NextResponse.json(await secretsService.list());
+  } catch (error: unknown) {
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error ? error.message : "Failed to list secrets",
+      },
+      { status: 500 },
+    );
+  }
+}
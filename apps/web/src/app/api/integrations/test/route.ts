@@ -10,8 +10,11 @@ const testSchema = z.object({
     "github",
     "confluence",
     "jira",
+    "pagerduty",
+    "opsgenie",
     "opencode",
     "codex",
+    "http",
   ]),
   overrides: z.record(z.string()).optional(),
 });
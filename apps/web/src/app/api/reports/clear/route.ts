@@ -1,24 +1,34 @@
 import { NextResponse } from "next/server";
+import { ReportsService } from "@/services/reports.service";
 import { prisma } from "@/services/prisma.service";
+import { AuditService } from "@/services/audit.service";
 
-export async function POST() {
+export async function POST(req: Request) {
+  const audit = new AuditService(prisma);
   try {
     console.warn("Clear all local data requested.");
 
-    await prisma.triageRun.deleteMany({});
-    await prisma.alertEvent.deleteMany({});
+    const reportsService = new ReportsService(prisma);
+    const result = await reportsService.clear();
 
     console.warn("Cleared all triage runs and alerts.");
 
-    return NextResponse.json({ ok: true });
+    await audit.record(req, {
+      action: "reports.clear",
+      before: result.deleted,
+      after: { runs: 0, alerts: 0, incidents: 0 },
+      outcome: "success",
+    });
+    return NextResponse.json(result);
   } catch (error: unknown) {
     console.error("[Clear] Error:", error);
-    return NextResponse.json(
-      {
-        error:
-          error instanceof Error ? error.message : "Failed to clear local data",
-      },
-      { status: 500 },
-    );
+    const message =
+      error instanceof Error ? error.message : "Failed to clear local data";
+    await audit.record(req, {
+      action: "reports.clear",
+      outcome: "failure",
+      error: message,
+    });
+    return NextResponse.json({ error: message }, { status: 500 });
   }
 }
@@ -2,6 +2,7 @@ import { NextResponse } from "next/server";
 import { ReportsService } from "@/services/reports.service";
 import { prisma } from "@/services/prisma.service";
 import { z } from "zod";
+import { AuditService, outcomeOf } from "@/services/audit.service";
 
 const openFileSchema = z.object({
   repoPath: z.string().optional(),
@@ -16,6 +17,13 @@ export async function POST(req: Request) {
 
     const reportsService = new ReportsService(prisma);
     const result = reportsService.openFile(parsed);
+    await new AuditService(prisma).record(req, {
+      action: "reports.open-file",
+      target: parsed.repoPath
+        ? `${parsed.repoPath}:${parsed.path}`
+        : parsed.path,
+      ...outcomeOf(result),
+    });
 
     return NextResponse.json(result);
   } catch (error) {
@@ -27,6 +35,11 @@ export async function POST(req: Request) {
     }
 
     console.error("[Reports] Error opening file:", error);
+    await new AuditService(prisma).record(req, {
+      action: "reports.open-file",
+      outcome: "failure",
+      error: error instanceof Error ? error.message : "Failed to open file",
+    });
     return NextResponse.json({ error: "Failed to open file" }, { status: 500 });
   }
 }
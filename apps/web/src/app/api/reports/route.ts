@@ -1,14 +1,16 @@
 import { NextResponse } from "next/server";
 import { ReportsService } from "@/services/reports.service";
 import { prisma } from "@/services/prisma.service";
+import { AuditService } from "@/services/audit.service";
 
 export async function GET(req: Request) {
   try {
     const url = new URL(req.url);
     const limit = Number.parseInt(url.searchParams.get("limit") ?? "20", 10);
+    const teamId = url.searchParams.get("team") || undefined;
 
     const reportsService = new ReportsService(prisma);
-    const reports = await reportsService.list(limit);
+    const reports = await reportsService.list(limit, teamId);
 
     return NextResponse.json(reports);
   } catch (error) {
@@ -20,14 +22,26 @@ export async function GET(req: Request) {
   }
 }
 
-export async function DELETE() {
+export async function DELETE(req: Request) {
+  const audit = new AuditService(prisma);
   try {
     const reportsService = new ReportsService(prisma);
     const result = await reportsService.clear();
 
+    await audit.record(req, {
+      action: "reports.clear",
+      before: result.deleted,
+      after: { runs: 0, alerts: 0, incidents: 0 },
+      outcome: "success",
+    });
     return NextResponse.json(result);
   } catch (error) {
     console.error("[Reports] Error clearing reports:", error);
+    await audit.record(req, {
+      action: "reports.clear",
+      outcome: "failure",
+      error: error instanceof Error ? error.message : "Failed to clear reports",
+    });
     return NextResponse.json(
       { error: "Failed to clear reports" },
       { status: 500 },
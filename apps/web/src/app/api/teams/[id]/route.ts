@@ -0,0 +1,110 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { TeamService } from "@/services/team.service";
+import { prisma } from "@/services/prisma.service";
+import { AuditService, outcomeOf } from "@/services/audit.service";
+
+const updateTeamSchema = z.object({
+  slug: z
+    .string()
+    .regex(/^[a-z0-9][a-z0-9-]*$/, "Use lowercase letters, digits and dashes")
+    .optional(),
+  name: z.string().min(1).optional(),
+  alertTeam: z.string().optional(),
+  alertSources: z.string().optional(),
+  repoRoot: z.string().optional(),
+  skillsContextPath: z.string().optional(),
+  provider: z.enum(["opencode", "codex", "http", "mock", ""]).optional(),
+  credentials: z.record(z.string(), z.string()).optional(),
+});
+
+export async function GET(
+  _req: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+  const team = await new TeamService(prisma).getWithCredentials(id);
+  if (!team) {
+    return NextResponse.json({ error: "Team not found" }, { status: 404 });
+  }
+  return NextResponse.json(team);
+}
+
+export async function PATCH(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id } = await params;
+    const body = await req.json();
+    const parsed = updateTeamSchema.parse(body);
+
+    const teamService = new TeamService(prisma);
+    const before = await teamService.getWithCredentials(id);
+    const result = await teamService.update(id, parsed);
+    await new AuditService(prisma).record(req, {
+      action: "teams.update",
+      target: before?.slug ?? id,
+      before,
+      ...outcomeOf(result),
+      after: result.error ? null : await teamService.getWithCredentials(id),
+    });
+    if (result.error) {
+      return NextResponse.json(result, {
+        status: result.error === "Team not found" ? 404 : 409,
+      });
+    }
+    return NextResponse.json(result);
+  } catch (error: unknown) {
+    if (
+      error &&
+      typeof error === "object" &&
+      "name" in error &&
+      error.name === "ZodError"
+    ) {
+      return NextResponse.json(
+        {
+          error: "Invalid request body",
+          details: "errors" in error ? error.errors : undefined,
+        },
+        { status: 400 },
+      );
+    }
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Failed to update team",
+      },
+      { status: 500 },
+    );
+  }
+}
+
+export async function DELETE(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id } = await params;
+    const teamService = new TeamService(prisma);
+    const before = await teamService.getWithCredentials(id);
+    const result = await teamService.remove(id);
+    await new AuditService(prisma).record(req, {
+      action: "teams.delete",
+      target: before?.slug ?? id,
+      before,
+      ...outcomeOf(result),
+      after: null,
+    });
+    if (result.error) {
+      return NextResponse.json(result, { status: 404 });
+    }
+    return NextResponse.json(result);
+  } catch (error: unknown) {
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Failed to delete team",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,73 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { TeamService } from "@/services/team.service";
+import { prisma } from "@/services/prisma.service";
+import { AuditService, outcomeOf } from "@/services/audit.service";
+
+const createTeamSchema = z.object({
+  slug: z
+    .string()
+    .regex(/^[a-z0-9][a-z0-9-]*$/, "Use lowercase letters, digits and dashes"),
+  name: z.string().min(1),
+  alertTeam: z.string().optional(),
+  alertSources: z.string().optional(),
+  repoRoot: z.string().optional(),
+  skillsContextPath: z.string().optional(),
+  provider: z.enum(["opencode", "codex", "http", "mock", ""]).optional(),
+  credentials: z.record(z.string(), z.string()).optional(),
+});
+
+export async function GET() {
+  try {
+    const teamService = new TeamService(prisma);
+    return NextResponse.json(await teamService.list());
+  } catch (error: unknown) {
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Failed to list teams",
+      },
+      { status: 500 },
+    );
+  }
+}
+
+export async function POST(req: Request) {
+  try {
+    const body = await req.json();
+    const parsed = createTeamSchema.parse(body);
+
+    const teamService = new TeamService(prisma);
+    const result = await teamService.create(parsed);
+    await new AuditService(prisma).record(req, {
+      action: "teams.create",
+      target: parsed.slug,
+      ...outcomeOf(result),
+      after: { ...parsed, credentials: undefined },
+    });
+    if (result.error) {
+      return NextResponse.json(result, { status: 409 });
+    }
+    return NextResponse.json(result);
+  } catch (error: unknown) {
+    if (
+      error &&
+      typeof error === "object" &&
+      "name" in error &&
+      error.name === "ZodError"
+    ) {
+      return NextResponse.json(
+        {
+          error: "Invalid request body",
+          details: "errors" in error ? error.errors : undefined,
+        },
+        { status: 400 },
+      );
+    }
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Failed to create team",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -3,23 +3,29 @@ import {
   getTriageService,
   ensureTriageServiceInitialized,
 } from "@/services/triage-manager";
+import { AuditService, outcomeOf } from "@/services/audit.service";
+import { prisma } from "@/services/prisma.service";
 
-export async function POST() {
+export async function POST(req: Request) {
+  const audit = new AuditService(prisma);
   try {
     console.warn("Force clear running runs requested.");
     await ensureTriageServiceInitialized();
     const triageService = getTriageService();
     const result = await triageService.forceClearRunning();
+    await audit.record(req, {
+      action: "triage.clear-running",
+      ...outcomeOf(result),
+    });
     return NextResponse.json(result);
   } catch (error: unknown) {
-    return NextResponse.json(
-      {
-        error:
-          error instanceof Error
-            ? error.message
-            : "Failed to clear running runs",
-      },
-      { status: 500 },
-    );
+    const message =
+      error instanceof Error ? error.message : "Failed to clear running runs";
+    await audit.record(req, {
+      action: "triage.clear-running",
+      outcome: "failure",
+      error: message,
+    });
+    return NextResponse.json({ error: message }, { status: 500 });
   }
 }
@@ -0,0 +1,63 @@
+import { NextResponse } from "next/server";
+import {
+  getTriageService,
+  ensureTriageServiceInitialized,
+} from "@/services/triage-manager";
+import { AuditService, outcomeOf } from "@/services/audit.service";
+import { prisma } from "@/services/prisma.service";
+
+const MAX_QUESTION_LENGTH = 2000;
+
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  let body: { question?: unknown } = {};
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const question =
+    typeof body.question === "string" ? body.question.trim() : "";
+  if (!question) {
+    return NextResponse.json(
+      { error: "A follow-up question is required" },
+      { status: 400 },
+    );
+  }
+  if (question.length > MAX_QUESTION_LENGTH) {
+    return NextResponse.json(
+      {
+        error: `Follow-up question must be at most ${MAX_QUESTION_LENGTH} characters`,
+      },
+      { status: 400 },
+    );
+  }
+
+  const { id } = await params;
+  const audit = new AuditService(prisma);
+  try {
+    await ensureTriageServiceInitialized();
+    const triageService = getTriageService();
+    const result = await triageService.continueRun(id, question);
+    await audit.record(req, {
+      action: "triage.continue",
+      target: id,
+      before: { question },
+      ...outcomeOf(result),
+    });
+    return NextResponse.json(result);
+  } catch (error: unknown) {
+    const message =
+      error instanceof Error ? error.message : "Failed to continue run";
+    await audit.record(req, {
+      action: "triage.continue",
+      target: id,
+      outcome: "failure",
+      error: message,
+    });
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,83 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { JiraService } from "@/services/jira.service";
+import { AuditService, outcomeOf } from "@/services/audit.service";
+import { prisma } from "@/services/prisma.service";
+
+const createIssueSchema = z.object({
+  projectKey: z
+    .string()
+    .regex(/^[A-Z][A-Z0-9_]*$/, "Use a Jira project key such as OPS")
+    .optional(),
+});
+
+export async function GET(
+  _req: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+  try {
+    const result = await new JiraService(prisma).issueStatus(id);
+    if (result.error && !result.key) {
+      return NextResponse.json(result, { status: 404 });
+    }
+    return NextResponse.json(result);
+  } catch (error: unknown) {
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error ? error.message : "Failed to load Jira issue",
+      },
+      { status: 500 },
+    );
+  }
+}
+
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+  const audit = new AuditService(prisma);
+  try {
+    const body = await req.json().catch(() => ({}));
+    const parsed = createIssueSchema.parse(body);
+    const result = await new JiraService(prisma).createIssue(id, parsed);
+    await audit.record(req, {
+      action: "triage.jira",
+      target: id,
+      ...outcomeOf(result),
+      after: result.error ? null : { issue: result.key },
+    });
+    if (result.error) {
+      return NextResponse.json(result, {
+        status: result.error === "Run not found" ? 404 : 400,
+      });
+    }
+    return NextResponse.json(result);
+  } catch (error: unknown) {
+    if (
+      error &&
+      typeof error === "object" &&
+      "name" in error &&
+      error.name === "ZodError"
+    ) {
+      return NextResponse.json(
+        {
+          error: "Invalid request body",
+          details: "errors" in error ? error.errors : undefined,
+        },
+        { status: 400 },
+      );
+    }
+    const message =
+      error instanceof Error ? error.message : "Failed to create Jira issue";
+    await audit.record(req, {
+      action: "triage.jira",
+      target: id,
+      outcome: "failure",
+      error: message,
+    });
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
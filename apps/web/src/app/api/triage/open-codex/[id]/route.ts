@@ -3,26 +3,34 @@ import {
   getTriageService,
   ensureTriageServiceInitialized,
 } from "@/services/triage-manager";
+import { AuditService, outcomeOf } from "@/services/audit.service";
+import { prisma } from "@/services/prisma.service";
 
 export async function POST(
   req: Request,
   { params }: { params: Promise<{ id: string }> },
 ) {
+  const { id } = await params;
+  const audit = new AuditService(prisma);
   try {
-    const { id } = await params;
     await ensureTriageServiceInitialized();
     const triageService = getTriageService();
     const result = await triageService.openCodexSession(id);
+    await audit.record(req, {
+      action: "triage.open-codex",
+      target: id,
+      ...outcomeOf(result),
+    });
     return NextResponse.json(result);
   } catch (error: unknown) {
-    return NextResponse.json(
-      {
-        error:
-          error instanceof Error
-            ? error.message
-            : "Failed to open Codex session",
-      },
-      { status: 500 },
-    );
+    const message =
+      error instanceof Error ? error.message : "Failed to open Codex session";
+    await audit.record(req, {
+      action: "triage.open-codex",
+      target: id,
+      outcome: "failure",
+      error: message,
+    });
+    return NextResponse.json({ error: message }, { status: 500 });
   }
 }
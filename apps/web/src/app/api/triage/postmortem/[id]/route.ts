@@ -0,0 +1,58 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { PostmortemService } from "@/services/postmortem.service";
+import { AuditService, outcomeOf } from "@/services/audit.service";
+import { prisma } from "@/services/prisma.service";
+
+const draftPostmortemSchema = z.object({
+  notes: z.string().max(20_000).optional(),
+});
+
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+  const audit = new AuditService(prisma);
+  try {
+    const body = await req.json().catch(() => ({}));
+    const parsed = draftPostmortemSchema.parse(body);
+    const result = await new PostmortemService(prisma).createDraft(id, parsed);
+    await audit.record(req, {
+      action: "triage.postmortem",
+      target: id,
+      ...outcomeOf(result),
+      after: result.error ? null : { page: result.pageId, url: result.url },
+    });
+    if (result.error) {
+      return NextResponse.json(result, {
+        status: result.error === "Run not found" ? 404 : 400,
+      });
+    }
+    return NextResponse.json(result);
+  } catch (error: unknown) {
+    if (
+      error &&
+      typeof error === "object" &&
+      "name" in error &&
+      error.name === "ZodError"
+    ) {
+      return NextResponse.json(
+        {
+          error: "Invalid request body",
+          details: "errors" in error ? error.errors : undefined,
+        },
+        { status: 400 },
+      );
+    }
+    const message =
+      error instanceof Error ? error.message : "Failed to draft postmortem";
+    await audit.record(req, {
+      action: "triage.postmortem",
+      target: id,
+      outcome: "failure",
+      error: message,
+    });
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,87 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { PullRequestService } from "@/services/pull-request.service";
+import { AuditService, outcomeOf } from "@/services/audit.service";
+import { prisma } from "@/services/prisma.service";
+
+const openPullRequestSchema = z.object({
+  branchName: z.string().min(1),
+});
+
+export async function GET(
+  _req: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+  try {
+    const result = await new PullRequestService(prisma).preview(id);
+    if ("error" in result) {
+      return NextResponse.json(result, {
+        status: result.error === "Run not found" ? 404 : 400,
+      });
+    }
+    return NextResponse.json(result);
+  } catch (error: unknown) {
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Failed to preview pull request",
+      },
+      { status: 500 },
+    );
+  }
+}
+
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+  const audit = new AuditService(prisma);
+  try {
+    const body = await req.json().catch(() => ({}));
+    const parsed = openPullRequestSchema.parse(body);
+    const result = await new PullRequestService(prisma).open(id, parsed);
+    await audit.record(req, {
+      action: "triage.pull_request",
+      target: id,
+      ...outcomeOf(result),
+      after:
+        "error" in result
+          ? null
+          : { url: result.url, branch: result.branchName },
+    });
+    if ("error" in result) {
+      return NextResponse.json(result, {
+        status: result.error === "Run not found" ? 404 : 400,
+      });
+    }
+    return NextResponse.json(result);
+  } catch (error: unknown) {
+    if (
+      error &&
+      typeof error === "object" &&
+      "name" in error &&
+      error.name === "ZodError"
+    ) {
+      return NextResponse.json(
+        {
+          error: "Invalid request body",
+          details: "errors" in error ? error.errors : undefined,
+        },
+        { status: 400 },
+      );
+    }
+    const message =
+      error instanceof Error ? error.message : "Failed to open pull request";
+    await audit.record(req, {
+      action: "triage.pull_request",
+      target: id,
+      outcome: "failure",
+      error: message,
+    });
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
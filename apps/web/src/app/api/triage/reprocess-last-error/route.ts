@@ -3,23 +3,31 @@ import {
   getTriageService,
   ensureTriageServiceInitialized,
 } from "@/services/triage-manager";
+import { AuditService, outcomeOf } from "@/services/audit.service";
+import { prisma } from "@/services/prisma.service";
 
-export async function POST() {
+export async function POST(req: Request) {
+  const audit = new AuditService(prisma);
   try {
     console.log("Reprocess last error requested.");
     await ensureTriageServiceInitialized();
     const triageService = getTriageService();
-    const result = await triageService.reprocessLastError();
+    const teamId = new URL(req.url).searchParams.get("team") || undefined;
+    const result = await triageService.reprocessLastError(teamId);
+    await audit.record(req, {
+      action: "triage.reprocess-last-error",
+      target: teamId,
+      ...outcomeOf(result),
+    });
     return NextResponse.json(result);
   } catch (error: unknown) {
-    return NextResponse.json(
-      {
-        error:
-          error instanceof Error
-            ? error.message
-            : "Failed to reprocess last error",
-      },
-      { status: 500 },
-    );
+    const message =
+      error instanceof Error ? error.message : "Failed to reprocess last error";
+    await audit.record(req, {
+      action: "triage.reprocess-last-error",
+      outcome: "failure",
+      error: message,
+    });
+    return NextResponse.json({ error: message }, { status: 500 });
   }
 }
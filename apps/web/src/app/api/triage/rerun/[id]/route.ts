@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import {
+  getTriageService,
+  ensureTriageServiceInitialized,
+} from "@/services/triage-manager";
+import { AuditService, outcomeOf } from "@/services/audit.service";
+import { prisma } from "@/services/prisma.service";
+
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+  const audit = new AuditService(prisma);
+  try {
+    await ensureTriageServiceInitialized();
+    const triageService = getTriageService();
+    const result = await triageService.rerunRun(id);
+    await audit.record(req, {
+      action: "triage.rerun",
+      target: id,
+      ...outcomeOf(result),
+    });
+    return NextResponse.json(result);
+  } catch (error: unknown) {
+    const message =
+      error instanceof Error ? error.message : "Failed to re-run triage";
+    await audit.record(req, {
+      action: "triage.rerun",
+      target: id,
+      outcome: "failure",
+      error: message,
+    });
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -3,19 +3,25 @@ import {
   getTriageService,
   ensureTriageServiceInitialized,
 } from "@/services/triage-manager";
+import { AuditService, outcomeOf } from "@/services/audit.service";
+import { prisma } from "@/services/prisma.service";
 
-export async function POST() {
+export async function POST(req: Request) {
+  const audit = new AuditService(prisma);
   try {
     await ensureTriageServiceInitialized();
     const triageService = getTriageService();
     const result = await triageService.triggerRun();
+    await audit.record(req, { action: "triage.run", ...outcomeOf(result) });
     return NextResponse.json(result);
   } catch (error: unknown) {
-    return NextResponse.json(
-      {
-        error: error instanceof Error ? error.message : "Failed to trigger run",
-      },
-      { status: 500 },
-    );
+    const message =
+      error instanceof Error ? error.message : "Failed to trigger run";
+    await audit.record(req, {
+      action: "triage.run",
+      outcome: "failure",
+      error: message,
+    });
+    return NextResponse.json({ error: message }, { status: 500 });
   }
 }
@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import {
+  getTriageService,
+  ensureTriageServiceInitialized,
+} from "@/services/triage-manager";
+
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id } = await params;
+    await ensureTriageServiceInitialized();
+    const triageService = getTriageService();
+    const result = await triageService.suggestBranch(id);
+    return NextResponse.json(result);
+  } catch (error: unknown) {
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error ? error.message : "Failed to suggest branch",
+      },
+      { status: 500 },
+    );
+  }
+}
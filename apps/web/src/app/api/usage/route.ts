@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/services/prisma.service";
+import {
+  USAGE_GROUPS,
+  UsageGroup,
+  UsageService,
+} from "@/services/usage.service";
+
+function parseDate(value: string | null) {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+export async function GET(req: Request) {
+  const params = new URL(req.url).searchParams;
+  const groupBy = (params.get("groupBy") ?? "day") as UsageGroup;
+  if (!USAGE_GROUPS.includes(groupBy)) {
+    return NextResponse.json(
+      { error: `groupBy must be one of ${USAGE_GROUPS.join(", ")}` },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const usageService = new UsageService(prisma);
+    const [summary, budget] = await Promise.all([
+      usageService.summary({
+        groupBy,
+        since:
+          parseDate(params.get("since")) ??
+          new Date(Date.now() - 30 * 24 * 60 * 60 * 1000),
+        until: parseDate(params.get("until")),
+        teamId: params.get("team") || undefined,
+      }),
+      usageService.budget(),
+    ]);
+    return NextResponse.json({ groupBy, ...summary, budget });
+  } catch (error) {
+    console.error("[Usage] Error summarizing usage:", error);
+    return NextResponse.json(
+      { error: "Failed to summarize usage" },
+      { status: 500 },
+    );
+  }
+}
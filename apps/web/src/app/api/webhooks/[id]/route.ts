@@ -0,0 +1,105 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { WebhookService } from "@/services/webhook.service";
+import { prisma } from "@/services/prisma.service";
+import { AuditService, outcomeOf } from "@/services/audit.service";
+import { RUN_EVENTS } from "@/triage/types";
+
+const updateWebhookSchema = z.object({
+  name: z.string().min(1).optional(),
+  url: z.string().url().optional(),
+  events: z.array(z.enum(RUN_EVENTS)).min(1).optional(),
+  template: z.string().nullable().optional(),
+  teamId: z.string().nullable().optional(),
+  enabled: z.boolean().optional(),
+  secret: z.string().optional(),
+});
+
+async function findWebhook(id: string) {
+  return prisma.outboundWebhook.findUnique({ where: { id } });
+}
+
+export async function PATCH(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id } = await params;
+    const body = await req.json();
+    const parsed = updateWebhookSchema.parse(body);
+
+    const webhookService = new WebhookService(prisma);
+    const before = await findWebhook(id);
+    const result = await webhookService.update(id, parsed);
+    await new AuditService(prisma).record(req, {
+      action: "webhooks.update",
+      target: before?.name ?? id,
+      before,
+      ...outcomeOf(result),
+      after: result.error
+        ? null
+        : {
+            ...(await findWebhook(id)),
+            secret: parsed.secret === undefined ? undefined : "(changed)",
+          },
+    });
+    if (result.error) {
+      return NextResponse.json(result, {
+        status: result.error === "Webhook not found" ? 404 : 400,
+      });
+    }
+    return NextResponse.json(result);
+  } catch (error: unknown) {
+    if (
+      error &&
+      typeof error === "object" &&
+      "name" in error &&
+      error.name === "ZodError"
+    ) {
+      return NextResponse.json(
+        {
+          error: "Invalid request body",
+          details: "errors" in error ? error.errors : undefined,
+        },
+        { status: 400 },
+      );
+    }
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error ? error.message : "Failed to update webhook",
+      },
+      { status: 500 },
+    );
+  }
+}
+
+export async function DELETE(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id } = await params;
+    const before = await findWebhook(id);
+    const result = await new WebhookService(prisma).remove(id);
+    await new AuditService(prisma).record(req, {
+      action: "webhooks.delete",
+      target: before?.name ?? id,
+      before,
+      ...outcomeOf(result),
+      after: null,
+    });
+    if (result.error) {
+      return NextResponse.json(result, { status: 404 });
+    }
+    return NextResponse.json(result);
+  } catch (error: unknown) {
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error ? error.message : "Failed to delete webhook",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+import { WebhookService } from "@/services/webhook.service";
+import { prisma } from "@/services/prisma.service";
+
+export async function GET(req: Request) {
+  try {
+    const params = new URL(req.url).searchParams;
+    const limit = Number.parseInt(params.get("limit") ?? "100", 10);
+    const deliveries = await new WebhookService(prisma).deliveries({
+      webhookId: params.get("webhookId") ?? undefined,
+      status: params.get("status") ?? undefined,
+      limit: Number.isNaN(limit) ? undefined : limit,
+    });
+    return NextResponse.json(deliveries);
+  } catch (error) {
+    console.error("[Webhooks] Error listing deliveries:", error);
+    return NextResponse.json(
+      { error: "Failed to list webhook deliveries" },
+      { status: 500 },
+    );
+  }
+}
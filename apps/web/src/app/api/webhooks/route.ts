@@ -0,0 +1,73 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { WebhookService } from "@/services/webhook.service";
+import { prisma } from "@/services/prisma.service";
+import { AuditService, outcomeOf } from "@/services/audit.service";
+import { RUN_EVENTS } from "@/triage/types";
+
+const createWebhookSchema = z.object({
+  name: z.string().min(1),
+  url: z.string().url(),
+  events: z.array(z.enum(RUN_EVENTS)).min(1).optional(),
+  template: z.string().nullable().optional(),
+  teamId: z.string().nullable().optional(),
+  enabled: z.boolean().optional(),
+  secret: z.string().optional(),
+});
+
+export async function GET() {
+  try {
+    const webhookService = new WebhookService(prisma);
+    return NextResponse.json(await webhookService.list());
+  } catch (error: unknown) {
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error ? error.message : "Failed to list webhooks",
+      },
+      { status: 500 },
+    );
+  }
+}
+
+export async function POST(req: Request) {
+  try {
+    const body = await req.json();
+    const parsed = createWebhookSchema.parse(body);
+
+    const webhookService = new WebhookService(prisma);
+    const result = await webhookService.create(parsed);
+    await new AuditService(prisma).record(req, {
+      action: "webhooks.create",
+      target: parsed.name,
+      ...outcomeOf(result),
+      after: { ...parsed, secret: parsed.secret ? "(set)" : undefined },
+    });
+    if (result.error) {
+      return NextResponse.json(result, { status: 400 });
+    }
+    return NextResponse.json(result);
+  } catch (error: unknown) {
+    if (
+      error &&
+      typeof error === "object" &&
+      "name" in error &&
+      error.name === "ZodError"
+    ) {
+      return NextResponse.json(
+        {
+          error: "Invalid request body",
+          details: "errors" in error ? error.errors : undefined,
+        },
+        { status: 400 },
+      );
+    }
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error ? error.message : "Failed to create webhook",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,194 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import { fetchAudit } from "@/lib/api";
+
+type AuditEvent = {
+  id: string;
+  action: string;
+  actorEmail: string;
+  actorRole?: string | null;
+  target?: string | null;
+  before?: Record<string, unknown> | null;
+  after?: Record<string, unknown> | null;
+  outcome: "success" | "failure";
+  error?: string | null;
+  createdAt: string;
+};
+
+type Filters = {
+  action: string;
+  actor: string;
+  outcome: string;
+  since: string;
+};
+
+const inputClass =
+  "rounded-full border border-[var(--border)] bg-transparent px-4 py-2 text-sm text-[var(--ink)] placeholder:text-[var(--ink-muted)] focus:border-[var(--accent-2)] focus:outline-none";
+
+function formatValue(value: unknown) {
+  if (value === null || value === undefined) return "—";
+  if (typeof value === "string") return value || "“”";
+  return JSON.stringify(value);
+}
+
+function Changes({ event }: { event: AuditEvent }) {
+  const keys = [
+    ...new Set([
+      ...Object.keys(event.before ?? {}),
+      ...Object.keys(event.after ?? {}),
+    ]),
+  ];
+  if (keys.length === 0) return null;
+  return (
+    <dl className="mt-2 grid grid-cols-[max-content_1fr] gap-x-3 gap-y-1 font-mono text-[0.7rem]">
+      {keys.map((key) => (
+        <div key={key} className="contents">
+          <dt className="text-[var(--ink-muted)]">{key}</dt>
+          <dd className="break-all text-[var(--ink)]">
+            {event.before && event.after ? (
+              <>
+                <span className="text-[var(--accent)] line-through">
+                  {formatValue(event.before[key])}
+                </span>{" "}
+                → {formatValue(event.after[key])}
+              </>
+            ) : (
+              formatValue((event.after ?? event.before)?.[key])
+            )}
+          </dd>
+        </div>
+      ))}
+    </dl>
+  );
+}
+
+export default function AuditPage() {
+  const [filters, setFilters] = useState<Filters>({
+    action: "",
+    actor: "",
+    outcome: "",
+    since: "",
+  });
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [actions, setActions] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const since = filters.since ? new Date(filters.since).toISOString() : "";
+    fetchAudit({ ...filters, since }).then((data) => {
+      if (!data) {
+        setError("Failed to load the audit log.");
+        return;
+      }
+      setError(null);
+      setEvents(data.events);
+      setActions(data.actions);
+    });
+  }, [filters]);
+
+  const update = (key: keyof Filters, value: string) =>
+    setFilters((prev) => ({ ...prev, [key]: value }));
+
+  return (
+    <div className="min-h-screen px-6 py-10">
+      <div className="mx-auto flex w-full max-w-6xl flex-col gap-8">
+        <header className="flex flex-col gap-2">
+          <Link
+            href="/"
+            className="text-xs uppercase tracking-[0.2em] text-[var(--ink-muted)] hover:text-[var(--accent-2)]"
+          >
+            ← Dashboard
+          </Link>
+          <h1 className="text-3xl font-semibold tracking-tight text-[var(--ink)]">
+            Audit log
+          </h1>
+          <p className="text-sm text-[var(--ink-muted)]">
+            Every operator action and config change, newest first.
+          </p>
+        </header>
+
+        <div className="flex flex-wrap gap-3" data-testid="audit-filters">
+          <select
+            className={inputClass}
+            value={filters.action}
+            onChange={(event) => update("action", event.target.value)}
+          >
+            <option value="">All actions</option>
+            {actions.map((action) => (
+              <option key={action} value={action}>
+                {action}
+              </option>
+            ))}
+          </select>
+          <input
+            className={inputClass}
+            placeholder="Actor email"
+            value={filters.actor}
+            onChange={(event) => update("actor", event.target.value)}
+          />
+          <select
+            className={inputClass}
+            value={filters.outcome}
+            onChange={(event) => update("outcome", event.target.value)}
+          >
+            <option value="">Any outcome</option>
+            <option value="success">Success</option>
+            <option value="failure">Failure</option>
+          </select>
+          <input
+            className={inputClass}
+            type="datetime-local"
+            value={filters.since}
+            onChange={(event) => update("since", event.target.value)}
+          />
+        </div>
+
+        {error && <p className="text-sm text-[var(--accent)]">{error}</p>}
+
+        <ul className="flex flex-col gap-3" data-testid="audit-events">
+          {events.length === 0 && !error && (
+            <li className="text-sm text-[var(--ink-muted)]">
+              No audit events match these filters.
+            </li>
+          )}
+          {events.map((event) => (
+            <li key={event.id} className="glass rounded-2xl px-4 py-3">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="chip text-[var(--ink)]">{event.action}</span>
+                <span
+                  className={`chip ${
+                    event.outcome === "success"
+                      ? "border-[var(--accent-3)] text-[var(--accent-3)]"
+                      : "border-[var(--accent)] text-[var(--accent)]"
+                  }`}
+                >
+                  {event.outcome}
+                </span>
+                <span className="text-sm text-[var(--ink)]">
+                  {event.actorEmail}
+                  {event.actorRole ? ` (${event.actorRole})` : ""}
+                </span>
+                {event.target && (
+                  <span className="font-mono text-xs text-[var(--ink-muted)]">
+                    {event.target}
+                  </span>
+                )}
+                <span className="ml-auto text-xs text-[var(--ink-muted)]">
+                  {new Date(event.createdAt).toLocaleString()}
+                </span>
+              </div>
+              {event.error && (
+                <p className="mt-2 text-xs text-[var(--accent)]">
+                  {event.error}
+                </p>
+              )}
+              <Changes event={event} />
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+"use client";
+
+import { FormEvent, Suspense, useEffect, useState, useTransition } from "react";
+import { useSearchParams } from "next/navigation";
+import { API_URL, fetchSession } from "@/lib/api";
+
+function LoginForm() {
+  const searchParams = useSearchParams();
+  const [isPending, startTransition] = useTransition();
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [oidcEnabled, setOidcEnabled] = useState(false);
+  const [error, setError] = useState<string | null>(searchParams.get("error"));
+
+  useEffect(() => {
+    fetchSession().then((session) => setOidcEnabled(!!session?.oidcEnabled));
+  }, []);
+
+  const next = searchParams.get("next");
+  const destination =
+    next?.startsWith("/") && !next.startsWith("//") ? next : "/";
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setError(null);
+    startTransition(async () => {
+      try {
+        const res = await fetch(`${API_URL}/auth/login`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ email, password }),
+        });
+        const data = await res.json();
+        if (!res.ok || data.error) {
+          setError(data.error ?? "Login failed.");
+          return;
+        }
+        window.location.href = destination;
+      } catch {
+        setError("Login failed.");
+      }
+    });
+  };
+
+  return (
+    <form
+      className="glass flex w-full max-w-sm flex-col gap-4 rounded-2xl px-6 py-6"
+      onSubmit={handleSubmit}
+      data-testid="login-form"
+    >
+      <div>
+        <p className="chip text-[var(--ink-muted)]">Oncall Triage</p>
+        <h1 className="mt-3 text-2xl font-semibold tracking-tight text-[var(--ink)]">
+          Sign in
+        </h1>
+      </div>
+      <input
+        className="rounded-full border border-[var(--border)] bg-transparent px-4 py-2 text-sm text-[var(--ink)] placeholder:text-[var(--ink-muted)] focus:border-[var(--accent-2)] focus:outline-none"
+        type="email"
+        autoComplete="email"
+        placeholder="Email"
+        value={email}
+        onChange={(event) => setEmail(event.target.value)}
+        disabled={isPending}
+        required
+      />
+      <input
+        className="rounded-full border border-[var(--border)] bg-transparent px-4 py-2 text-sm text-[var(--ink)] placeholder:text-[var(--ink-muted)] focus:border-[var(--accent-2)] focus:outline-none"
+        type="password"
+        autoComplete="current-password"
+        placeholder="Password"
+        value={password}
+        onChange={(event) => setPassword(event.target.value)}
+        disabled={isPending}
+        required
+      />
+      <button
+        type="submit"
+        className="rounded-full border border-[var(--border)] px-3 py-2 text-xs uppercase tracking-[0.2em] text-[var(--ink)] transition hover:border-[var(--accent-2)] hover:text-[var(--accent-2)] disabled:opacity-50"
+        disabled={isPending}
+      >
+        {isPending ? "Signing in" : "Sign in"}
+      </button>
+      {oidcEnabled && (
+        <a
+          href={`${API_URL}/auth/oidc/login`}
+          className="rounded-full border border-dashed border-[var(--border)] px-3 py-2 text-center text-xs uppercase tracking-[0.2em] text-[var(--ink-muted)] transition hover:border-[var(--accent-2)] hover:text-[var(--accent-2)]"
+        >
+          Sign in with SSO
+        </a>
+      )}
+      {error && <span className="text-xs text-[var(--accent)]">{error}</span>}
+    </form>
+  );
+}
+
+export default function LoginPage() {
+  return (
+    <div className="flex min-h-screen items-center justify-center px-6 py-10">
+      <Suspense>
+        <LoginForm />
+      </Suspense>
+    </div>
+  );
+}
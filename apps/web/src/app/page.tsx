@@ -1,8 +1,11 @@
 "use client";
 
+import Link from "next/link";
 import { useEffect, useState } from "react";
 import { ConnectionWizard } from "@/components/connection-wizard";
 import { ThemeToggle } from "@/components/theme-toggle";
+import { UserMenu } from "@/components/user-menu";
+import { TeamSwitcher } from "@/components/team-switcher";
 import { ReportsList } from "@/components/reports-list";
 import {
   fetchConfig,
@@ -28,6 +31,8 @@ type HealthStatus = {
     intervalMs?: number;
     staleThresholdMs?: number;
     stale?: boolean;
+    budgetPaused?: boolean;
+    budgetUnpriced?: boolean;
   };
 };
 
@@ -80,6 +85,7 @@ export default function Home() {
   const [permCheck, setPermCheck] = useState<PermissionCheck | null>(null);
   const [fixingPerms, setFixingPerms] = useState(false);
   const [permDismissed, setPermDismissed] = useState(false);
+  const [teamId, setTeamId] = useState("");
 
   useEffect(() => {
     async function loadData() {
@@ -228,6 +234,8 @@ export default function Home() {
           </div>
           <div className="w-full max-w-xs">
             <div className="glass flex flex-col gap-4 rounded-2xl px-4 py-4">
+              <UserMenu />
+              <TeamSwitcher value={teamId} onChange={setTeamId} />
               <div className="flex items-start justify-between gap-4">
                 <div>
                   <span
@@ -259,10 +267,49 @@ export default function Home() {
                       Last error: {schedulerError}
                     </span>
                   )}
+                  {scheduler?.budgetPaused && (
+                    <Link
+                      href="/usage"
+                      className="text-[0.65rem] text-[var(--accent)] hover:underline"
+                      data-testid="budget-paused"
+                    >
+                      Monthly budget reached; automatic triage paused
+                    </Link>
+                  )}
+                  {scheduler?.budgetUnpriced && (
+                    <Link
+                      href="/usage"
+                      className="text-[0.65rem] text-[var(--accent)] hover:underline"
+                      data-testid="budget-unpriced"
+                    >
+                      Some runs this month have no price; budget undercounts
+                    </Link>
+                  )}
                 </div>
               </div>
               <div className="flex flex-col gap-2">
                 <ThemeToggle className="w-full" />
+                <Link
+                  href="/audit"
+                  className="text-center text-xs uppercase tracking-[0.2em] text-[var(--ink-muted)] transition hover:text-[var(--accent-2)]"
+                  data-testid="open-audit-log"
+                >
+                  Audit log
+                </Link>
+                <Link
+                  href="/webhooks"
+                  className="text-center text-xs uppercase tracking-[0.2em] text-[var(--ink-muted)] transition hover:text-[var(--accent-2)]"
+                  data-testid="open-webhooks"
+                >
+                  Webhooks
+                </Link>
+                <Link
+                  href="/usage"
+                  className="text-center text-xs uppercase tracking-[0.2em] text-[var(--ink-muted)] transition hover:text-[var(--accent-2)]"
+                  data-testid="open-usage"
+                >
+                  Usage
+                </Link>
               </div>
               <div className="flex flex-col gap-2">
                 <ConnectionWizard
@@ -276,6 +323,7 @@ export default function Home() {
         </header>
 
         <ReportsList
+          teamId={teamId || undefined}
           onRunningChange={(running, count) => {
             setIsRunning(running);
             setRunningCount(count);
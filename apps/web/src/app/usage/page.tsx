@@ -0,0 +1,213 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import { fetchUsage } from "@/lib/api";
+
+type UsageRow = {
+  key: string;
+  runs: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  durationMs: number;
+  unpriced: number;
+};
+
+type Usage = {
+  rows: UsageRow[];
+  totals: UsageRow;
+  budget: {
+    limitUsd: number | null;
+    spentUsd: number;
+    unpricedRuns: number;
+    since: string;
+    paused: boolean;
+  };
+};
+
+type Filters = {
+  groupBy: string;
+  since: string;
+};
+
+const GROUPS = [
+  { value: "day", label: "By day" },
+  { value: "service", label: "By service" },
+  { value: "monitor", label: "By monitor" },
+  { value: "model", label: "By model" },
+];
+
+const inputClass =
+  "rounded-full border border-[var(--border)] bg-transparent px-4 py-2 text-sm text-[var(--ink)] placeholder:text-[var(--ink-muted)] focus:border-[var(--accent-2)] focus:outline-none";
+
+function formatTokens(value: number) {
+  if (value >= 1_000_000) return `${(value / 1_000_000).toFixed(1)}M`;
+  if (value >= 1_000) return `${(value / 1_000).toFixed(1)}k`;
+  return String(value);
+}
+
+function formatUsd(value: number) {
+  return `$${value.toFixed(value < 1 ? 4 : 2)}`;
+}
+
+function formatDuration(ms: number) {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+function Stats({ row }: { row: UsageRow }) {
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-xs text-[var(--ink-muted)]">
+      <span className="chip text-[var(--ink)]">
+        {row.runs} run{row.runs === 1 ? "" : "s"}
+      </span>
+      <span className="chip">
+        {formatTokens(row.inputTokens)} in · {formatTokens(row.outputTokens)}{" "}
+        out
+      </span>
+      <span className="chip border-[var(--accent-2)] text-[var(--accent-2)]">
+        {formatUsd(row.costUsd)}
+      </span>
+      <span className="chip">
+        avg {formatDuration(row.runs ? row.durationMs / row.runs : 0)}
+      </span>
+      {row.unpriced > 0 && (
+        <span
+          className="chip border-[var(--accent)] text-[var(--accent)]"
+          title="These runs used a model with no MODEL_PRICES entry."
+        >
+          {row.unpriced} unpriced
+        </span>
+      )}
+    </div>
+  );
+}
+
+export default function UsagePage() {
+  const [filters, setFilters] = useState<Filters>({
+    groupBy: "day",
+    since: "",
+  });
+  const [usage, setUsage] = useState<Usage | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const since = filters.since ? new Date(filters.since).toISOString() : "";
+    fetchUsage({ ...filters, since }).then((data) => {
+      if (!data || data.error) {
+        setError(data?.error ?? "Failed to load usage.");
+        return;
+      }
+      setError(null);
+      setUsage(data);
+    });
+  }, [filters]);
+
+  const update = (key: keyof Filters, value: string) =>
+    setFilters((prev) => ({ ...prev, [key]: value }));
+
+  const budget = usage?.budget;
+
+  return (
+    <div className="min-h-screen px-6 py-10">
+      <div className="mx-auto flex w-full max-w-6xl flex-col gap-8">
+        <header className="flex flex-col gap-2">
+          <Link
+            href="/"
+            className="text-xs uppercase tracking-[0.2em] text-[var(--ink-muted)] hover:text-[var(--accent-2)]"
+          >
+            ← Dashboard
+          </Link>
+          <h1 className="text-3xl font-semibold tracking-tight text-[var(--ink)]">
+            Usage
+          </h1>
+          <p className="text-sm text-[var(--ink-muted)]">
+            Tokens, cost and provider time of finished triage runs. Costs use
+            the <code>MODEL_PRICES</code> table.
+          </p>
+        </header>
+
+        {budget && (
+          <div className="glass rounded-2xl px-4 py-3" data-testid="budget">
+            <p className="text-[0.7rem] uppercase tracking-[0.2em] text-[var(--ink-muted)]">
+              Monthly budget · all teams
+            </p>
+            <p className="mt-1 text-sm text-[var(--ink)]">
+              {budget.limitUsd === null
+                ? `${formatUsd(budget.spentUsd)} spent since ${new Date(budget.since).toLocaleDateString()}; no budget set.`
+                : `${formatUsd(budget.spentUsd)} of ${formatUsd(budget.limitUsd)} spent since ${new Date(budget.since).toLocaleDateString()}.`}
+            </p>
+            {budget.unpricedRuns > 0 && (
+              <p
+                className="mt-1 text-xs text-[var(--accent)]"
+                data-testid="budget-unpriced"
+              >
+                {budget.unpricedRuns} run
+                {budget.unpricedRuns === 1 ? "" : "s"} this month used a model
+                with no MODEL_PRICES entry and count as $0, so real spend is
+                higher.
+              </p>
+            )}
+            {budget.paused && (
+              <p className="mt-1 text-xs text-[var(--accent)]">
+                Automatic triage is paused until next month or until
+                TRIAGE_MONTHLY_BUDGET_USD is raised. Manual runs still work.
+              </p>
+            )}
+          </div>
+        )}
+
+        <div className="flex flex-wrap gap-3" data-testid="usage-filters">
+          <select
+            className={inputClass}
+            value={filters.groupBy}
+            onChange={(event) => update("groupBy", event.target.value)}
+          >
+            {GROUPS.map((group) => (
+              <option key={group.value} value={group.value}>
+                {group.label}
+              </option>
+            ))}
+          </select>
+          <input
+            className={inputClass}
+            type="date"
+            value={filters.since}
+            onChange={(event) => update("since", event.target.value)}
+            title="Since (defaults to the last 30 days)"
+          />
+        </div>
+
+        {error && <p className="text-sm text-[var(--accent)]">{error}</p>}
+
+        {usage && (
+          <div className="flex flex-col gap-3" data-testid="usage-rows">
+            <div className="glass rounded-2xl px-4 py-3">
+              <p className="mb-2 text-sm font-semibold text-[var(--ink)]">
+                Total
+              </p>
+              <Stats row={usage.totals} />
+            </div>
+            {usage.rows.length === 0 && (
+              <p className="text-sm text-[var(--ink-muted)]">
+                No finished runs in this window.
+              </p>
+            )}
+            <ul className="flex flex-col gap-3">
+              {usage.rows.map((row) => (
+                <li key={row.key} className="glass rounded-2xl px-4 py-3">
+                  <p className="mb-2 break-all text-sm text-[var(--ink)]">
+                    {row.key}
+                  </p>
+                  <Stats row={row} />
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
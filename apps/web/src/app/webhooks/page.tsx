@@ -0,0 +1,199 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import { fetchWebhookDeliveries, fetchWebhooks } from "@/lib/api";
+
+type Webhook = {
+  id: string;
+  name: string;
+  url: string;
+  events: string[];
+  teamId?: string | null;
+  enabled: boolean;
+  signed: boolean;
+  template?: string | null;
+};
+
+type Attempt = {
+  at: string;
+  responseCode?: number;
+  error?: string;
+  durationMs: number;
+};
+
+type Delivery = {
+  id: string;
+  runId: string;
+  event: string;
+  status: "pending" | "success" | "failed";
+  attempts: number;
+  responseCode?: number | null;
+  error?: string | null;
+  attemptLog?: Attempt[] | null;
+  nextAttemptAt?: string | null;
+  createdAt: string;
+  webhook: { name: string; url: string };
+};
+
+const inputClass =
+  "rounded-full border border-[var(--border)] bg-transparent px-4 py-2 text-sm text-[var(--ink)] placeholder:text-[var(--ink-muted)] focus:border-[var(--accent-2)] focus:outline-none";
+
+const statusClass: Record<Delivery["status"], string> = {
+  success: "border-[var(--accent-3)] text-[var(--accent-3)]",
+  failed: "border-[var(--accent)] text-[var(--accent)]",
+  pending: "text-[var(--ink-muted)]",
+};
+
+export default function WebhooksPage() {
+  const [webhooks, setWebhooks] = useState<Webhook[]>([]);
+  const [deliveries, setDeliveries] = useState<Delivery[]>([]);
+  const [webhookId, setWebhookId] = useState("");
+  const [status, setStatus] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchWebhooks().then((data) => {
+      if (data) setWebhooks(data);
+    });
+  }, []);
+
+  useEffect(() => {
+    fetchWebhookDeliveries({ webhookId, status }).then((data) => {
+      if (!data) {
+        setError("Failed to load webhook deliveries.");
+        return;
+      }
+      setError(null);
+      setDeliveries(data);
+    });
+  }, [webhookId, status]);
+
+  return (
+    <div className="min-h-screen px-6 py-10">
+      <div className="mx-auto flex w-full max-w-6xl flex-col gap-8">
+        <header className="flex flex-col gap-2">
+          <Link
+            href="/"
+            className="text-xs uppercase tracking-[0.2em] text-[var(--ink-muted)] hover:text-[var(--accent-2)]"
+          >
+            ← Dashboard
+          </Link>
+          <h1 className="text-3xl font-semibold tracking-tight text-[var(--ink)]">
+            Webhooks
+          </h1>
+          <p className="text-sm text-[var(--ink-muted)]">
+            Outbound webhooks for run events and every delivery attempt, newest
+            first. Configure them through <code>/api/webhooks</code>.
+          </p>
+        </header>
+
+        <ul className="flex flex-col gap-3" data-testid="webhooks">
+          {webhooks.length === 0 && (
+            <li className="text-sm text-[var(--ink-muted)]">
+              No webhooks configured.
+            </li>
+          )}
+          {webhooks.map((webhook) => (
+            <li key={webhook.id} className="glass rounded-2xl px-4 py-3">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="text-sm font-semibold text-[var(--ink)]">
+                  {webhook.name}
+                </span>
+                {!webhook.enabled && <span className="chip">disabled</span>}
+                {webhook.signed && <span className="chip">signed</span>}
+                {webhook.template && <span className="chip">template</span>}
+                {webhook.events.map((event) => (
+                  <span key={event} className="chip text-[var(--ink)]">
+                    {event}
+                  </span>
+                ))}
+              </div>
+              <p className="mt-1 break-all font-mono text-xs text-[var(--ink-muted)]">
+                {webhook.url}
+              </p>
+            </li>
+          ))}
+        </ul>
+
+        <div className="flex flex-wrap gap-3" data-testid="delivery-filters">
+          <select
+            className={inputClass}
+            value={webhookId}
+            onChange={(event) => setWebhookId(event.target.value)}
+          >
+            <option value="">All webhooks</option>
+            {webhooks.map((webhook) => (
+              <option key={webhook.id} value={webhook.id}>
+                {webhook.name}
+              </option>
+            ))}
+          </select>
+          <select
+            className={inputClass}
+            value={status}
+            onChange={(event) => setStatus(event.target.value)}
+          >
+            <option value="">Any status</option>
+            <option value="success">Success</option>
+            <option value="pending">Pending</option>
+            <option value="failed">Failed</option>
+          </select>
+        </div>
+
+        {error && <p className="text-sm text-[var(--accent)]">{error}</p>}
+
+        <ul className="flex flex-col gap-3" data-testid="webhook-deliveries">
+          {deliveries.length === 0 && !error && (
+            <li className="text-sm text-[var(--ink-muted)]">
+              No deliveries match these filters.
+            </li>
+          )}
+          {deliveries.map((delivery) => (
+            <li key={delivery.id} className="glass rounded-2xl px-4 py-3">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="chip text-[var(--ink)]">{delivery.event}</span>
+                <span className={`chip ${statusClass[delivery.status]}`}>
+                  {delivery.status}
+                </span>
+                <span className="text-sm text-[var(--ink)]">
+                  {delivery.webhook.name}
+                </span>
+                <Link
+                  href={`/#run-${delivery.runId}`}
+                  className="font-mono text-xs text-[var(--ink-muted)] hover:text-[var(--accent-2)]"
+                >
+                  {delivery.runId}
+                </Link>
+                <span className="ml-auto text-xs text-[var(--ink-muted)]">
+                  {new Date(delivery.createdAt).toLocaleString()}
+                </span>
+              </div>
+              <ol className="mt-2 flex flex-col gap-1 font-mono text-[0.7rem] text-[var(--ink-muted)]">
+                {(delivery.attemptLog ?? []).map((attempt, index) => (
+                  <li key={attempt.at}>
+                    #{index + 1} {new Date(attempt.at).toLocaleTimeString()} ·{" "}
+                    {attempt.responseCode ?? "no response"} ·{" "}
+                    {attempt.durationMs}ms
+                    {attempt.error && (
+                      <span className="text-[var(--accent)]">
+                        {" "}
+                        · {attempt.error}
+                      </span>
+                    )}
+                  </li>
+                ))}
+              </ol>
+              {delivery.status === "pending" && delivery.nextAttemptAt && (
+                <p className="mt-1 text-xs text-[var(--ink-muted)]">
+                  Next attempt{" "}
+                  {new Date(delivery.nextAttemptAt).toLocaleString()}
+                </p>
+              )}
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { API_URL } from "@/lib/api";
+
+export function CancelRunButton({ runId }: { runId: string }) {
+  const [isPending, startTransition] = useTransition();
+  const [message, setMessage] = useState<string | null>(null);
+
+  const handleClick = () => {
+    setMessage(null);
+    startTransition(async () => {
+      try {
+        const res = await fetch(`${API_URL}/triage/cancel/${runId}`, {
+          method: "POST",
+        });
+        const data = await res.json();
+        if (!res.ok || data.error) {
+          setMessage(data.error ?? "Failed to cancel run.");
+          return;
+        }
+        setMessage("Cancelled.");
+      } catch {
+        setMessage("Failed to cancel run.");
+      }
+    });
+  };
+
+  return (
+    <div className="flex flex-col items-end gap-2">
+      <button
+        className="rounded-full border border-[var(--border)] px-3 py-2 text-xs uppercase tracking-[0.2em] text-[var(--ink)] transition hover:border-[var(--accent)] hover:text-[var(--accent)] disabled:opacity-50"
+        onClick={handleClick}
+        disabled={isPending}
+        data-testid={`cancel-run-${runId}`}
+        title="Stop this triage run and its provider process."
+      >
+        {isPending ? "Cancelling" : "Cancel"}
+      </button>
+      {message && (
+        <span className="text-[0.65rem] text-[var(--ink-muted)]">
+          {message}
+        </span>
+      )}
+    </div>
+  );
+}
@@ -7,6 +7,13 @@ import { IntegrationHelp } from "@/components/integration-help";
 import { IntegrationTestButton } from "@/components/integration-test-button";
 import { API_URL } from "@/lib/api";
 
+const ALERT_SOURCES = [
+  { id: "datadog", label: "Datadog monitors" },
+  { id: "alertmanager", label: "Prometheus Alertmanager" },
+  { id: "grafana", label: "Grafana alerting" },
+  { id: "generic", label: "Generic JSON poller" },
+] as const;
+
 export function ConnectionWizard({
   statusLabel,
   statusTone = "muted",
@@ -43,6 +50,11 @@ export function ConnectionWizard({
     datadogAppKey: "",
     datadogSite: "datadoghq.com",
     alertTeam: "",
+    alertSources: "datadog",
+    alertmanagerUrl: "",
+    grafanaUrl: "",
+    grafanaApiToken: "",
+    genericAlertsUrl: "",
     githubToken: "",
     confluenceBaseUrl: "",
     confluenceUser: "",
@@ -54,6 +66,18 @@ export function ConnectionWizard({
     setForm((prev) => ({ ...prev, [key]: value }));
   };
 
+  const enabledSources = form.alertSources
+    .split(",")
+    .map((source) => source.trim())
+    .filter(Boolean);
+
+  const toggleSource = (source: string, enabled: boolean) => {
+    const next = enabled
+      ? [...enabledSources.filter((s) => s !== source), source]
+      : enabledSources.filter((s) => s !== source);
+    update("alertSources", next.join(","));
+  };
+
   useEffect(() => {
     if (!isOpen) return;
     setIsLoadingConfig(true);
@@ -67,6 +91,11 @@ export function ConnectionWizard({
             datadogAppKey: data.datadogAppKey ?? prev.datadogAppKey,
             datadogSite: data.datadogSite ?? prev.datadogSite,
             alertTeam: data.alertTeam ?? prev.alertTeam,
+            alertSources: data.alertSources ?? prev.alertSources,
+            alertmanagerUrl: data.alertmanagerUrl ?? prev.alertmanagerUrl,
+            grafanaUrl: data.grafanaUrl ?? prev.grafanaUrl,
+            grafanaApiToken: data.grafanaApiToken ?? prev.grafanaApiToken,
+            genericAlertsUrl: data.genericAlertsUrl ?? prev.genericAlertsUrl,
             githubToken: data.githubToken ?? prev.githubToken,
             confluenceBaseUrl: data.confluenceBaseUrl ?? prev.confluenceBaseUrl,
             confluenceUser: data.confluenceUser ?? prev.confluenceUser,
@@ -101,6 +130,11 @@ export function ConnectionWizard({
       datadogAppKey: form.datadogAppKey,
       datadogSite: form.datadogSite,
       alertTeam: form.alertTeam,
+      alertSources: form.alertSources,
+      alertmanagerUrl: form.alertmanagerUrl,
+      grafanaUrl: form.grafanaUrl,
+      grafanaApiToken: form.grafanaApiToken,
+      genericAlertsUrl: form.genericAlertsUrl,
       confluenceBaseUrl: form.confluenceBaseUrl,
       confluenceUser: form.confluenceUser,
       confluenceToken: form.confluenceToken,
@@ -297,6 +331,76 @@ export function ConnectionWizard({
 
                   <hr className="border-[var(--border)]" />
 
+                  {/* Alert sources */}
+                  <div className="space-y-3">
+                    <h4 className="text-xs font-semibold uppercase tracking-[0.2em] text-[var(--ink-muted)]">
+                      Alert Sources
+                    </h4>
+                    <div className="grid gap-2 sm:grid-cols-2">
+                      {ALERT_SOURCES.map((source) => (
+                        <label
+                          key={source.id}
+                          className="flex items-center gap-2 text-sm text-[var(--ink)]"
+                        >
+                          <input
+                            type="checkbox"
+                            checked={enabledSources.includes(source.id)}
+                            onChange={(e) =>
+                              toggleSource(source.id, e.target.checked)
+                            }
+                            data-testid={`alert-source-${source.id}`}
+                          />
+                          {source.label}
+                        </label>
+                      ))}
+                    </div>
+                    {enabledSources.includes("alertmanager") && (
+                      <input
+                        className="w-full rounded-xl border border-[var(--border)] bg-[var(--paper)] px-3 py-2 text-sm text-[var(--ink)]"
+                        placeholder="Alertmanager URL (http://alertmanager:9093)"
+                        value={form.alertmanagerUrl}
+                        onChange={(e) =>
+                          update("alertmanagerUrl", e.target.value)
+                        }
+                      />
+                    )}
+                    {enabledSources.includes("grafana") && (
+                      <div className="grid gap-3 sm:grid-cols-2">
+                        <input
+                          className="w-full rounded-xl border border-[var(--border)] bg-[var(--paper)] px-3 py-2 text-sm text-[var(--ink)]"
+                          placeholder="Grafana URL (https://grafana.example.com)"
+                          value={form.grafanaUrl}
+                          onChange={(e) => update("grafanaUrl", e.target.value)}
+                        />
+                        <input
+                          className="w-full rounded-xl border border-[var(--border)] bg-[var(--paper)] px-3 py-2 text-sm text-[var(--ink)]"
+                          placeholder="Grafana service account token"
+                          type="password"
+                          value={form.grafanaApiToken}
+                          onChange={(e) =>
+                            update("grafanaApiToken", e.target.value)
+                          }
+                        />
+                      </div>
+                    )}
+                    {enabledSources.includes("generic") && (
+                      <input
+                        className="w-full rounded-xl border border-[var(--border)] bg-[var(--paper)] px-3 py-2 text-sm text-[var(--ink)]"
+                        placeholder="Generic alerts JSON URL"
+                        value={form.genericAlertsUrl}
+                        onChange={(e) =>
+                          update("genericAlertsUrl", e.target.value)
+                        }
+                      />
+                    )}
+                    <p className="text-[0.7rem] text-[var(--ink-muted)]">
+                      Every enabled source feeds the same triage pipeline. The
+                      team tag filter applies to all of them.
+                    </p>
+                  </div>
+
+                  <hr className="border-[var(--border)]" />
+
                   {/* Atlassian */}
                   <div className="space-y-3">
                     <h4 className="text-xs font-semibold uppercase tracking-[0.2em] text-[var(--ink-muted)]">
@@ -382,10 +486,13 @@ export function ConnectionWizard({
                       >
                         <option value="opencode">OpenCode</option>
                         <option value="codex">Codex</option>
+                        <option value="http">HTTP (OpenAI-compatible)</option>
                       </select>
                       <div className="flex items-center justify-between">
                         <p className="text-[0.7rem] text-[var(--ink-muted)]">
-                          Auto-detected from PATH
+                          {form.provider === "http"
+                            ? "Uses HTTP_PROVIDER_URL"
+                            : "Auto-detected from PATH"}
                         </p>
                         <IntegrationTestButton name={form.provider} />
                       </div>
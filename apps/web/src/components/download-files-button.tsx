@@ -2,6 +2,7 @@
 
 import { useState, useTransition } from "react";
 import { API_URL } from "@/lib/api";
+import type { ToolCallRecord } from "@/triage/types";
 
 type RunInputs = {
   runId: string;
@@ -10,11 +11,12 @@ type RunInputs = {
   alertContext: Record<string, unknown> | null;
   evidence: Record<string, unknown> | null;
   previousReport: string | null;
+  toolTranscript: ToolCallRecord[] | null;
   files: Array<{ name: string; size: number }>;
   error?: string;
 };
 
-type TabId = "prompt" | "alert" | "evidence" | "previous";
+type TabId = "prompt" | "alert" | "evidence" | "previous" | "tools";
 
 export function DownloadFilesButton({ runId }: { runId: string }) {
   const [isPending, startTransition] = useTransition();
@@ -52,6 +54,11 @@ export function DownloadFilesButton({ runId }: { runId: string }) {
       label: "Previous Report",
       available: !!data?.previousReport,
     },
+    {
+      id: "tools",
+      label: `Tool Calls (${data?.toolTranscript?.length ?? 0})`,
+      available: !!data?.toolTranscript?.length,
+    },
   ];
 
   const availableTabs = tabs.filter((t) => t.available);
@@ -163,6 +170,36 @@ export function DownloadFilesButton({ runId }: { runId: string }) {
             {data.previousReport}
           </pre>
         );
+      case "tools":
+        return (
+          <div className="space-y-3">
+            {data.toolTranscript?.map((call, idx) => (
+              <details key={`${call.startedAt}-${idx}`} className="group">
+                <summary className="cursor-pointer text-xs font-medium text-[var(--ink)] hover:text-[var(--accent)] flex items-center gap-2">
+                  <span
+                    className={`inline-block w-2 h-2 rounded-full ${
+                      call.exitCode === 0
+                        ? "bg-green-500"
+                        : call.error
+                          ? "bg-red-500"
+                          : "bg-gray-400"
+                    }`}
+                  />
+                  <code>{call.command.join(" ") || "(invalid call)"}</code>
+                  <span className="text-[var(--ink-muted)] text-[0.6rem]">
+                    {`${call.error ?? `exit ${call.exitCode}`} · ${call.durationMs}ms`}
+                  </span>
+                </summary>
+                <p className="mt-1 text-[0.6rem] text-[var(--ink-muted)]">
+                  {call.cwd}
+                </p>
+                <pre className="mt-1 whitespace-pre-wrap text-[0.65rem] text-[var(--ink)] leading-relaxed code-block rounded-lg p-3 max-h-[24rem] overflow-auto">
+                  {call.output || "(no output)"}
+                </pre>
+              </details>
+            ))}
+          </div>
+        );
       default:
         return null;
     }
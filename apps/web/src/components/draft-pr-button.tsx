@@ -0,0 +1,145 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { API_URL } from "@/lib/api";
+
+type Preview = {
+  repo: string;
+  baseBranch: string;
+  branchName: string;
+  title: string;
+  patch: string;
+  files: string[];
+  applies: boolean;
+  applyError?: string;
+};
+
+/** Previews the Draft Fix as a pull request and opens it once confirmed. */
+export function DraftPrButton({
+  runId,
+  pullRequestUrl,
+}: {
+  runId: string;
+  pullRequestUrl?: string;
+}) {
+  const [isPending, startTransition] = useTransition();
+  const [preview, setPreview] = useState<Preview | null>(null);
+  const [url, setUrl] = useState(pullRequestUrl);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const request = async (init?: RequestInit) => {
+    const res = await fetch(`${API_URL}/triage/pull-request/${runId}`, {
+      cache: "no-store",
+      ...init,
+    });
+    const data = await res.json();
+    if (!res.ok || data.error) {
+      throw new Error(data.error ?? "Pull request request failed.");
+    }
+    return data;
+  };
+
+  const handlePreview = () => {
+    setMessage(null);
+    startTransition(async () => {
+      try {
+        setPreview(await request());
+      } catch (error) {
+        setMessage((error as Error).message);
+      }
+    });
+  };
+
+  const handleOpen = () => {
+    if (!preview) return;
+    setMessage(null);
+    startTransition(async () => {
+      try {
+        const data = await request({
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ branchName: preview.branchName }),
+        });
+        setUrl(data.url);
+        setPreview(null);
+      } catch (error) {
+        setMessage((error as Error).message);
+      }
+    });
+  };
+
+  if (url) {
+    return (
+      <a
+        className="inline-flex items-center rounded-full border border-[var(--accent-3)] px-3 py-1 text-[0.65rem] uppercase tracking-[0.2em] text-[var(--accent-3)] transition hover:bg-[var(--accent-3)] hover:text-white"
+        href={url}
+        target="_blank"
+        rel="noreferrer"
+        data-testid={`pull-request-${runId}`}
+      >
+        Draft PR
+      </a>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-2">
+      {!preview && (
+        <button
+          className="rounded-full border border-[var(--border)] px-3 py-2 text-xs uppercase tracking-[0.2em] text-[var(--ink)] transition hover:border-[var(--accent-3)] hover:text-[var(--accent-3)] disabled:opacity-50"
+          onClick={handlePreview}
+          disabled={isPending}
+          data-testid={`preview-pr-${runId}`}
+          title="Preview the Draft Fix as a draft GitHub pull request."
+        >
+          {isPending ? "Preparing" : "Open draft PR"}
+        </button>
+      )}
+      {preview && (
+        <div
+          className="panel grid max-w-xl gap-2 rounded-xl p-3 text-[0.7rem]"
+          data-testid={`pr-preview-${runId}`}
+        >
+          <p className="font-semibold text-[var(--ink)]">{preview.title}</p>
+          <p className="text-[0.65rem] text-[var(--ink-muted)]">
+            {preview.repo} · {preview.baseBranch} → {preview.branchName}
+          </p>
+          {preview.files.length > 0 && (
+            <p className="text-[0.65rem] text-[var(--ink-muted)]">
+              Files: {preview.files.join(", ")}
+            </p>
+          )}
+          <pre className="max-h-64 overflow-auto whitespace-pre text-[0.65rem] text-[var(--ink-muted)]">
+            {preview.patch}
+          </pre>
+          {preview.applyError && (
+            <span className="whitespace-pre-wrap text-[0.65rem] text-[var(--accent)]">
+              The patch does not apply to {preview.baseBranch}:{" "}
+              {preview.applyError}
+            </span>
+          )}
+          <div className="flex gap-2">
+            <button
+              className="rounded-full border border-[var(--accent-3)] px-3 py-1 text-[0.65rem] uppercase tracking-[0.2em] text-[var(--accent-3)] transition hover:bg-[var(--accent-3)] hover:text-white disabled:opacity-50"
+              onClick={handleOpen}
+              disabled={isPending || !preview.applies}
+              data-testid={`confirm-pr-${runId}`}
+            >
+              {isPending ? "Opening" : "Push & open PR"}
+            </button>
+            <button
+              className="rounded-full border border-[var(--border)] px-3 py-1 text-[0.65rem] uppercase tracking-[0.2em] text-[var(--ink-muted)] transition hover:text-[var(--ink)]"
+              onClick={() => setPreview(null)}
+              disabled={isPending}
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+      {message && (
+        <span className="text-[0.65rem] text-[var(--accent)]">{message}</span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+"use client";
+
+import { FormEvent, useState, useTransition } from "react";
+import { API_URL } from "@/lib/api";
+
+export function FollowUpForm({ runId }: { runId: string }) {
+  const [isPending, startTransition] = useTransition();
+  const [question, setQuestion] = useState("");
+  const [message, setMessage] = useState<string | null>(null);
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!question.trim()) return;
+    setMessage(null);
+    startTransition(async () => {
+      try {
+        const res = await fetch(`${API_URL}/triage/continue/${runId}`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ question }),
+        });
+        const data = await res.json();
+        if (!res.ok || data.error) {
+          setMessage(data.error ?? "Failed to send follow-up.");
+          return;
+        }
+        setQuestion("");
+        setMessage("Follow-up queued.");
+      } catch {
+        setMessage("Failed to send follow-up.");
+      }
+    });
+  };
+
+  return (
+    <form
+      className="mt-4 flex flex-col gap-2 sm:flex-row sm:items-center"
+      onSubmit={handleSubmit}
+      data-testid={`follow-up-${runId}`}
+    >
+      <input
+        className="flex-1 rounded-full border border-[var(--border)] bg-transparent px-4 py-2 text-sm text-[var(--ink)] placeholder:text-[var(--ink-muted)] focus:border-[var(--accent-2)] focus:outline-none"
+        value={question}
+        onChange={(event) => setQuestion(event.target.value)}
+        placeholder="Ask a follow-up, e.g. check the HPA config too"
+        maxLength={2000}
+        disabled={isPending}
+      />
+      <button
+        type="submit"
+        className="rounded-full border border-[var(--border)] px-3 py-2 text-xs uppercase tracking-[0.2em] text-[var(--ink)] transition hover:border-[var(--accent-2)] hover:text-[var(--accent-2)] disabled:opacity-50"
+        disabled={isPending || !question.trim()}
+      >
+        {isPending ? "Sending" : "Ask"}
+      </button>
+      {message && (
+        <span className="text-[0.65rem] text-[var(--ink-muted)]">
+          {message}
+        </span>
+      )}
+    </form>
+  );
+}
@@ -0,0 +1,95 @@
+"use client";
+
+import { useEffect, useState, useTransition } from "react";
+import { API_URL } from "@/lib/api";
+
+type Issue = {
+  key: string;
+  url?: string;
+  status?: string;
+  category?: string;
+  assignee?: string;
+  error?: string;
+};
+
+function statusPill(category?: string) {
+  if (category === "done")
+    return "border-[var(--accent-3)] text-[var(--accent-3)]";
+  if (category === "indeterminate")
+    return "border-[var(--accent-2)] text-[var(--accent-2)]";
+  return "border-[var(--border)] text-[var(--ink-muted)]";
+}
+
+/** "Create ticket" until the run has a Jira issue, then its live status. */
+export function JiraTicketButton({
+  runId,
+  issueKey,
+}: {
+  runId: string;
+  issueKey?: string;
+}) {
+  const [isPending, startTransition] = useTransition();
+  const [issue, setIssue] = useState<Issue | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!issueKey) return;
+    fetch(`${API_URL}/triage/jira/${runId}`, { cache: "no-store" })
+      .then((res) => res.json())
+      .then((data: Issue) => setIssue({ ...data, key: data.key ?? issueKey }))
+      .catch(() => setIssue({ key: issueKey }));
+  }, [runId, issueKey]);
+
+  const handleClick = () => {
+    setMessage(null);
+    startTransition(async () => {
+      try {
+        const res = await fetch(`${API_URL}/triage/jira/${runId}`, {
+          method: "POST",
+        });
+        const data = await res.json();
+        if (!res.ok || data.error) {
+          setMessage(data.error ?? "Failed to create Jira issue.");
+          return;
+        }
+        setIssue({ key: data.key, url: data.url });
+      } catch {
+        setMessage("Failed to create Jira issue.");
+      }
+    });
+  };
+
+  const key = issue?.key ?? issueKey;
+  if (key) {
+    return (
+      <a
+        className={`inline-flex items-center gap-1 rounded-full border px-3 py-1 text-[0.65rem] uppercase tracking-[0.2em] transition hover:border-[var(--accent-2)] hover:text-[var(--accent-2)] ${statusPill(issue?.category)}`}
+        href={issue?.url}
+        target="_blank"
+        rel="noreferrer"
+        title={issue?.error ?? issue?.assignee ?? undefined}
+        data-testid={`jira-issue-${runId}`}
+      >
+        {key}
+        {issue?.status && ` · ${issue.status}`}
+      </a>
+    );
+  }
+
+  return (
+    <div className="flex flex-col items-end gap-2">
+      <button
+        className="rounded-full border border-[var(--border)] px-3 py-2 text-xs uppercase tracking-[0.2em] text-[var(--ink)] transition hover:border-[var(--accent-2)] hover:text-[var(--accent-2)] disabled:opacity-50"
+        onClick={handleClick}
+        disabled={isPending}
+        data-testid={`create-jira-${runId}`}
+        title="File this report as a Jira issue."
+      >
+        {isPending ? "Creating" : "Create ticket"}
+      </button>
+      {message && (
+        <span className="text-[0.65rem] text-[var(--accent)]">{message}</span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+
+export type LiveEvent = {
+  id: number;
+  runId: string;
+  kind: "text" | "tool" | "command" | "status";
+  text: string;
+  detail?: string | null;
+  createdAt: string;
+};
+
+/** Streamed text is saved in pieces; show each stretch of it as one entry. */
+function mergeText(events: LiveEvent[]) {
+  const merged: LiveEvent[] = [];
+  for (const event of events) {
+    const last = merged.at(-1);
+    if (event.kind === "text" && last?.kind === "text") {
+      merged[merged.length - 1] = { ...last, text: last.text + event.text };
+    } else {
+      merged.push(event);
+    }
+  }
+  return merged;
+}
+
+/** What a running provider has done so far, newest at the bottom. */
+export function LiveProgress({ events }: { events: LiveEvent[] }) {
+  const listRef = useRef<HTMLOListElement>(null);
+
+  useEffect(() => {
+    const list = listRef.current;
+    if (list) list.scrollTop = list.scrollHeight;
+  }, [events.length]);
+
+  return (
+    <ol
+      ref={listRef}
+      className="mt-3 max-h-72 space-y-2 overflow-auto text-xs"
+      data-testid="live-progress"
+    >
+      {mergeText(events).map((event) => (
+        <li key={event.id} className="flex gap-2">
+          <span className="w-16 shrink-0 text-[0.6rem] uppercase tracking-[0.2em] text-[var(--ink-muted)]">
+            {event.kind}
+          </span>
+          <div className="min-w-0 flex-1">
+            {event.kind === "command" ? (
+              <code className="break-all text-[var(--ink)]">
+                $ {event.text}
+              </code>
+            ) : (
+              <p
+                className={`whitespace-pre-wrap break-words ${
+                  event.kind === "status"
+                    ? "italic text-[var(--ink-muted)]"
+                    : "text-[var(--ink)]"
+                }`}
+              >
+                {event.text.trim()}
+              </p>
+            )}
+            {event.detail && (
+              <p className="truncate text-[0.65rem] text-[var(--ink-muted)]">
+                {event.detail}
+              </p>
+            )}
+          </div>
+        </li>
+      ))}
+    </ol>
+  );
+}
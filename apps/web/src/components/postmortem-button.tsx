@@ -0,0 +1,108 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { API_URL } from "@/lib/api";
+
+/** Collects the operator's notes and publishes a Confluence draft postmortem. */
+export function PostmortemButton({
+  runId,
+  postmortemUrl,
+}: {
+  runId: string;
+  postmortemUrl?: string;
+}) {
+  const [isPending, startTransition] = useTransition();
+  const [open, setOpen] = useState(false);
+  const [notes, setNotes] = useState("");
+  const [url, setUrl] = useState(postmortemUrl);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const handlePublish = () => {
+    setMessage(null);
+    startTransition(async () => {
+      try {
+        const res = await fetch(`${API_URL}/triage/postmortem/${runId}`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ notes: notes.trim() || undefined }),
+        });
+        const data = await res.json();
+        if (!res.ok || data.error) {
+          setMessage(data.error ?? "Failed to draft postmortem.");
+          return;
+        }
+        setUrl(data.url);
+        setOpen(false);
+      } catch {
+        setMessage("Failed to draft postmortem.");
+      }
+    });
+  };
+
+  if (url) {
+    return (
+      <a
+        className="inline-flex items-center rounded-full border border-[var(--accent-2)] px-3 py-1 text-[0.65rem] uppercase tracking-[0.2em] text-[var(--accent-2)] transition hover:bg-[var(--accent-2)] hover:text-white"
+        href={url}
+        target="_blank"
+        rel="noreferrer"
+        data-testid={`postmortem-${runId}`}
+      >
+        Postmortem
+      </a>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-2">
+      {!open && (
+        <button
+          className="rounded-full border border-[var(--border)] px-3 py-2 text-xs uppercase tracking-[0.2em] text-[var(--ink)] transition hover:border-[var(--accent-2)] hover:text-[var(--accent-2)]"
+          onClick={() => setOpen(true)}
+          data-testid={`draft-postmortem-${runId}`}
+          title="Draft a Confluence postmortem for this incident."
+        >
+          Draft postmortem
+        </button>
+      )}
+      {open && (
+        <div className="panel grid w-80 gap-2 rounded-xl p-3 text-[0.7rem]">
+          <label
+            className="text-[0.65rem] uppercase tracking-[0.2em] text-[var(--ink-muted)]"
+            htmlFor={`postmortem-notes-${runId}`}
+          >
+            Operator notes
+          </label>
+          <textarea
+            id={`postmortem-notes-${runId}`}
+            className="min-h-24 rounded-lg border border-[var(--border)] bg-transparent p-2 text-xs text-[var(--ink)]"
+            value={notes}
+            onChange={(event) => setNotes(event.target.value)}
+            placeholder="Impact, decisions taken, follow-ups…"
+            data-testid={`postmortem-notes-${runId}`}
+          />
+          <div className="flex gap-2">
+            <button
+              className="rounded-full border border-[var(--accent-2)] px-3 py-1 text-[0.65rem] uppercase tracking-[0.2em] text-[var(--accent-2)] transition hover:bg-[var(--accent-2)] hover:text-white disabled:opacity-50"
+              onClick={handlePublish}
+              disabled={isPending}
+              data-testid={`publish-postmortem-${runId}`}
+            >
+              {isPending ? "Publishing" : "Publish draft"}
+            </button>
+            <button
+              className="rounded-full border border-[var(--border)] px-3 py-1 text-[0.65rem] uppercase tracking-[0.2em] text-[var(--ink-muted)] transition hover:text-[var(--ink)]"
+              onClick={() => setOpen(false)}
+              disabled={isPending}
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+      {message && (
+        <span className="text-[0.65rem] text-[var(--accent)]">{message}</span>
+      )}
+    </div>
+  );
+}
@@ -1,10 +1,40 @@
 "use client";
 
+import type { ReportEvidence } from "@/triage/types";
+
+type Section = { heading: string; content: string[] };
+
+/** Builds the summary from the structured report when the run has one. */
+function evidenceSections(evidence: ReportEvidence): Section[] {
+  const sections: Section[] = [];
+  if (evidence.summary) {
+    sections.push({ heading: "Alert Summary", content: [evidence.summary] });
+  }
+  const lists: [string, string[]][] = [
+    ["Likely Cause(s)", evidence.likelyCauses],
+    ["Immediate Actions", evidence.immediateActions],
+    ["Next Checks", evidence.nextChecks],
+  ];
+  for (const [heading, items] of lists) {
+    if (items.length > 0) {
+      sections.push({ heading, content: items.map((item) => `- ${item}`) });
+    }
+  }
+  return sections;
+}
+
 /**
  * Renders a triage report markdown as a readable summary.
- * Extracts key sections and renders them without needing a full markdown library.
+ * Uses the parsed report when available and otherwise extracts key sections
+ * without needing a full markdown library.
  */
-export function ReportSummary({ markdown }: { markdown: string }) {
+export function ReportSummary({
+  markdown,
+  evidence,
+}: {
+  markdown: string;
+  evidence?: ReportEvidence | null;
+}) {
   // If the content looks like raw JSON (OpenCode format), it wasn't parsed properly
   const isRawJson =
     markdown.trim().startsWith("{") || markdown.trim().startsWith("[");
@@ -23,9 +53,9 @@ export function ReportSummary({ markdown }: { markdown: string }) {
   }
 
   // Extract first meaningful paragraph as summary (skip headings, blank lines)
-  const lines = markdown.split("\n");
-  const sections: Array<{ heading: string; content: string[] }> = [];
-  let currentSection: { heading: string; content: string[] } = {
+  const lines = evidence ? [] : markdown.split("\n");
+  const sections: Section[] = evidence ? evidenceSections(evidence) : [];
+  let currentSection: Section = {
     heading: "",
     content: [],
   };
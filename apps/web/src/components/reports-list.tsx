@@ -2,27 +2,55 @@
 
 import { useEffect, useState } from "react";
 import { OpenCodexButton } from "@/components/open-codex-button";
+import { CancelRunButton } from "@/components/cancel-run-button";
+import { RerunButton } from "@/components/rerun-button";
+import { BranchSuggestionButton } from "@/components/branch-suggestion-button";
+import { JiraTicketButton } from "@/components/jira-ticket-button";
+import { DraftPrButton } from "@/components/draft-pr-button";
+import { PostmortemButton } from "@/components/postmortem-button";
 import { TriggerRunButton } from "@/components/trigger-run-button";
 import { OpenFileButton } from "@/components/open-file-button";
 import { CopyButton } from "@/components/copy-button";
 import { ClearDataButton } from "@/components/clear-data-button";
 import { DownloadFilesButton } from "@/components/download-files-button";
 import { ReportSummary } from "@/components/report-summary";
-import { fetchReports, API_URL } from "@/lib/api";
+import { FollowUpForm } from "@/components/follow-up-form";
+import { LiveProgress, type LiveEvent } from "@/components/live-progress";
+import { fetchReports, API_URL, teamQuery } from "@/lib/api";
+import type {
+  EvidenceStep,
+  FixSuggestion,
+  ProviderAttempt,
+  ReportEvidence,
+  SimilarIncident,
+} from "@/triage/types";
 
 type Report = {
   id: string;
+  alertId?: string | null;
+  parentRunId?: string | null;
+  followUpQuestion?: string | null;
   createdAt: string;
-  status?: "running" | "complete" | "failed";
+  status?: "queued" | "running" | "complete" | "failed" | "cancelled";
   error?: string | null;
   finishedAt?: string | null;
+  supersededAt?: string | null;
   reportMarkdown?: string;
   sessionUrl?: string;
   sessionId?: string;
   provider?: string;
+  evidence?: ReportEvidence | null;
   evidenceTimeline?: EvidenceStep[];
   fixSuggestions?: FixSuggestion[];
   similarIncidents?: SimilarIncident[];
+  providerAttempts?: ProviderAttempt[] | null;
+  model?: string | null;
+  inputTokens?: number | null;
+  outputTokens?: number | null;
+  costUsd?: number | null;
+  jiraIssueKey?: string | null;
+  pullRequestUrl?: string | null;
+  postmortemUrl?: string | null;
   alert?: {
     monitorName?: string;
     monitorState?: string;
@@ -32,35 +60,44 @@ type Report = {
     environment?: string;
     repoPath?: string;
     overallStateModified?: string;
+    resolvedAt?: string | null;
+    timeToRecoverSec?: number | null;
   };
+  incident?: {
+    id: string;
+    title: string;
+    resolvedAt?: string | null;
+    alerts: {
+      id: string;
+      monitorName: string;
+      monitorState: string;
+      service?: string | null;
+      resolvedAt?: string | null;
+    }[];
+  } | null;
 };
 
-type EvidenceStep = {
-  id: string;
-  title: string;
-  status: "ok" | "error" | "skipped";
-  startedAt: string;
-  finishedAt?: string;
-  summary?: string;
-  artifacts?: string[];
-};
-
-type FixSuggestion = {
-  title: string;
-  summary: string;
-  confidence: number;
-  diff?: string;
-  files?: { path: string; line?: number; text?: string }[];
-};
+// Older entries scroll out of the live log.
+const MAX_LIVE_EVENTS = 300;
+
+function groupProgress(
+  current: Record<string, LiveEvent[]>,
+  events: LiveEvent[],
+) {
+  const next = { ...current };
+  for (const event of events) {
+    next[event.runId] = [...(next[event.runId] ?? []), event].slice(
+      -MAX_LIVE_EVENTS,
+    );
+  }
+  return next;
+}
 
-type SimilarIncident = {
-  id: string;
-  createdAt: string;
-  summary: string;
-  confidence: number;
-  service?: string;
-  monitorName?: string;
-};
+function formatTokens(value: number) {
+  return value >= 1000
+    ? `${(value / 1000).toFixed(1)}k tokens`
+    : `${value} tokens`;
+}
 
 function formatDate(value: string) {
   return new Date(value).toLocaleString();
@@ -77,6 +114,15 @@ function timeAgo(value: string) {
   return `${days}d ago`;
 }
 
+function formatDuration(seconds: number) {
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ${minutes % 60}m`;
+  return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+}
+
 function monitorStatePill(state?: string) {
   if (!state)
     return "border-dashed border-[var(--border)] text-[var(--ink-muted)]";
@@ -121,18 +167,24 @@ function priorityPill(priority?: number | null) {
 }
 
 function runStatusPriority(status?: string) {
-  if (status === "running") return 2;
+  if (status === "running" || status === "queued") return 2;
   if (status === "failed") return 1;
   return 0;
 }
 
 function runStatusPill(status?: string) {
-  if (status === "running")
+  if (status === "running" || status === "queued")
     return "border-[var(--accent-2)] text-[var(--accent-2)]";
   if (status === "failed") return "border-[var(--accent)] text-[var(--accent)]";
   return "border-[var(--border)] text-[var(--ink-muted)]";
 }
 
+function evidenceStatusPill(status: string) {
+  if (status === "ok") return "border-[var(--accent-3)] text-[var(--accent-3)]";
+  if (status === "error") return "border-[var(--accent)] text-[var(--accent)]";
+  return "border-dashed border-[var(--border)] text-[var(--ink-muted)]";
+}
+
 function excerpt(text?: string, max = 200) {
   if (!text) return null;
   const cleaned = text.replace(/\s+/g, " ").trim();
@@ -140,6 +192,32 @@ function excerpt(text?: string, max = 200) {
   return `${cleaned.slice(0, max)}…`;
 }
 
+/** Short answer for an earlier turn in a run thread. */
+function turnAnswer(report: Report) {
+  if (report.status === "failed" || report.status === "cancelled") {
+    return report.error ?? `Run ${report.status}`;
+  }
+  if (report.status !== "complete") return "Waiting for the provider…";
+  return (
+    report.evidence?.likelyCauses[0] ??
+    report.evidence?.summary ??
+    excerpt(report.reportMarkdown, 240) ??
+    "No report"
+  );
+}
+
+/** Runs are threaded per incident, or per alert for ungrouped runs. */
+function threadKey(report: Report) {
+  return report.incident?.id ?? report.alertId ?? null;
+}
+
+/** An incident resolves once all its alerts have; otherwise the alert's own. */
+function resolvedAtOf(report: Report) {
+  return report.incident
+    ? report.incident.resolvedAt
+    : report.alert?.resolvedAt;
+}
+
 function extractSlackMessage(text?: string) {
   if (!text) return null;
   const lines = text.split("\n");
@@ -161,10 +239,13 @@ function extractSlackMessage(text?: string) {
 
 export function ReportsList({
   onRunningChange,
+  teamId,
 }: {
   onRunningChange: (isRunning: boolean, count: number) => void;
+  teamId?: string;
 }) {
   const [reports, setReports] = useState<Report[]>([]);
+  const [progress, setProgress] = useState<Record<string, LiveEvent[]>>({});
   const [connected, setConnected] = useState(false);
 
   useEffect(() => {
@@ -174,7 +255,7 @@ export function ReportsList({
 
     async function loadReports() {
       try {
-        const data = await fetchReports();
+        const data = await fetchReports(teamId);
         setReports(data as Report[]);
       } catch (error) {
         console.error("[ReportsList] Failed to load reports:", error);
@@ -184,7 +265,7 @@ export function ReportsList({
     function connect() {
       if (!isMounted) return;
 
-      const eventSourceUrl = `${API_URL}/events/stream`;
+      const eventSourceUrl = `${API_URL}/events/stream${teamQuery(teamId)}`;
       console.log("[ReportsList] Connecting to SSE:", eventSourceUrl);
       eventSource = new EventSource(eventSourceUrl);
 
@@ -207,6 +288,20 @@ export function ReportsList({
               (r: { status?: string }) => r.status === "running",
             );
             onRunningChange(runningReports.length > 0, runningReports.length);
+            const runningIds = new Set(
+              runningReports.map((r: { id: string }) => r.id),
+            );
+            setProgress((current) =>
+              Object.fromEntries(
+                Object.entries(
+                  data.type === "initial"
+                    ? groupProgress({}, data.progress ?? [])
+                    : current,
+                ).filter(([runId]) => runningIds.has(runId)),
+              ),
+            );
+          } else if (data.type === "progress") {
+            setProgress((current) => groupProgress(current, data.progress));
           }
         } catch (error) {
           console.error("[ReportsList] Failed to parse SSE event:", error);
@@ -235,12 +330,50 @@ export function ReportsList({
       if (reconnectTimeout) clearTimeout(reconnectTimeout);
       eventSource?.close();
     };
-  }, [onRunningChange]);
+  }, [onRunningChange, teamId]);
+
+  // Notification deep links point at `#run-<id>`; the card only exists once
+  // reports have loaded, so the browser's own anchor jump misses it.
+  const hasReports = reports.length > 0;
+  useEffect(() => {
+    if (!hasReports || !window.location.hash.startsWith("#run-")) return;
+    document
+      .getElementById(window.location.hash.slice(1))
+      ?.scrollIntoView({ block: "start" });
+  }, [hasReports]);
+
+  // Runs on the same incident (follow-ups, re-runs) form one conversation;
+  // the newest run gets the card and earlier ones are listed as turns.
+  const threads = new Map<string, Report[]>();
+  for (const report of reports) {
+    const key = threadKey(report);
+    if (!key) continue;
+    const thread = threads.get(key) ?? [];
+    thread.push(report);
+    threads.set(key, thread);
+  }
+  for (const thread of threads.values()) {
+    thread.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+  const latestReports = reports.filter((report) => {
+    const key = threadKey(report);
+    return !key || threads.get(key)?.at(-1)?.id === report.id;
+  });
+
+  const activeCount = latestReports.filter(
+    (report) => report.alert && !resolvedAtOf(report),
+  ).length;
+  const resolvedCount = latestReports.filter((report) =>
+    resolvedAtOf(report),
+  ).length;
 
-  const sortedReports = reports.slice().sort((a, b) => {
+  const sortedReports = latestReports.slice().sort((a, b) => {
     const statusDiff =
       runStatusPriority(b.status) - runStatusPriority(a.status);
     if (statusDiff !== 0) return statusDiff;
+    const resolvedDiff =
+      Number(Boolean(resolvedAtOf(a))) - Number(Boolean(resolvedAtOf(b)));
+    if (resolvedDiff !== 0) return resolvedDiff;
     const priorityDiff =
       priorityRank(a.alert?.priority) - priorityRank(b.alert?.priority);
     if (priorityDiff !== 0) return priorityDiff;
@@ -274,11 +407,17 @@ export function ReportsList({
               Latest Reports
             </h2>
             <p className="text-sm text-[var(--ink-muted)]">
-              Most recent completed triage runs.
+              One card per incident; correlated alerts share a triage run.
             </p>
           </div>
           <div className="flex flex-wrap items-center gap-3">
-            <TriggerRunButton />
+            <span className="chip border-[var(--accent)] text-[var(--accent)]">
+              Active {activeCount}
+            </span>
+            <span className="chip border-[var(--border)] text-[var(--ink-muted)]">
+              Resolved {resolvedCount}
+            </span>
+            <TriggerRunButton teamId={teamId} />
             <ClearDataButton />
           </div>
         </div>
@@ -296,11 +435,21 @@ export function ReportsList({
                 : null;
             const isComplete = report.status === "complete";
             const isRunning = report.status === "running";
+            const isQueued = report.status === "queued";
             const isFailed = report.status === "failed";
+            const isCancelled = report.status === "cancelled";
+            const resolvedAt = resolvedAtOf(report);
+            const key = threadKey(report);
+            const earlierTurns = key
+              ? (threads.get(key) ?? []).slice(0, -1)
+              : [];
+            const memberAlerts = report.incident?.alerts ?? [];
+            const isGrouped = memberAlerts.length > 1;
             return (
               <div
                 key={report.id}
-                className={`rounded-2xl p-5 panel ${cardAccent(report.alert?.monitorState)}`}
+                id={`run-${report.id}`}
+                className={`rounded-2xl p-5 panel ${resolvedAt ? "border-[var(--border)] opacity-80" : cardAccent(report.alert?.monitorState)}`}
               >
                 <div className="flex flex-wrap items-center justify-between gap-3">
                   <div>
@@ -315,8 +464,15 @@ export function ReportsList({
                     </p>
                     <div className="flex flex-wrap items-center gap-2">
                       <h3 className="text-lg font-semibold text-[var(--ink)]">
-                        {report.alert?.monitorName ?? "Unknown monitor"}
+                        {isGrouped
+                          ? report.incident?.title
+                          : (report.alert?.monitorName ?? "Unknown monitor")}
                       </h3>
+                      {isGrouped && (
+                        <span className="chip border-[var(--accent-2)] text-[var(--accent-2)]">
+                          {memberAlerts.length} alerts
+                        </span>
+                      )}
                       <span
                         className={`chip ${monitorStatePill(report.alert?.monitorState)}`}
                       >
@@ -329,6 +485,22 @@ export function ReportsList({
                           P{report.alert.priority}
                         </span>
                       ) : null}
+                      {report.alert &&
+                        (resolvedAt ? (
+                          <span
+                            className="chip border-[var(--accent-3)] text-[var(--accent-3)]"
+                            title={`Recovered ${formatDate(resolvedAt)}`}
+                          >
+                            Resolved
+                            {!isGrouped &&
+                              report.alert.timeToRecoverSec != null &&
+                              ` · TTR ${formatDuration(report.alert.timeToRecoverSec)}`}
+                          </span>
+                        ) : (
+                          <span className="chip border-[var(--accent)] text-[var(--accent)]">
+                            Active
+                          </span>
+                        ))}
                       {report.status && report.status !== "complete" && (
                         <span
                           className={`chip ${runStatusPill(report.status)}`}
@@ -341,12 +513,69 @@ export function ReportsList({
                       {report.alert?.service ?? "unknown-service"} ·{" "}
                       {report.alert?.environment ?? "unknown-env"}
                     </p>
+                    {isGrouped && (
+                      <ul className="mt-2 grid gap-1 text-xs text-[var(--ink-muted)]">
+                        {memberAlerts.map((member) => (
+                          <li
+                            key={member.id}
+                            className="flex flex-wrap items-center gap-2"
+                          >
+                            <span
+                              className={`chip ${member.resolvedAt ? "border-[var(--border)] text-[var(--ink-muted)]" : monitorStatePill(member.monitorState)}`}
+                            >
+                              {member.resolvedAt ? "ok" : member.monitorState}
+                            </span>
+                            <span className="text-[var(--ink)]">
+                              {member.monitorName}
+                            </span>
+                            <span>· {member.service ?? "unknown-service"}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
                     <div className="mt-2 flex flex-wrap gap-2">
                       {report.provider && (
                         <span className="chip border-[var(--border)] text-[var(--ink-muted)]">
                           Provider {report.provider}
                         </span>
                       )}
+                      {report.providerAttempts?.some(
+                        (attempt) => attempt.outcome === "failover",
+                      ) && (
+                        <span
+                          className="chip border-[var(--accent)] text-[var(--accent)]"
+                          title={report.providerAttempts
+                            .filter((attempt) => attempt.error)
+                            .map(
+                              (attempt) =>
+                                `${attempt.provider}: ${attempt.error}`,
+                            )
+                            .join("\n")}
+                          data-testid={`provider-attempts-${report.id}`}
+                        >
+                          Failover{" "}
+                          {report.providerAttempts
+                            .map((attempt) =>
+                              attempt.reason
+                                ? `${attempt.provider} (${attempt.reason})`
+                                : attempt.provider,
+                            )
+                            .join(" → ")}
+                        </span>
+                      )}
+                      {report.inputTokens != null && (
+                        <span
+                          className="chip border-[var(--border)] text-[var(--ink-muted)]"
+                          title={report.model ?? undefined}
+                          data-testid={`usage-${report.id}`}
+                        >
+                          {formatTokens(
+                            report.inputTokens + (report.outputTokens ?? 0),
+                          )}
+                          {report.costUsd != null &&
+                            ` · $${report.costUsd.toFixed(2)}`}
+                        </span>
+                      )}
                       {report.fixSuggestions &&
                         report.fixSuggestions.length > 0 && (
                           <span className="chip border-[var(--accent-2)] text-[var(--accent-2)]">
@@ -391,16 +620,112 @@ export function ReportsList({
                     {isComplete &&
                       report.provider === "codex" &&
                       report.sessionId && <OpenCodexButton runId={report.id} />}
+                    {(isRunning || isQueued) && (
+                      <CancelRunButton runId={report.id} />
+                    )}
+                    {(isComplete || isFailed || isCancelled) &&
+                      report.alertId && <RerunButton runId={report.id} />}
+                    {isComplete && report.alertId && (
+                      <BranchSuggestionButton runId={report.id} />
+                    )}
+                    {(isComplete || report.jiraIssueKey) && (
+                      <JiraTicketButton
+                        runId={report.id}
+                        issueKey={report.jiraIssueKey ?? undefined}
+                      />
+                    )}
+                    {((isComplete &&
+                      report.fixSuggestions?.some((fix) => fix.diff)) ||
+                      report.pullRequestUrl) && (
+                      <DraftPrButton
+                        runId={report.id}
+                        pullRequestUrl={report.pullRequestUrl ?? undefined}
+                      />
+                    )}
+                    {(isComplete || report.postmortemUrl) && (
+                      <PostmortemButton
+                        runId={report.id}
+                        postmortemUrl={report.postmortemUrl ?? undefined}
+                      />
+                    )}
                   </div>
                 </div>
+                {earlierTurns.length > 0 && (
+                  <details className="mt-4 rounded-2xl panel-muted p-4">
+                    <summary className="cursor-pointer text-xs font-semibold uppercase tracking-[0.2em] text-[var(--ink-muted)]">
+                      Conversation · {earlierTurns.length + 1} runs
+                    </summary>
+                    <ol className="mt-3 grid gap-3">
+                      {earlierTurns.map((turn) => (
+                        <li key={turn.id} className="grid gap-2 text-xs">
+                          {turn.followUpQuestion && (
+                            <p className="ml-auto max-w-[85%] rounded-xl border border-[var(--accent-2)] px-3 py-2 text-[var(--ink)]">
+                              {turn.followUpQuestion}
+                            </p>
+                          )}
+                          <div className="max-w-[85%] rounded-xl border border-[var(--border)] px-3 py-2">
+                            <p className="text-[0.65rem] text-[var(--ink-muted)]">
+                              {formatDate(turn.createdAt)} ·{" "}
+                              {turn.parentRunId
+                                ? turn.followUpQuestion
+                                  ? "Follow-up"
+                                  : "Continued"
+                                : "Triage"}{" "}
+                              · {turn.status ?? "unknown"}
+                            </p>
+                            <p className="mt-1 text-[var(--ink)]">
+                              {turnAnswer(turn)}
+                            </p>
+                          </div>
+                        </li>
+                      ))}
+                    </ol>
+                  </details>
+                )}
+                {report.followUpQuestion && (
+                  <div className="mt-4 ml-auto max-w-[85%] rounded-xl border border-[var(--accent-2)] p-3">
+                    <p className="text-[0.7rem] uppercase tracking-[0.2em] text-[var(--ink-muted)]">
+                      Follow-up question
+                    </p>
+                    <p className="mt-1 text-sm text-[var(--ink)]">
+                      {report.followUpQuestion}
+                    </p>
+                  </div>
+                )}
                 {isRunning && (
                   <div className="mt-4 rounded-xl panel-muted p-4">
                     <p className="text-[0.7rem] uppercase tracking-[0.2em] text-[var(--ink-muted)]">
                       Triage in progress
                     </p>
+                    {progress[report.id]?.length ? (
+                      <LiveProgress events={progress[report.id]} />
+                    ) : (
+                      <p className="mt-2 text-sm text-[var(--ink)]">
+                        Evidence collection and provider analysis are running.
+                        This card will update automatically once complete.
+                      </p>
+                    )}
+                  </div>
+                )}
+                {report.supersededAt && (isRunning || isQueued) && (
+                  <div className="mt-4 rounded-xl panel-muted p-4">
+                    <p className="text-[0.7rem] uppercase tracking-[0.2em] text-[var(--ink-muted)]">
+                      Superseded by recovery
+                    </p>
                     <p className="mt-2 text-sm text-[var(--ink)]">
-                      Evidence collection and provider analysis are running.
-                      This card will update automatically once complete.
+                      The monitor recovered while this run was in flight. Cancel
+                      it if the report is no longer needed.
+                    </p>
+                  </div>
+                )}
+                {isQueued && (
+                  <div className="mt-4 rounded-xl panel-muted p-4">
+                    <p className="text-[0.7rem] uppercase tracking-[0.2em] text-[var(--ink-muted)]">
+                      Queued
+                    </p>
+                    <p className="mt-2 text-sm text-[var(--ink)]">
+                      {report.error ??
+                        "Waiting for a free triage worker. Higher priority alerts are picked up first."}
                     </p>
                   </div>
                 )}
@@ -414,6 +739,16 @@ export function ReportsList({
                     </p>
                   </div>
                 )}
+                {isCancelled && (
+                  <div className="mt-4 rounded-xl panel-muted p-4">
+                    <p className="text-[0.7rem] uppercase tracking-[0.2em] text-[var(--ink-muted)]">
+                      Triage cancelled
+                    </p>
+                    <p className="mt-2 text-sm text-[var(--ink)]">
+                      {report.error ?? "Cancelled by user"}
+                    </p>
+                  </div>
+                )}
                 {isComplete && report.reportMarkdown && (
                   <div className="mt-4 rounded-xl panel-muted p-4 overflow-hidden">
                     <p className="text-[0.7rem] uppercase tracking-[0.2em] text-[var(--ink-muted)]">
@@ -425,7 +760,10 @@ export function ReportsList({
                       </pre>
                     ) : (
                       <div className="mt-2 prose prose-sm text-sm text-[var(--ink)] max-w-none">
-                        <ReportSummary markdown={report.reportMarkdown} />
+                        <ReportSummary
+                          markdown={report.reportMarkdown}
+                          evidence={report.evidence}
+                        />
                       </div>
                     )}
                     <details className="mt-3 text-xs text-[var(--ink-muted)]">
@@ -439,6 +777,71 @@ export function ReportsList({
                   </div>
                 )}
 
+                {isComplete &&
+                  ((report.evidence?.sections.length ?? 0) > 0 ||
+                    (report.evidenceTimeline?.length ?? 0) > 0) && (
+                    <details className="mt-4 rounded-2xl panel-muted p-4">
+                      <summary className="cursor-pointer text-xs font-semibold uppercase tracking-[0.2em] text-[var(--ink-muted)]">
+                        Evidence · {report.evidence?.sections.length ?? 0}{" "}
+                        sources
+                      </summary>
+                      {report.evidenceTimeline &&
+                        report.evidenceTimeline.length > 0 && (
+                          <ol className="mt-3 grid gap-2 border-l border-[var(--border)] pl-4">
+                            {report.evidenceTimeline.map((step) => (
+                              <li key={step.id} className="text-xs">
+                                <span className="text-[var(--ink-muted)]">
+                                  {formatDate(step.startedAt)}
+                                </span>{" "}
+                                <span className="font-semibold text-[var(--ink)]">
+                                  {step.title}
+                                </span>
+                              </li>
+                            ))}
+                          </ol>
+                        )}
+                      <div className="mt-3 grid gap-3">
+                        {report.evidence?.sections.map((section) => (
+                          <div
+                            key={section.source}
+                            className="rounded-xl border border-[var(--border)] p-3"
+                          >
+                            <div className="flex items-center justify-between">
+                              <p className="text-sm font-semibold text-[var(--ink)]">
+                                {section.source}
+                              </p>
+                              <span
+                                className={`chip ${evidenceStatusPill(section.status)}`}
+                              >
+                                {section.status}
+                              </span>
+                            </div>
+                            {section.items.map((item, idx) => (
+                              <p
+                                key={idx}
+                                className="mt-1 text-xs text-[var(--ink-muted)]"
+                              >
+                                {item}
+                              </p>
+                            ))}
+                            {section.artifacts.length > 0 && (
+                              <div className="mt-2 flex flex-wrap gap-2">
+                                {section.artifacts.map((artifact) => (
+                                  <code
+                                    key={artifact}
+                                    className="rounded bg-[var(--surface)] px-1 py-0.5 text-[0.65rem] font-mono text-[var(--ink)]"
+                                  >
+                                    {artifact}
+                                  </code>
+                                ))}
+                              </div>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    </details>
+                  )}
+
                 {report.fixSuggestions && report.fixSuggestions.length > 0 && (
                   <details className="mt-4 rounded-2xl panel-muted p-4">
                     <summary className="cursor-pointer text-xs font-semibold uppercase tracking-[0.2em] text-[var(--ink-muted)]">
@@ -527,6 +930,10 @@ export function ReportsList({
                       </div>
                     </details>
                   )}
+
+                {isComplete && report.alertId && (
+                  <FollowUpForm runId={report.id} />
+                )}
               </div>
             );
           })}
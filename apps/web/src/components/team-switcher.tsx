@@ -0,0 +1,64 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { fetchTeams } from "@/lib/api";
+
+type Team = { id: string; slug: string; name: string };
+
+const STORAGE_KEY = "triage-team";
+
+/** Hidden until at least one team exists; "" means every team. */
+export function TeamSwitcher({
+  value,
+  onChange,
+}: {
+  value: string;
+  onChange: (teamId: string) => void;
+}) {
+  const [teams, setTeams] = useState<Team[]>([]);
+
+  useEffect(() => {
+    fetchTeams().then((data: Team[]) => {
+      setTeams(data);
+      try {
+        const stored = window.localStorage.getItem(STORAGE_KEY);
+        if (stored && data.some((team) => team.id === stored)) {
+          onChange(stored);
+        }
+      } catch {
+        // Ignore storage errors.
+      }
+    });
+  }, [onChange]);
+
+  if (teams.length === 0) return null;
+
+  const select = (teamId: string) => {
+    onChange(teamId);
+    try {
+      window.localStorage.setItem(STORAGE_KEY, teamId);
+    } catch {
+      // Ignore storage errors.
+    }
+  };
+
+  return (
+    <label className="flex flex-col gap-1" data-testid="team-switcher">
+      <span className="text-xs uppercase tracking-[0.2em] text-[var(--ink-muted)]">
+        Team
+      </span>
+      <select
+        className="rounded-full border border-[var(--border)] bg-transparent px-3 py-2 text-sm text-[var(--ink)] focus:border-[var(--accent-2)] focus:outline-none"
+        value={value}
+        onChange={(event) => select(event.target.value)}
+      >
+        <option value="">All teams</option>
+        {teams.map((team) => (
+          <option key={team.id} value={team.id}>
+            {team.name}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
@@ -2,9 +2,9 @@
 
 import { useState, useTransition } from "react";
 import * as ContextMenu from "@radix-ui/react-context-menu";
-import { API_URL } from "@/lib/api";
+import { API_URL, teamQuery } from "@/lib/api";
 
-export function TriggerRunButton() {
+export function TriggerRunButton({ teamId }: { teamId?: string }) {
   const [isPending, startTransition] = useTransition();
   const [message, setMessage] = useState<string | null>(null);
 
@@ -37,9 +37,10 @@ export function TriggerRunButton() {
     setMessage(null);
     startTransition(async () => {
       try {
-        const res = await fetch(`${API_URL}/triage/reprocess-last-error`, {
-          method: "POST",
-        });
+        const res = await fetch(
+          `${API_URL}/triage/reprocess-last-error${teamQuery(teamId)}`,
+          { method: "POST" },
+        );
         const data = await res.json();
         if (!res.ok || data.error) {
           setMessage(data.error ?? "Failed to reprocess last error.");
@@ -0,0 +1,51 @@
+"use client";
+
+import { useEffect, useState, useTransition } from "react";
+import { API_URL, fetchSession } from "@/lib/api";
+
+type Session = {
+  authEnabled: boolean;
+  user: { id: string; email: string; role: string } | null;
+};
+
+export function UserMenu() {
+  const [session, setSession] = useState<Session | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  useEffect(() => {
+    fetchSession().then(setSession);
+  }, []);
+
+  if (!session?.authEnabled || !session.user) return null;
+
+  const handleSignOut = () => {
+    startTransition(async () => {
+      await fetch(`${API_URL}/auth/logout`, { method: "POST" });
+      window.location.href = "/login";
+    });
+  };
+
+  return (
+    <div
+      className="flex items-center justify-between gap-2"
+      data-testid="user-menu"
+    >
+      <div className="flex min-w-0 flex-col">
+        <span className="truncate text-xs text-[var(--ink)]">
+          {session.user.email}
+        </span>
+        <span className="chip mt-1 w-fit text-[var(--ink-muted)]">
+          {session.user.role}
+        </span>
+      </div>
+      <button
+        type="button"
+        className="rounded-full border border-[var(--border)] px-3 py-2 text-xs uppercase tracking-[0.2em] text-[var(--ink)] transition hover:border-[var(--accent-2)] hover:text-[var(--accent-2)] disabled:opacity-50"
+        onClick={handleSignOut}
+        disabled={isPending}
+      >
+        Sign out
+      </button>
+    </div>
+  );
+}
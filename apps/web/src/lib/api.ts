@@ -1,7 +1,20 @@
 export const API_URL = process.env.NEXT_PUBLIC_API_URL || "/api";
 
-export async function fetchReports() {
-  const res = await fetch(`${API_URL}/reports`, { cache: "no-store" });
+/** `?team=<id>` when a team is selected, otherwise empty. */
+export function teamQuery(teamId?: string) {
+  return teamId ? `?team=${encodeURIComponent(teamId)}` : "";
+}
+
+export async function fetchReports(teamId?: string) {
+  const res = await fetch(`${API_URL}/reports${teamQuery(teamId)}`, {
+    cache: "no-store",
+  });
+  if (!res.ok) return [];
+  return res.json();
+}
+
+export async function fetchTeams() {
+  const res = await fetch(`${API_URL}/teams`, { cache: "no-store" });
   if (!res.ok) return [];
   return res.json();
 }
@@ -58,3 +71,44 @@ export async function fixPermissions() {
   if (!res.ok) return null;
   return res.json();
 }
+
+export async function fetchSession() {
+  const res = await fetch(`${API_URL}/auth/me`, { cache: "no-store" });
+  if (!res.ok) return null;
+  return res.json();
+}
+
+export async function fetchAudit(filters: Record<string, string>) {
+  const params = new URLSearchParams(
+    Object.entries(filters).filter(([, value]) => value),
+  );
+  const res = await fetch(`${API_URL}/audit?${params}`, { cache: "no-store" });
+  if (!res.ok) return null;
+  return res.json();
+}
+
+export async function fetchUsage(filters: Record<string, string>) {
+  const params = new URLSearchParams(
+    Object.entries(filters).filter(([, value]) => value),
+  );
+  const res = await fetch(`${API_URL}/usage?${params}`, { cache: "no-store" });
+  if (!res.ok) return null;
+  return res.json();
+}
+
+export async function fetchWebhooks() {
+  const res = await fetch(`${API_URL}/webhooks`, { cache: "no-store" });
+  if (!res.ok) return null;
+  return res.json();
+}
+
+export async function fetchWebhookDeliveries(filters: Record<string, string>) {
+  const params = new URLSearchParams(
+    Object.entries(filters).filter(([, value]) => value),
+  );
+  const res = await fetch(`${API_URL}/webhooks/deliveries?${params}`, {
+    cache: "no-store",
+  });
+  if (!res.ok) return null;
+  return res.json();
+}
@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AuthService } from "@/services/auth.service";
+import { prisma } from "@/services/prisma.service";
+import { authEnabled, hasRole, Role, SESSION_COOKIE } from "@/utils/session";
+
+/** Reachable without a session; the webhook checks its own signature. */
+const PUBLIC_PATHS = [
+  "/login",
+  "/api/auth/login",
+  "/api/auth/logout",
+  "/api/auth/me",
+  "/api/auth/oidc",
+  "/api/health",
+  "/api/alerts/webhook",
+];
+
+/**
+ * Routes that expose secrets, the audit trail or outbound webhooks, rewrite
+ * config or wipe data.
+ */
+const ADMIN_PATHS = [
+  "/api/integrations/config",
+  "/api/integrations/configure",
+  "/api/integrations/permissions/fix",
+  "/api/integrations/secrets",
+  "/api/reports/clear",
+  "/api/triage/clear-running",
+  "/api/auth/users",
+  "/api/audit",
+  "/api/webhooks",
+];
+
+/**
+ * Reads that still reach out to other systems, such as the pull request
+ * preview fetching the base branch and asking GitHub for existing PRs.
+ */
+const RESPONDER_PATHS = ["/api/triage/pull-request"];
+
+const USER_HEADERS = ["x-user-id", "x-user-email", "x-user-role"];
+
+function matches(pathname: string, paths: string[]) {
+  return paths.some(
+    (path) => pathname === path || pathname.startsWith(`${path}/`),
+  );
+}
+
+function requiredRole(method: string, pathname: string): Role {
+  if (matches(pathname, ADMIN_PATHS)) return "admin";
+  if (method === "DELETE" && pathname === "/api/reports") return "admin";
+  if (pathname.startsWith("/api/teams/")) return "admin";
+  if (method === "POST" && pathname === "/api/teams") return "admin";
+  if (matches(pathname, RESPONDER_PATHS)) return "responder";
+  if (method === "GET" || method === "HEAD") return "viewer";
+  return "responder";
+}
+
+/**
+ * Gates every page and API route behind the session cookie when
+ * `AUTH_ENABLED` is set. Read-only access needs `viewer`, triage actions
+ * need `responder`, and config or data-wiping routes need `admin`. The
+ * role is read from the user record, not the cookie, and disabled users are
+ * turned away. The caller is forwarded to route handlers as `x-user-*`
+ * headers.
+ */
+export async function proxy(req: NextRequest) {
+  const headers = new Headers(req.headers);
+  for (const header of USER_HEADERS) headers.delete(header);
+  if (!authEnabled()) return NextResponse.next({ request: { headers } });
+
+  const { pathname } = req.nextUrl;
+  if (matches(pathname, PUBLIC_PATHS)) {
+    return NextResponse.next({ request: { headers } });
+  }
+
+  const isApi = pathname.startsWith("/api/");
+  const user = await new AuthService(prisma).sessionUser(
+    req.cookies.get(SESSION_COOKIE)?.value,
+  );
+  if (!user) {
+    if (isApi) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 },
+      );
+    }
+    const login = new URL("/login", req.url);
+    login.searchParams.set("next", pathname);
+    return NextResponse.redirect(login);
+  }
+
+  const required = requiredRole(req.method, pathname);
+  if (isApi && !hasRole(user.role, required)) {
+    return NextResponse.json(
+      { error: `Requires the ${required} role` },
+      { status: 403 },
+    );
+  }
+
+  headers.set("x-user-id", user.id);
+  headers.set("x-user-email", user.email);
+  headers.set("x-user-role", user.role);
+  return NextResponse.next({ request: { headers } });
+}
+
+export const config = {
+  matcher: ["/((?!_next/static|_next/image|icon.svg|favicon.ico).*)"],
+};
@@ -0,0 +1,160 @@
+import { Prisma } from "@prisma/client";
+import { PrismaService } from "./prisma.service";
+import { isMaskedSecret, SECRET_MASK } from "./secrets.service";
+
+export type AuditOutcome = "success" | "failure";
+
+export interface AuditActor {
+  id: string | null;
+  email: string;
+  role: string | null;
+}
+
+export interface AuditEntry {
+  action: string;
+  target?: string;
+  before?: Record<string, unknown> | null;
+  after?: Record<string, unknown> | null;
+  outcome: AuditOutcome;
+  error?: string;
+}
+
+export interface AuditFilter {
+  action?: string;
+  actor?: string;
+  outcome?: string;
+  target?: string;
+  since?: Date;
+  until?: Date;
+  limit?: number;
+}
+
+const SENSITIVE_KEY = /key|token|secret|password/i;
+
+/**
+ * The caller as stamped by `proxy.ts`. Without auth every request is
+ * anonymous, which is still worth recording.
+ */
+export function actorFromRequest(req: Request): AuditActor {
+  return {
+    id: req.headers.get("x-user-id"),
+    email: req.headers.get("x-user-email") ?? "anonymous",
+    role: req.headers.get("x-user-role"),
+  };
+}
+
+/** Derives outcome and `after` from a service's `{ error }`-style result. */
+export function outcomeOf(result: object) {
+  const error =
+    "error" in result && typeof result.error === "string"
+      ? result.error
+      : undefined;
+  return {
+    after: result as Record<string, unknown>,
+    outcome: (error ? "failure" : "success") as AuditOutcome,
+    error,
+  };
+}
+
+/** Hides credential-looking values entirely; already-masked ones pass through. */
+function maskValues(values: Record<string, unknown>) {
+  return Object.fromEntries(
+    Object.entries(values).map(([key, value]) => [
+      key,
+      SENSITIVE_KEY.test(key) &&
+      typeof value === "string" &&
+      value &&
+      !isMaskedSecret(value)
+        ? SECRET_MASK
+        : value,
+    ]),
+  );
+}
+
+/** Keeps only the keys whose value changed, so entries read as a diff. */
+function diff(
+  before: Record<string, unknown> | null | undefined,
+  after: Record<string, unknown> | null | undefined,
+) {
+  if (!before || !after) {
+    return {
+      before: before ? maskValues(before) : null,
+      after: after ? maskValues(after) : null,
+    };
+  }
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  const changed = [...keys].filter(
+    (key) => JSON.stringify(before[key]) !== JSON.stringify(after[key]),
+  );
+  const pick = (values: Record<string, unknown>) =>
+    Object.fromEntries(changed.map((key) => [key, values[key] ?? null]));
+  return {
+    before: maskValues(pick(before)),
+    after: maskValues(pick(after)),
+  };
+}
+
+function json(value: Record<string, unknown> | null) {
+  return value === null
+    ? Prisma.JsonNull
+    : (value as unknown as Prisma.InputJsonValue);
+}
+
+export class AuditService {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Writes one audit entry. Failures are logged, never thrown: a broken
+   * audit table must not block the operator action it describes.
+   */
+  async record(req: Request, entry: AuditEntry) {
+    const actor = actorFromRequest(req);
+    const { before, after } = diff(entry.before, entry.after);
+    try {
+      await this.prisma.auditEvent.create({
+        data: {
+          action: entry.action,
+          actorId: actor.id,
+          actorEmail: actor.email,
+          actorRole: actor.role,
+          target: entry.target,
+          before: json(before),
+          after: json(after),
+          outcome: entry.outcome,
+          error: entry.error,
+        },
+      });
+    } catch (error) {
+      console.warn(
+        `[Audit] Failed to record ${entry.action}:`,
+        error instanceof Error ? error.message : error,
+      );
+    }
+  }
+
+  async list(filter: AuditFilter = {}) {
+    return this.prisma.auditEvent.findMany({
+      where: {
+        action: filter.action || undefined,
+        actorEmail: filter.actor ? { contains: filter.actor } : undefined,
+        outcome: filter.outcome || undefined,
+        target: filter.target || undefined,
+        createdAt:
+          filter.since || filter.until
+            ? { gte: filter.since, lte: filter.until }
+            : undefined,
+      },
+      orderBy: { createdAt: "desc" },
+      take: Math.min(Math.max(filter.limit ?? 100, 1), 500),
+    });
+  }
+
+  async actions() {
+    const rows = await this.prisma.auditEvent.findMany({
+      distinct: ["action"],
+      select: { action: true },
+      orderBy: { action: "asc" },
+    });
+    return rows.map((row) => row.action);
+  }
+}
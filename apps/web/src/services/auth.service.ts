@@ -0,0 +1,241 @@
+import axios from "axios";
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { PrismaService } from "./prisma.service";
+import { envString } from "@/utils/env";
+import { isRole, Role, SessionUser, verifySessionToken } from "@/utils/session";
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: string,
+  keylen: number,
+) => Promise<Buffer>;
+
+interface OidcDiscovery {
+  authorization_endpoint: string;
+  token_endpoint: string;
+  userinfo_endpoint: string;
+}
+
+async function hashPassword(password: string) {
+  const salt = randomBytes(16).toString("hex");
+  const hash = await scryptAsync(password, salt, 64);
+  return `scrypt$${salt}$${hash.toString("hex")}`;
+}
+
+async function verifyPassword(password: string, stored: string) {
+  const [scheme, salt, hash] = stored.split("$");
+  if (scheme !== "scrypt" || !salt || !hash) return false;
+  const expected = Buffer.from(hash, "hex");
+  const actual = await scryptAsync(password, salt, expected.length);
+  return timingSafeEqual(expected, actual);
+}
+
+function toSessionUser(user: {
+  id: string;
+  email: string;
+  role: string;
+}): SessionUser {
+  return {
+    id: user.id,
+    email: user.email,
+    role: isRole(user.role) ? user.role : "viewer",
+  };
+}
+
+/**
+ * Local users with scrypt passwords, plus optional OIDC login against
+ * `OIDC_ISSUER`. Sessions are signed cookies (see `@/utils/session`); each
+ * request re-reads the user so a disable or role change applies at once.
+ */
+export class AuthService {
+  constructor(private prisma: PrismaService) {}
+
+  /** Seeds the first admin from `AUTH_ADMIN_EMAIL`/`AUTH_ADMIN_PASSWORD`. */
+  private async ensureBootstrapAdmin() {
+    const email = envString("AUTH_ADMIN_EMAIL").trim().toLowerCase();
+    const password = envString("AUTH_ADMIN_PASSWORD");
+    if (!email || !password) return;
+    const existing = await this.prisma.user.findUnique({ where: { email } });
+    if (existing) return;
+    await this.prisma.user.create({
+      data: {
+        email,
+        name: "Admin",
+        role: "admin",
+        passwordHash: await hashPassword(password),
+      },
+    });
+  }
+
+  async login(email: string, password: string) {
+    await this.ensureBootstrapAdmin();
+    const user = await this.prisma.user.findUnique({
+      where: { email: email.trim().toLowerCase() },
+    });
+    if (
+      !user?.passwordHash ||
+      user.disabled ||
+      !(await verifyPassword(password, user.passwordHash))
+    ) {
+      return { error: "Invalid email or password" };
+    }
+    await this.prisma.user.update({
+      where: { id: user.id },
+      data: { lastLoginAt: new Date() },
+    });
+    return { user: toSessionUser(user) };
+  }
+
+  /**
+   * The caller behind a session cookie, with their current role, or null
+   * when the cookie is invalid or the user was deleted or disabled since.
+   */
+  async sessionUser(token?: string | null) {
+    const session = verifySessionToken(token);
+    if (!session) return null;
+    const user = await this.prisma.user.findUnique({
+      where: { id: session.id },
+      select: { id: true, email: true, role: true, disabled: true },
+    });
+    if (!user || user.disabled) return null;
+    return toSessionUser(user);
+  }
+
+  async listUsers() {
+    return this.prisma.user.findMany({
+      orderBy: { createdAt: "asc" },
+      select: {
+        id: true,
+        email: true,
+        name: true,
+        role: true,
+        provider: true,
+        disabled: true,
+        lastLoginAt: true,
+        createdAt: true,
+      },
+    });
+  }
+
+  async createUser(input: {
+    email: string;
+    name?: string;
+    password?: string;
+    role: Role;
+  }) {
+    const email = input.email.trim().toLowerCase();
+    const existing = await this.prisma.user.findUnique({ where: { email } });
+    if (existing) return { error: "A user with that email already exists" };
+    const user = await this.prisma.user.create({
+      data: {
+        email,
+        name: input.name,
+        role: input.role,
+        passwordHash: input.password
+          ? await hashPassword(input.password)
+          : undefined,
+      },
+    });
+    return { user: toSessionUser(user) };
+  }
+
+  async updateUser(
+    id: string,
+    input: { role?: Role; password?: string; disabled?: boolean },
+  ) {
+    const user = await this.prisma.user.findUnique({ where: { id } });
+    if (!user) return { error: "User not found" };
+    const updated = await this.prisma.user.update({
+      where: { id },
+      data: {
+        role: input.role,
+        disabled: input.disabled,
+        passwordHash: input.password
+          ? await hashPassword(input.password)
+          : undefined,
+      },
+    });
+    return { user: toSessionUser(updated) };
+  }
+
+  oidcEnabled() {
+    return Boolean(envString("OIDC_ISSUER") && envString("OIDC_CLIENT_ID"));
+  }
+
+  private async discover(): Promise<OidcDiscovery> {
+    const issuer = envString("OIDC_ISSUER").replace(/\/$/, "");
+    const response = await axios.get(
+      `${issuer}/.well-known/openid-configuration`,
+      { timeout: 10_000 },
+    );
+    return response.data;
+  }
+
+  async oidcAuthorizeUrl(state: string, redirectUri: string) {
+    const discovery = await this.discover();
+    const url = new URL(discovery.authorization_endpoint);
+    url.searchParams.set("response_type", "code");
+    url.searchParams.set("client_id", envString("OIDC_CLIENT_ID"));
+    url.searchParams.set("redirect_uri", redirectUri);
+    url.searchParams.set(
+      "scope",
+      envString("OIDC_SCOPES", "openid email profile"),
+    );
+    url.searchParams.set("state", state);
+    return url.toString();
+  }
+
+  /**
+   * Exchanges the authorization code and upserts the user by email. The role
+   * comes from the `OIDC_ROLE_CLAIM` claim when it names a known role, then
+   * the user's existing role, then `OIDC_DEFAULT_ROLE`.
+   */
+  async oidcCallback(code: string, redirectUri: string) {
+    const discovery = await this.discover();
+    const token = await axios.post(
+      discovery.token_endpoint,
+      new URLSearchParams({
+        grant_type: "authorization_code",
+        code,
+        redirect_uri: redirectUri,
+        client_id: envString("OIDC_CLIENT_ID"),
+        client_secret: envString("OIDC_CLIENT_SECRET"),
+      }),
+      { timeout: 10_000 },
+    );
+    const accessToken = token.data?.access_token;
+    if (!accessToken)
+      return { error: "OIDC token response had no access_token" };
+
+    const userinfo = await axios.get(discovery.userinfo_endpoint, {
+      headers: { Authorization: `Bearer ${accessToken}` },
+      timeout: 10_000,
+    });
+    const claims = (userinfo.data ?? {}) as Record<string, unknown>;
+    const email =
+      typeof claims.email === "string" ? claims.email.toLowerCase() : "";
+    if (!email) return { error: "OIDC userinfo had no email claim" };
+
+    const claimedRole = claims[envString("OIDC_ROLE_CLAIM", "role")];
+    const defaultRole = envString("OIDC_DEFAULT_ROLE", "viewer");
+    const existing = await this.prisma.user.findUnique({ where: { email } });
+    if (existing?.disabled) return { error: "User is disabled" };
+    const role = isRole(claimedRole)
+      ? claimedRole
+      : (existing?.role ?? (isRole(defaultRole) ? defaultRole : "viewer"));
+
+    const user = await this.prisma.user.upsert({
+      where: { email },
+      create: {
+        email,
+        name: typeof claims.name === "string" ? claims.name : undefined,
+        role,
+        provider: "oidc",
+        lastLoginAt: new Date(),
+      },
+      update: { role, lastLoginAt: new Date() },
+    });
+    return { user: toSessionUser(user) };
+  }
+}
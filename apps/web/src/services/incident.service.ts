@@ -0,0 +1,213 @@
+import { existsSync, readFileSync } from "fs";
+import { PrismaService } from "./prisma.service";
+import { envBool, envNumber, envString } from "@/utils/env";
+
+interface GroupingKeys {
+  service?: string;
+  environment?: string;
+  namespace?: string;
+}
+
+type AlertForGrouping = {
+  service: string | null;
+  environment: string | null;
+  monitorTags: unknown;
+};
+
+const DEPENDENCY_PATTERN =
+  /([a-z0-9][\w.-]*)\s*(?:->|→|depends on|calls|uses|reads from|writes to)\s*([a-z0-9][\w.-]*(?:\s*(?:,|and)\s*[a-z0-9][\w.-]*)*)/gi;
+
+/**
+ * Reads service dependency hints from the skills context, e.g.
+ * `checkout -> payments, orders` or `orders depends on postgres`. Edges are
+ * undirected: either side failing can explain the other's alerts.
+ */
+export function parseServiceDependencies(text: string) {
+  const graph = new Map<string, Set<string>>();
+  const link = (a: string, b: string) => {
+    if (a === b) return;
+    graph.set(a, (graph.get(a) ?? new Set()).add(b));
+    graph.set(b, (graph.get(b) ?? new Set()).add(a));
+  };
+  for (const match of text.matchAll(DEPENDENCY_PATTERN)) {
+    const from = match[1].toLowerCase();
+    for (const to of match[2].split(/\s*(?:,|\band\b)\s*/i)) {
+      if (to) link(from, to.toLowerCase());
+    }
+  }
+  return graph;
+}
+
+function groupingKeys(alert: AlertForGrouping): GroupingKeys {
+  const tags = Array.isArray(alert.monitorTags)
+    ? (alert.monitorTags as string[])
+    : [];
+  const namespace = tags
+    .find((tag) => tag.startsWith("kube_namespace:"))
+    ?.split(":")[1];
+  return {
+    service: alert.service?.toLowerCase() || undefined,
+    environment: alert.environment?.toLowerCase() || undefined,
+    namespace: namespace?.toLowerCase() || undefined,
+  };
+}
+
+function related(
+  a: GroupingKeys,
+  b: GroupingKeys,
+  dependencies: Map<string, Set<string>>,
+) {
+  if (a.environment && b.environment && a.environment !== b.environment) {
+    return false;
+  }
+  if (a.service && a.service === b.service) return true;
+  if (a.namespace && a.namespace === b.namespace) return true;
+  return Boolean(
+    a.service && b.service && dependencies.get(a.service)?.has(b.service),
+  );
+}
+
+/**
+ * Correlates alerts that fire close together on related services into one
+ * incident, so a single outage gets one consolidated triage run.
+ */
+export class IncidentService {
+  constructor(private prisma: PrismaService) {}
+
+  private loadDependencies(skillsPath = envString("SKILLS_CONTEXT_PATH")) {
+    if (!skillsPath || !existsSync(skillsPath)) return new Map();
+    return parseServiceDependencies(readFileSync(skillsPath, "utf-8"));
+  }
+
+  /**
+   * Attaches an alert to an open incident it correlates with, or opens a new
+   * one. Returns whether the incident was created by this alert. Incidents
+   * never span teams; `skillsPath` is the team's dependency source.
+   */
+  async assign(
+    alert: {
+      id: string;
+      teamId: string | null;
+      monitorName: string;
+      service: string | null;
+      environment: string | null;
+      monitorTags: unknown;
+      overallStateModified: Date | null;
+      createdAt: Date;
+    },
+    skillsPath?: string,
+  ) {
+    const firedAt = alert.overallStateModified ?? alert.createdAt;
+    const windowMs = envNumber("INCIDENT_WINDOW_MS", 600_000);
+    const keys = groupingKeys(alert);
+
+    const match = envBool("INCIDENT_GROUPING", true)
+      ? await this.findMatch(keys, firedAt, windowMs, alert.teamId, skillsPath)
+      : null;
+    if (match) {
+      await this.prisma.$transaction([
+        this.prisma.alertEvent.update({
+          where: { id: alert.id },
+          data: { incidentId: match.id },
+        }),
+        this.prisma.incident.update({
+          where: { id: match.id },
+          data: {
+            firstAlertAt:
+              firedAt < match.firstAlertAt ? firedAt : match.firstAlertAt,
+            lastAlertAt:
+              firedAt > match.lastAlertAt ? firedAt : match.lastAlertAt,
+          },
+        }),
+      ]);
+      return { incidentId: match.id, created: false };
+    }
+
+    const incident = await this.prisma.incident.create({
+      data: {
+        title: alert.monitorName || "Untitled incident",
+        service: alert.service,
+        environment: alert.environment,
+        teamId: alert.teamId,
+        firstAlertAt: firedAt,
+        lastAlertAt: firedAt,
+        alerts: { connect: { id: alert.id } },
+      },
+    });
+    return { incidentId: incident.id, created: true };
+  }
+
+  private async findMatch(
+    keys: GroupingKeys,
+    firedAt: Date,
+    windowMs: number,
+    teamId: string | null,
+    skillsPath?: string,
+  ) {
+    const candidates = await this.prisma.incident.findMany({
+      where: {
+        resolvedAt: null,
+        teamId,
+        lastAlertAt: { gte: new Date(firedAt.getTime() - windowMs) },
+        firstAlertAt: { lte: new Date(firedAt.getTime() + windowMs) },
+      },
+      orderBy: { lastAlertAt: "desc" },
+      include: {
+        alerts: {
+          select: { service: true, environment: true, monitorTags: true },
+        },
+      },
+    });
+    if (candidates.length === 0) return null;
+
+    const dependencies = this.loadDependencies(skillsPath);
+    return (
+      candidates.find((incident) =>
+        incident.alerts.some((member) =>
+          related(keys, groupingKeys(member), dependencies),
+        ),
+      ) ?? null
+    );
+  }
+
+  /** Marks the incident resolved once every member alert has recovered. */
+  async resolveIfRecovered(incidentId: string) {
+    const alerts = await this.prisma.alertEvent.findMany({
+      where: { incidentId },
+      select: { resolvedAt: true },
+    });
+    if (alerts.length === 0 || alerts.some((alert) => !alert.resolvedAt)) {
+      return false;
+    }
+    const resolvedAt = new Date(
+      Math.max(...alerts.map((alert) => alert.resolvedAt!.getTime())),
+    );
+    const updated = await this.prisma.incident.updateMany({
+      where: { id: incidentId, resolvedAt: null },
+      data: { status: "resolved", resolvedAt },
+    });
+    return updated.count > 0;
+  }
+
+  async getWithAlerts(incidentId: string) {
+    return this.prisma.incident.findUnique({
+      where: { id: incidentId },
+      include: { alerts: { orderBy: { overallStateModified: "asc" } } },
+    });
+  }
+
+  async list(limit = 20, teamId?: string) {
+    return this.prisma.incident.findMany({
+      where: teamId ? { teamId } : undefined,
+      orderBy: { lastAlertAt: "desc" },
+      take: limit,
+      include: {
+        alerts: { orderBy: { overallStateModified: "asc" } },
+        triageRuns: {
+          orderBy: { createdAt: "desc" },
+          select: { id: true, status: true, createdAt: true, finishedAt: true },
+        },
+      },
+    });
+  }
+}
@@ -1,10 +1,18 @@
 import axios from "axios";
 import { promises as fs } from "fs";
 import { existsSync } from "fs";
+import os from "os";
 import path from "path";
 import { execFile, spawnSync } from "child_process";
 import { promisify } from "util";
 import { PrismaService } from "./prisma.service";
+import {
+  getSecret,
+  isMaskedSecret,
+  isSecretKey,
+  maskSecret,
+  SecretsService,
+} from "./secrets.service";
 import { envString } from "@/utils/env";
 
 export type IntegrationName =
@@ -12,8 +20,11 @@ export type IntegrationName =
   | "github"
   | "confluence"
   | "jira"
+  | "pagerduty"
+  | "opsgenie"
   | "opencode"
-  | "codex";
+  | "codex"
+  | "http";
 
 export interface IntegrationStatus {
   name: IntegrationName;
@@ -23,8 +34,34 @@ export interface IntegrationStatus {
   checkedAt?: string;
 }
 
+export interface PermissionIssue {
+  key: string;
+  message: string;
+  severity: "error" | "warn";
+}
+
+export interface PermissionCheck {
+  provider: string;
+  ok: boolean;
+  issues: PermissionIssue[];
+  fixAvailable: boolean;
+}
+
+/** Tools `opencode run` would otherwise stop and ask approval for. */
+const OPENCODE_REQUIRED_PERMISSIONS = [
+  "edit",
+  "bash",
+  "webfetch",
+  "external_directory",
+  "doom_loop",
+];
+
 export class IntegrationsService {
-  constructor(private prisma: PrismaService) {}
+  private secrets: SecretsService;
+
+  constructor(private prisma: PrismaService) {
+    this.secrets = new SecretsService(prisma);
+  }
 
   private rootDir = process.cwd();
   private execFileAsync = promisify(execFile);
@@ -40,6 +77,7 @@ export class IntegrationsService {
   private async updateEnvFile(
     filePath: string,
     updates: Record<string, string>,
+    removals: string[] = [],
   ) {
     let content = "";
     try {
@@ -49,14 +87,18 @@ export class IntegrationsService {
     }
     const lines = content.split(/\r?\n/);
     const seen = new Set<string>();
-    const updated = lines.map((line) => {
-      const match = line.match(/^([A-Z0-9_]+)=/);
-      if (!match) return line;
-      const key = match[1];
-      if (updates[key] === undefined) return line;
-      seen.add(key);
-      return `${key}=${this.formatValue(updates[key])}`;
-    });
+    const updated = lines
+      .filter(
+        (line) => !removals.includes(line.match(/^([A-Z0-9_]+)=/)?.[1] ?? ""),
+      )
+      .map((line) => {
+        const match = line.match(/^([A-Z0-9_]+)=/);
+        if (!match) return line;
+        const key = match[1];
+        if (updates[key] === undefined) return line;
+        seen.add(key);
+        return `${key}=${this.formatValue(updates[key])}`;
+      });
     for (const [key, value] of Object.entries(updates)) {
       if (!seen.has(key)) updated.push(`${key}=${this.formatValue(value)}`);
     }
@@ -64,15 +106,15 @@ export class IntegrationsService {
   }
 
   private getDatadogConfig() {
-    const apiKey = envString("DATADOG_API_KEY") ?? "";
-    const appKey = envString("DATADOG_APP_KEY") ?? "";
+    const apiKey = getSecret("DATADOG_API_KEY");
+    const appKey = getSecret("DATADOG_APP_KEY");
     const site = envString("DATADOG_SITE") ?? "datadoghq.com";
     const team = envString("ALERT_TEAM") ?? "";
     return { apiKey, appKey, site, team };
   }
 
   private getGithubConfig() {
-    const token = envString("GITHUB_TOKEN") ?? "";
+    const token = getSecret("GITHUB_TOKEN");
     return { token };
   }
 
@@ -83,8 +125,7 @@ export class IntegrationsService {
       : "";
     const user =
       envString("ATLASSIAN_USER") ?? envString("CONFLUENCE_USER") ?? "";
-    const token =
-      envString("ATLASSIAN_TOKEN") ?? envString("CONFLUENCE_TOKEN") ?? "";
+    const token = getSecret("ATLASSIAN_TOKEN") || getSecret("CONFLUENCE_TOKEN");
     return { baseUrl, user, token };
   }
 
@@ -93,11 +134,23 @@ export class IntegrationsService {
     const baseUrl = atlassianBaseUrl.replace(/\/$/, "");
     const user =
       envString("ATLASSIAN_USER") ?? envString("CONFLUENCE_USER") ?? "";
-    const token =
-      envString("ATLASSIAN_TOKEN") ?? envString("CONFLUENCE_TOKEN") ?? "";
+    const token = getSecret("ATLASSIAN_TOKEN") || getSecret("CONFLUENCE_TOKEN");
     return { baseUrl, user, token };
   }
 
+  private getPagerDutyConfig() {
+    const token = getSecret("PAGERDUTY_API_TOKEN");
+    const fromEmail = envString("PAGERDUTY_FROM_EMAIL");
+    const apiUrl = envString("PAGERDUTY_API_URL", "https://api.pagerduty.com");
+    return { token, fromEmail, apiUrl: apiUrl.replace(/\/$/, "") };
+  }
+
+  private getOpsgenieConfig() {
+    const apiKey = getSecret("OPSGENIE_API_KEY");
+    const apiUrl = envString("OPSGENIE_API_URL", "https://api.opsgenie.com");
+    return { apiKey, apiUrl: apiUrl.replace(/\/$/, "") };
+  }
+
   private async recordCheck(
     name: IntegrationName,
     ok: boolean,
@@ -176,21 +229,23 @@ export class IntegrationsService {
     return "";
   }
 
+  /** Current settings, with every credential masked. */
   async getConfig() {
+    await this.secrets.load();
     const appConfig = await this.prisma.appConfig.findUnique({
       where: { id: "default" },
     });
 
     const dbConfig = appConfig
       ? {
-          datadogApiKey: appConfig.datadogApiKey ?? "",
-          datadogAppKey: appConfig.datadogAppKey ?? "",
           datadogSite: appConfig.datadogSite ?? "datadoghq.com",
           alertTeam: appConfig.alertTeam ?? "",
-          githubToken: appConfig.githubToken ?? "",
+          alertSources: appConfig.alertSources ?? "datadog",
+          alertmanagerUrl: appConfig.alertmanagerUrl ?? "",
+          grafanaUrl: appConfig.grafanaUrl ?? "",
+          genericAlertsUrl: appConfig.genericAlertsUrl ?? "",
           confluenceBaseUrl: appConfig.confluenceBaseUrl ?? "",
           confluenceUser: appConfig.confluenceUser ?? "",
-          confluenceToken: appConfig.confluenceToken ?? "",
           provider: appConfig.provider ?? "opencode",
           repoRoot: appConfig.repoRoot ?? "",
           opencodeWebUrl: appConfig.opencodeWebUrl ?? "",
@@ -206,25 +261,29 @@ export class IntegrationsService {
       "";
 
     return {
-      datadogApiKey:
-        envString("DATADOG_API_KEY") ?? dbConfig.datadogApiKey ?? "",
-      datadogAppKey:
-        envString("DATADOG_APP_KEY") ?? dbConfig.datadogAppKey ?? "",
+      datadogApiKey: maskSecret(getSecret("DATADOG_API_KEY")),
+      datadogAppKey: maskSecret(getSecret("DATADOG_APP_KEY")),
       datadogSite:
         envString("DATADOG_SITE") ?? dbConfig.datadogSite ?? "datadoghq.com",
       alertTeam: envString("ALERT_TEAM") ?? dbConfig.alertTeam ?? "",
-      githubToken: envString("GITHUB_TOKEN") ?? dbConfig.githubToken ?? "",
+      alertSources:
+        envString("ALERT_SOURCES") || dbConfig.alertSources || "datadog",
+      alertmanagerUrl:
+        envString("ALERTMANAGER_URL") || dbConfig.alertmanagerUrl || "",
+      grafanaUrl: envString("GRAFANA_URL") || dbConfig.grafanaUrl || "",
+      grafanaApiToken: maskSecret(getSecret("GRAFANA_API_TOKEN")),
+      genericAlertsUrl:
+        envString("GENERIC_ALERTS_URL") || dbConfig.genericAlertsUrl || "",
+      githubToken: maskSecret(getSecret("GITHUB_TOKEN")),
       confluenceBaseUrl: atlassianBaseUrl,
       confluenceUser:
         envString("ATLASSIAN_USER") ??
         envString("CONFLUENCE_USER") ??
         dbConfig.confluenceUser ??
         "",
-      confluenceToken:
-        envString("ATLASSIAN_TOKEN") ??
-        envString("CONFLUENCE_TOKEN") ??
-        dbConfig.confluenceToken ??
-        "",
+      confluenceToken: maskSecret(
+        getSecret("ATLASSIAN_TOKEN") || getSecret("CONFLUENCE_TOKEN"),
+      ),
       provider: envString("PROVIDER") ?? dbConfig.provider ?? "opencode",
       repoRoot: envString("REPO_ROOT") ?? dbConfig.repoRoot ?? "",
       opencodeWebUrl:
@@ -236,10 +295,13 @@ export class IntegrationsService {
   }
 
   async getStatuses(): Promise<IntegrationStatus[]> {
+    await this.secrets.load();
     const datadog = this.getDatadogConfig();
     const github = this.getGithubConfig();
     const confluence = this.getConfluenceConfig();
     const jira = this.getJiraConfig();
+    const pagerduty = this.getPagerDutyConfig();
+    const opsgenie = this.getOpsgenieConfig();
     const ghLogin = await this.ghLogin();
 
     const configured: Record<IntegrationName, boolean> = {
@@ -249,8 +311,11 @@ export class IntegrationsService {
         confluence.baseUrl && confluence.user && confluence.token,
       ),
       jira: Boolean(jira.baseUrl && jira.user && jira.token),
+      pagerduty: Boolean(pagerduty.token),
+      opsgenie: Boolean(opsgenie.apiKey),
       opencode: Boolean(this.resolveOpenCodeBin()),
       codex: Boolean(this.resolveCodexBin()),
+      http: Boolean(envString("HTTP_PROVIDER_URL")),
     };
 
     const statuses: IntegrationStatus[] = [];
@@ -274,8 +339,17 @@ export class IntegrationsService {
 
   async test(
     name: IntegrationName,
-    overrides?: Record<string, string>,
+    rawOverrides?: Record<string, string>,
   ): Promise<IntegrationStatus> {
+    await this.secrets.load();
+    // Masked values are the wizard echoing back what getConfig() returned.
+    const overrides = rawOverrides
+      ? Object.fromEntries(
+          Object.entries(rawOverrides).filter(
+            ([, value]) => !isMaskedSecret(value),
+          ),
+        )
+      : undefined;
     if (name === "datadog") {
       const base = this.getDatadogConfig();
       const apiKey = overrides?.DATADOG_API_KEY ?? base.apiKey;
@@ -542,6 +616,119 @@ export class IntegrationsService {
       }
     }
 
+    if (name === "pagerduty") {
+      const base = this.getPagerDutyConfig();
+      const token = overrides?.PAGERDUTY_API_TOKEN ?? base.token;
+      const fromEmail = overrides?.PAGERDUTY_FROM_EMAIL ?? base.fromEmail;
+      if (!token) {
+        return {
+          name,
+          configured: false,
+          ok: false,
+          message: "Missing PAGERDUTY_API_TOKEN",
+        };
+      }
+      try {
+        const resp = await axios.get(`${base.apiUrl}/abilities`, {
+          headers: {
+            Authorization: `Token token=${token}`,
+            Accept: "application/vnd.pagerduty+json;version=2",
+          },
+        });
+        const abilities = resp.data?.abilities?.length ?? 0;
+        // Incidents can still be read without it; only notes need a user.
+        const message = fromEmail
+          ? `Connected (${abilities} abilities)`
+          : "Connected, but set PAGERDUTY_FROM_EMAIL to post notes";
+        await this.recordCheck(name, true, message);
+        return { name, configured: true, ok: true, message };
+      } catch (error: unknown) {
+        let message = "PagerDuty check failed";
+        if (error && typeof error === "object") {
+          if (
+            "response" in error &&
+            typeof error.response === "object" &&
+            error.response !== null
+          ) {
+            if (
+              "data" in error.response &&
+              typeof error.response.data === "object" &&
+              error.response.data !== null
+            ) {
+              if (
+                "error" in error.response.data &&
+                typeof error.response.data.error === "object" &&
+                error.response.data.error !== null &&
+                "message" in error.response.data.error &&
+                typeof error.response.data.error.message === "string"
+              ) {
+                message = error.response.data.error.message;
+              }
+            }
+          } else if ("message" in error && typeof error.message === "string") {
+            message = error.message;
+          }
+        }
+        await this.recordCheck(name, false, message);
+        return { name, configured: true, ok: false, message };
+      }
+    }
+
+    if (name === "opsgenie") {
+      const base = this.getOpsgenieConfig();
+      const apiKey = overrides?.OPSGENIE_API_KEY ?? base.apiKey;
+      const apiUrl =
+        overrides?.OPSGENIE_API_URL?.replace(/\/$/, "") ?? base.apiUrl;
+      if (!apiKey) {
+        return {
+          name,
+          configured: false,
+          ok: false,
+          message: "Missing OPSGENIE_API_KEY",
+        };
+      }
+      try {
+        // Alert API keys can't read /v2/account, so probe the alerts API.
+        await axios.get(`${apiUrl}/v2/alerts`, {
+          headers: { Authorization: `GenieKey ${apiKey}` },
+          params: { limit: 1 },
+        });
+        await this.recordCheck(name, true, "Alert API reachable");
+        return {
+          name,
+          configured: true,
+          ok: true,
+          message: "Alert API reachable",
+        };
+      } catch (error: unknown) {
+        let message = "Opsgenie check failed";
+        if (error && typeof error === "object") {
+          if (
+            "response" in error &&
+            typeof error.response === "object" &&
+            error.response !== null
+          ) {
+            if (
+              "data" in error.response &&
+              typeof error.response.data === "object" &&
+              error.response.data !== null
+            ) {
+              if (
+                "message" in error.response.data &&
+                typeof error.response.data.message === "string"
+              ) {
+                message = error.response.data.message;
+              }
+            }
+          } else if ("message" in error && typeof error.message === "string") {
+            message = error.message;
+          }
+        }
+        await this.recordCheck(name, false, message);
+        return { name, configured: true, ok: false, message };
+      }
+    }
+
     if (name === "opencode") {
       const bin = this.resolveOpenCodeBin();
       if (!bin) {
@@ -582,6 +769,42 @@ export class IntegrationsService {
       };
     }
 
+    if (name === "http") {
+      const baseUrl = (
+        overrides?.HTTP_PROVIDER_URL ?? envString("HTTP_PROVIDER_URL")
+      ).replace(/\/$/, "");
+      const apiKey =
+        overrides?.HTTP_PROVIDER_API_KEY ?? getSecret("HTTP_PROVIDER_API_KEY");
+      if (!baseUrl) {
+        return {
+          name,
+          configured: false,
+          ok: false,
+          message: "Missing HTTP_PROVIDER_URL",
+        };
+      }
+      try {
+        const resp = await axios.get(`${baseUrl}/models`, {
+          headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+          timeout: 10_000,
+        });
+        const models = (resp.data?.data ?? []) as { id: string }[];
+        const model = envString("HTTP_PROVIDER_MODEL");
+        const ok = !model || models.some((item) => item.id === model);
+        const message = ok
+          ? `Models: ${models.map((item) => item.id).join(", ") || "none listed"}`
+          : `Model ${model} is not served (${models.map((item) => item.id).join(", ")})`;
+        await this.recordCheck(name, ok, message);
+        return { name, configured: true, ok, message };
+      } catch (error: unknown) {
+        const message = axios.isAxiosError(error)
+          ? (error.response?.data?.error?.message ?? error.message)
+          : "HTTP provider check failed";
+        await this.recordCheck(name, false, message);
+        return { name, configured: true, ok: false, message };
+      }
+    }
+
     return {
       name,
       configured: false,
@@ -590,6 +813,223 @@ export class IntegrationsService {
     };
   }
 
+  private opencodeConfigPath() {
+    const configured = envString("OPENCODE_CONFIG");
+    if (configured) return configured;
+    const configHome =
+      envString("XDG_CONFIG_HOME") || path.join(os.homedir(), ".config");
+    return path.join(configHome, "opencode", "opencode.json");
+  }
+
+  private codexConfigPath() {
+    const codexHome =
+      envString("CODEX_HOME") || path.join(os.homedir(), ".codex");
+    return path.join(codexHome, "config.toml");
+  }
+
+  private async readOpenCodeConfig(
+    configPath: string,
+  ): Promise<Record<string, unknown> | null> {
+    const content = await fs.readFile(configPath, "utf-8").catch(() => null);
+    if (content === null) return {};
+    try {
+      // opencode.json may be JSONC; drop full-line comments before parsing.
+      return JSON.parse(content.replace(/^\s*\/\/.*$/gm, ""));
+    } catch {
+      return null;
+    }
+  }
+
+  private async toolIssues(): Promise<PermissionIssue[]> {
+    const issues: PermissionIssue[] = [];
+    if (spawnSync("which", ["gh"]).status !== 0) {
+      issues.push({
+        key: "gh",
+        message: "gh CLI not found; the agent cannot read PRs or commits.",
+        severity: "warn",
+      });
+    } else if (!getSecret("GITHUB_TOKEN") && !(await this.ghLogin())) {
+      issues.push({
+        key: "gh-auth",
+        message: "gh is not authenticated; run `gh auth login`.",
+        severity: "warn",
+      });
+    }
+    if (spawnSync("which", ["kubectl"]).status !== 0) {
+      issues.push({
+        key: "kubectl",
+        message:
+          "kubectl not found; the agent cannot inspect live cluster state.",
+        severity: "warn",
+      });
+    } else {
+      try {
+        await this.execFileAsync("kubectl", ["config", "current-context"], {
+          timeout: 5_000,
+        });
+      } catch {
+        issues.push({
+          key: "kubectl-context",
+          message: "kubectl has no current context configured.",
+          severity: "warn",
+        });
+      }
+    }
+    return issues;
+  }
+
+  private async opencodeIssues(): Promise<PermissionIssue[]> {
+    if (!this.resolveOpenCodeBin()) {
+      return [
+        {
+          key: "opencode-bin",
+          message: "OpenCode CLI not found (set OPENCODE_BIN).",
+          severity: "error",
+        },
+      ];
+    }
+    const configPath = this.opencodeConfigPath();
+    const config = await this.readOpenCodeConfig(configPath);
+    if (!config) {
+      return [
+        {
+          key: "opencode-config",
+          message: `${configPath} is not valid JSON.`,
+          severity: "error",
+        },
+      ];
+    }
+    const permission = config.permission;
+    if (permission === "allow") return [];
+    const rules =
+      permission && typeof permission === "object"
+        ? (permission as Record<string, unknown>)
+        : {};
+    const allowed = (value: unknown) =>
+      value === "allow" ||
+      (Boolean(value) &&
+        typeof value === "object" &&
+        (value as Record<string, unknown>)["*"] === "allow");
+    const missing = OPENCODE_REQUIRED_PERMISSIONS.filter(
+      (key) => !allowed(rules[key]),
+    );
+    return missing.map((key) => ({
+      key: `opencode-permission-${key}`,
+      message: `permission.${key} is not "allow" in ${configPath}`,
+      severity: "error" as const,
+    }));
+  }
+
+  private async codexIssues(): Promise<PermissionIssue[]> {
+    if (!this.resolveCodexBin()) {
+      return [
+        {
+          key: "codex-bin",
+          message: "Codex CLI not found (set CODEX_BIN).",
+          severity: "error",
+        },
+      ];
+    }
+    // Runs use --full-auto (workspace-write sandbox), which blocks network
+    // access unless the sandbox section of config.toml enables it.
+    const configPath = this.codexConfigPath();
+    const content = await fs.readFile(configPath, "utf-8").catch(() => "");
+    const section = content.match(
+      /^\[sandbox_workspace_write\]\s*$([\s\S]*?)(?=^\[|(?![\s\S]))/m,
+    )?.[1];
+    if (section && /^\s*network_access\s*=\s*true\b/m.test(section)) {
+      return [];
+    }
+    return [
+      {
+        key: "codex-sandbox-network",
+        message: `Codex workspace-write sandbox has no network access; set network_access = true under [sandbox_workspace_write] in ${configPath}.`,
+        severity: "error",
+      },
+    ];
+  }
+
+  /**
+   * Checks that the active provider can run tools headlessly and that the
+   * CLIs the triage prompt relies on are available.
+   */
+  async checkPermissions(): Promise<PermissionCheck> {
+    await this.secrets.load();
+    const provider = envString("PROVIDER") || "opencode";
+    const providerIssues =
+      provider === "opencode"
+        ? await this.opencodeIssues()
+        : provider === "codex"
+          ? await this.codexIssues()
+          : [];
+    const issues = [...providerIssues, ...(await this.toolIssues())];
+    return {
+      provider,
+      ok: !issues.some((issue) => issue.severity === "error"),
+      issues,
+      fixAvailable: providerIssues.some(
+        (issue) => issue.severity === "error" && !issue.key.endsWith("-bin"),
+      ),
+    };
+  }
+
+  /**
+   * Writes the provider config needed for headless runs, keeping a `.bak`
+   * copy of the previous file.
+   */
+  async fixPermissions() {
+    const provider = envString("PROVIDER") || "opencode";
+    if (provider === "opencode") {
+      const configPath = this.opencodeConfigPath();
+      const config = await this.readOpenCodeConfig(configPath);
+      if (!config) {
+        return { error: `${configPath} is not valid JSON; fix it by hand.` };
+      }
+      const current =
+        config.permission && typeof config.permission === "object"
+          ? (config.permission as Record<string, unknown>)
+          : {};
+      const permission: Record<string, unknown> = { ...current };
+      for (const key of OPENCODE_REQUIRED_PERMISSIONS) {
+        permission[key] = "allow";
+      }
+      await this.writeWithBackup(
+        configPath,
+        `${JSON.stringify({ ...config, permission }, null, 2)}\n`,
+      );
+      return { ok: true, provider, path: configPath };
+    }
+
+    if (provider === "codex") {
+      const configPath = this.codexConfigPath();
+      const content = await fs.readFile(configPath, "utf-8").catch(() => "");
+      const header = /^\[sandbox_workspace_write\]\s*$/m;
+      let updated: string;
+      if (!header.test(content)) {
+        updated = `${content.trimEnd()}\n\n[sandbox_workspace_write]\nnetwork_access = true\n`;
+      } else {
+        const [before, after] = content.split(header);
+        const nextSection = after.search(/^\[/m);
+        const body = nextSection === -1 ? after : after.slice(0, nextSection);
+        const rest = nextSection === -1 ? "" : after.slice(nextSection);
+        const fixedBody = /^\s*network_access\s*=/m.test(body)
+          ? body.replace(/^(\s*network_access\s*=\s*).*$/m, "$1true")
+          : `\nnetwork_access = true${body}`;
+        updated = `${before}[sandbox_workspace_write]${fixedBody}${rest}`;
+      }
+      await this.writeWithBackup(configPath, updated.trimStart());
+      return { ok: true, provider, path: configPath };
+    }
+
+    return { error: `No automatic fix for provider "${provider}".` };
+  }
+
+  private async writeWithBackup(filePath: string, content: string) {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    if (existsSync(filePath)) await fs.copyFile(filePath, `${filePath}.bak`);
+    await fs.writeFile(filePath, content);
+  }
+
   async configure(payload: Record<string, unknown>) {
     const rootEnv = path.join(this.rootDir, "..", ".env");
     const webEnv = path.join(this.rootDir, ".env.local");
@@ -613,6 +1053,34 @@ export class IntegrationsService {
       updates.ALERT_TEAM =
         typeof payload.alertTeam === "string" ? payload.alertTeam : "";
     }
+    if (Object.prototype.hasOwnProperty.call(payload, "alertSources")) {
+      updates.ALERT_SOURCES =
+        typeof payload.alertSources === "string"
+          ? payload.alertSources
+          : "datadog";
+    }
+    if (Object.prototype.hasOwnProperty.call(payload, "alertmanagerUrl")) {
+      updates.ALERTMANAGER_URL =
+        typeof payload.alertmanagerUrl === "string"
+          ? payload.alertmanagerUrl
+          : "";
+    }
+    if (Object.prototype.hasOwnProperty.call(payload, "grafanaUrl")) {
+      updates.GRAFANA_URL =
+        typeof payload.grafanaUrl === "string" ? payload.grafanaUrl : "";
+    }
+    if (Object.prototype.hasOwnProperty.call(payload, "grafanaApiToken")) {
+      updates.GRAFANA_API_TOKEN =
+        typeof payload.grafanaApiToken === "string"
+          ? payload.grafanaApiToken
+          : "";
+    }
+    if (Object.prototype.hasOwnProperty.call(payload, "genericAlertsUrl")) {
+      updates.GENERIC_ALERTS_URL =
+        typeof payload.genericAlertsUrl === "string"
+          ? payload.genericAlertsUrl
+          : "";
+    }
     if (Object.prototype.hasOwnProperty.call(payload, "githubToken")) {
       updates.GITHUB_TOKEN =
         typeof payload.githubToken === "string" ? payload.githubToken : "";
@@ -660,24 +1128,47 @@ export class IntegrationsService {
         typeof payload.codexModel === "string" ? payload.codexModel : "";
     }
 
-    await this.updateEnvFile(rootEnv, updates);
-    await this.updateEnvFile(webEnv, updates);
+    const newSecrets = Object.entries(updates).filter(
+      ([key, value]) => isSecretKey(key) && value && !isMaskedSecret(value),
+    );
+    if (newSecrets.length > 0 && !this.secrets.enabled()) {
+      return {
+        error:
+          "Set SECRETS_MASTER_KEY before saving credentials; they are stored encrypted, never in plaintext.",
+      };
+    }
 
+    const settings: Record<string, string> = {};
     for (const [key, value] of Object.entries(updates)) {
+      if (!isSecretKey(key)) {
+        settings[key] = value;
+      } else if (!isMaskedSecret(value)) {
+        const result = await this.secrets.set(key, value);
+        if (result.error) return result;
+        delete process.env[key];
+      }
+    }
+
+    // Credentials now live in the encrypted store; drop plaintext copies.
+    const removals = this.secrets.stored();
+    await this.updateEnvFile(rootEnv, settings, removals);
+    await this.updateEnvFile(webEnv, settings, removals);
+
+    for (const [key, value] of Object.entries(settings)) {
       if (value !== undefined) process.env[key] = value;
     }
 
     await this.prisma.appConfig.upsert({
       where: { id: "default" },
       update: {
-        datadogApiKey: updates.DATADOG_API_KEY,
-        datadogAppKey: updates.DATADOG_APP_KEY,
         datadogSite: updates.DATADOG_SITE,
         alertTeam: updates.ALERT_TEAM,
-        githubToken: updates.GITHUB_TOKEN,
+        alertSources: updates.ALERT_SOURCES,
+        alertmanagerUrl: updates.ALERTMANAGER_URL,
+        grafanaUrl: updates.GRAFANA_URL,
+        genericAlertsUrl: updates.GENERIC_ALERTS_URL,
         confluenceBaseUrl: updates.ATLASSIAN_BASE_URL,
         confluenceUser: updates.ATLASSIAN_USER,
-        confluenceToken: updates.ATLASSIAN_TOKEN,
         provider: updates.PROVIDER,
         repoRoot: updates.REPO_ROOT,
         opencodeWebUrl: updates.OPENCODE_WEB_URL,
@@ -686,14 +1177,14 @@ export class IntegrationsService {
       },
       create: {
         id: "default",
-        datadogApiKey: updates.DATADOG_API_KEY,
-        datadogAppKey: updates.DATADOG_APP_KEY,
         datadogSite: updates.DATADOG_SITE,
         alertTeam: updates.ALERT_TEAM,
-        githubToken: updates.GITHUB_TOKEN,
+        alertSources: updates.ALERT_SOURCES,
+        alertmanagerUrl: updates.ALERTMANAGER_URL,
+        grafanaUrl: updates.GRAFANA_URL,
+        genericAlertsUrl: updates.GENERIC_ALERTS_URL,
         confluenceBaseUrl: updates.ATLASSIAN_BASE_URL,
         confluenceUser: updates.ATLASSIAN_USER,
-        confluenceToken: updates.ATLASSIAN_TOKEN,
         provider: updates.PROVIDER,
         repoRoot: updates.REPO_ROOT,
         opencodeWebUrl: updates.OPENCODE_WEB_URL,
@@ -0,0 +1,227 @@
+import axios from "axios";
+import { Prisma } from "@prisma/client";
+import { PrismaService } from "./prisma.service";
+import { getSecret } from "./secrets.service";
+import { dashboardUrl } from "./notification.service";
+import { FixSuggestion, ReportEvidence } from "@/triage/types";
+import { envNumber, envString } from "@/utils/env";
+import { formatError } from "@/utils/error";
+
+type RunWithAlert = Prisma.TriageRunGetPayload<{ include: { alert: true } }>;
+
+/** How long a claim on a run blocks other requests from filing an issue. */
+const CLAIM_TTL_MS = 5 * 60_000;
+
+function jiraConfig(teamId?: string | null) {
+  return {
+    baseUrl: envString("ATLASSIAN_BASE_URL").replace(/\/$/, ""),
+    user: envString("ATLASSIAN_USER") || envString("CONFLUENCE_USER"),
+    token:
+      getSecret("ATLASSIAN_TOKEN", teamId) ||
+      getSecret("CONFLUENCE_TOKEN", teamId),
+  };
+}
+
+/** Jira puts field errors in `errors` and the rest in `errorMessages`. */
+function jiraError(error: unknown) {
+  if (axios.isAxiosError(error) && error.response?.data) {
+    const data = error.response.data as {
+      errorMessages?: string[];
+      errors?: Record<string, string>;
+    };
+    const messages = [
+      ...(data.errorMessages ?? []),
+      ...Object.entries(data.errors ?? {}).map(
+        ([field, message]) => `${field}: ${message}`,
+      ),
+    ];
+    if (messages.length > 0) return messages.join(", ");
+  }
+  return formatError(error);
+}
+
+/** Issue description in Jira wiki markup, which the v2 API accepts as-is. */
+export function buildIssueDescription(run: RunWithAlert) {
+  const evidence = run.evidence as ReportEvidence | null;
+  const fix = (run.fixSuggestions as FixSuggestion[] | null)?.[0];
+  const alert = run.alert;
+  const details = [
+    alert?.monitorUrl
+      ? `[${alert.monitorName}|${alert.monitorUrl}]`
+      : alert?.monitorName,
+    alert?.priority ? `P${alert.priority}` : null,
+    alert?.service,
+    alert?.environment,
+  ].filter(Boolean);
+
+  const sections = [
+    ["h2. Alert summary", evidence?.summary, details.join(" · ")],
+    evidence?.likelyCauses.length
+      ? [
+          "h2. Likely cause",
+          evidence.likelyCauses.map((cause) => `* ${cause}`).join("\n"),
+        ]
+      : [],
+    evidence?.immediateActions.length
+      ? [
+          "h2. Immediate actions",
+          evidence.immediateActions.map((action) => `# ${action}`).join("\n"),
+        ]
+      : [],
+    fix
+      ? [
+          "h2. Draft fix",
+          `*${fix.title}*`,
+          fix.summary,
+          fix.diff ? `{code:diff}\n${fix.diff}\n{code}` : null,
+        ]
+      : [],
+    [`[Full triage report|${dashboardUrl(`/#run-${run.id}`)}]`],
+  ];
+  return sections
+    .map((section) => section.filter(Boolean).join("\n"))
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+/** Files triage reports as Jira issues and reads their status back. */
+export class JiraService {
+  constructor(private prisma: PrismaService) {}
+
+  private client(teamId?: string | null) {
+    const config = jiraConfig(teamId);
+    if (!config.baseUrl || !config.user || !config.token) return null;
+    return {
+      baseUrl: config.baseUrl,
+      http: axios.create({
+        baseURL: `${config.baseUrl}/rest/api/2`,
+        auth: { username: config.user, password: config.token },
+        timeout: envNumber("JIRA_TIMEOUT_MS", 15_000),
+      }),
+    };
+  }
+
+  async createIssue(runId: string, options: { projectKey?: string } = {}) {
+    const run = await this.prisma.triageRun.findUnique({
+      where: { id: runId },
+      include: { alert: true },
+    });
+    if (!run) return { error: "Run not found" };
+    if (run.jiraIssueKey) {
+      return { error: `Run already has Jira issue ${run.jiraIssueKey}` };
+    }
+    if (run.status !== "complete") {
+      return { error: "Only completed reports can be filed" };
+    }
+    const projectKey = options.projectKey || envString("JIRA_PROJECT_KEY");
+    if (!projectKey) {
+      return { error: "Set JIRA_PROJECT_KEY or pass a project key" };
+    }
+    const jira = this.client(run.teamId);
+    if (!jira) {
+      return {
+        error:
+          "Missing Atlassian URL or credentials (ATLASSIAN_BASE_URL and ATLASSIAN_USER/TOKEN)",
+      };
+    }
+
+    const evidence = run.evidence as ReportEvidence | null;
+    const title = evidence?.title || run.alert?.monitorName || "Triage report";
+    const labels = envString("JIRA_LABELS", "triage")
+      .split(",")
+      .map((label) => label.trim().replace(/\s+/g, "-"))
+      .filter(Boolean);
+
+    // Claim the run so a second click can't file a second issue. A claim
+    // left by a crashed request expires after CLAIM_TTL_MS.
+    const claimedAt = new Date();
+    const claimed = await this.prisma.triageRun.updateMany({
+      where: {
+        id: run.id,
+        jiraIssueKey: null,
+        OR: [
+          { jiraClaimedAt: null },
+          {
+            jiraClaimedAt: { lt: new Date(claimedAt.getTime() - CLAIM_TTL_MS) },
+          },
+        ],
+      },
+      data: { jiraClaimedAt: claimedAt },
+    });
+    if (claimed.count === 0) {
+      return { error: "A Jira issue is already being filed for this run" };
+    }
+
+    let key: string;
+    try {
+      const response = await jira.http.post("/issue", {
+        fields: {
+          project: { key: projectKey },
+          issuetype: { name: envString("JIRA_ISSUE_TYPE", "Task") },
+          summary: title.replace(/\s+/g, " ").slice(0, 255),
+          description: buildIssueDescription(run),
+          labels,
+        },
+      });
+      key = response.data?.key as string;
+    } catch (error) {
+      await this.prisma.triageRun
+        .updateMany({
+          where: { id: run.id, jiraClaimedAt: claimedAt },
+          data: { jiraClaimedAt: null },
+        })
+        .catch((releaseError) =>
+          console.warn(
+            `[Jira] Could not release the claim on run ${run.id}: ${formatError(releaseError)}`,
+          ),
+        );
+      return { error: `Jira issue creation failed: ${jiraError(error)}` };
+    }
+
+    const url = `${jira.baseUrl}/browse/${key}`;
+    try {
+      await this.prisma.triageRun.update({
+        where: { id: run.id },
+        data: { jiraIssueKey: key, jiraClaimedAt: null },
+      });
+    } catch (error) {
+      // The issue exists; hand back its key rather than lose track of it.
+      // The claim holds off retries until it expires.
+      return {
+        error: `Filed ${key} but could not save it on the run: ${formatError(error)}`,
+        key,
+        url,
+      };
+    }
+    return { key, url };
+  }
+
+  async issueStatus(runId: string) {
+    const run = await this.prisma.triageRun.findUnique({
+      where: { id: runId },
+      select: { jiraIssueKey: true, teamId: true },
+    });
+    if (!run?.jiraIssueKey) return { error: "Run has no Jira issue" };
+    const key = run.jiraIssueKey;
+    const url = `${jiraConfig(run.teamId).baseUrl}/browse/${key}`;
+    const jira = this.client(run.teamId);
+    if (!jira) return { error: "Jira is not configured", key, url };
+    try {
+      const response = await jira.http.get(
+        `/issue/${encodeURIComponent(key)}`,
+        { params: { fields: "status,assignee" } },
+      );
+      const fields = response.data?.fields ?? {};
+      return {
+        key,
+        url,
+        status: fields.status?.name as string | undefined,
+        /** `new`, `indeterminate` or `done`. */
+        category: fields.status?.statusCategory?.key as string | undefined,
+        assignee: fields.assignee?.displayName as string | undefined,
+      };
+    } catch (error) {
+      return { error: jiraError(error), key, url };
+    }
+  }
+}
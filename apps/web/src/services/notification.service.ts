@@ -0,0 +1,144 @@
+import { PrismaService } from "./prisma.service";
+import { getSecret } from "./secrets.service";
+import {
+  parseSlackRoutes,
+  SlackNotifier,
+} from "@/services/notifiers/slack.notifier";
+import { PagingNotifier } from "@/services/notifiers/paging.notifier";
+import { WebhookNotifier } from "@/services/notifiers/webhook.notifier";
+import { PagingService } from "@/services/paging.service";
+import { WebhookService } from "@/services/webhook.service";
+import { Notifier, ReportEvidence, RunEvent, RunSummary } from "@/triage/types";
+import { envNumber, envString } from "@/utils/env";
+import { formatError } from "@/utils/error";
+
+export function dashboardUrl(path = "/") {
+  return `${envString("DASHBOARD_URL", "http://localhost:3000").replace(/\/$/, "")}${path}`;
+}
+
+/**
+ * Tells the outside world about run events. Every enabled notifier
+ * subscribed to the event gets its summary; deliveries are recorded in
+ * `Notification`, which also holds the message ids later runs of the same
+ * alert thread under.
+ */
+export class NotificationService {
+  private webhooks: WebhookService;
+
+  constructor(private prisma: PrismaService) {
+    this.webhooks = new WebhookService(prisma);
+  }
+
+  private notifiers(): Notifier[] {
+    return [
+      new SlackNotifier({
+        webhookUrl: getSecret("SLACK_WEBHOOK_URL"),
+        botToken: getSecret("SLACK_BOT_TOKEN"),
+        channel: envString("SLACK_CHANNEL"),
+        apiUrl: envString("SLACK_API_URL", "https://slack.com/api"),
+        routes: parseSlackRoutes(envString("SLACK_PRIORITY_ROUTES")),
+        timeoutMs: envNumber("NOTIFY_TIMEOUT_MS", 10_000),
+      }),
+      new PagingNotifier(new PagingService(this.prisma)),
+      new WebhookNotifier(this.webhooks),
+    ];
+  }
+
+  /** Never throws: a broken notifier must not fail the run it reports. */
+  async runEvent(runId: string, event: RunEvent) {
+    const notifiers = this.notifiers().filter(
+      (notifier) => notifier.enabled() && notifier.events.includes(event),
+    );
+    if (notifiers.length === 0) return;
+    try {
+      const summary = await this.summarize(runId, event);
+      if (!summary) return;
+      for (const notifier of notifiers) {
+        await this.deliver(notifier, summary);
+      }
+    } catch (error) {
+      console.warn(
+        `[Notify] Failed to notify ${event} for run ${runId}: ${formatError(error)}`,
+      );
+    }
+  }
+
+  /** Resends webhook deliveries whose backoff has elapsed. */
+  async retryDue() {
+    await this.webhooks.retryDue();
+  }
+
+  private async summarize(
+    runId: string,
+    event: RunEvent,
+  ): Promise<RunSummary | null> {
+    const run = await this.prisma.triageRun.findUnique({
+      where: { id: runId },
+      include: { alert: true, incident: { include: { alerts: true } } },
+    });
+    if (!run) return null;
+    const evidence = run.evidence as ReportEvidence | null;
+    const grouped = (run.incident?.alerts.length ?? 0) > 1;
+    return {
+      runId: run.id,
+      event,
+      title:
+        (grouped ? run.incident?.title : run.alert?.monitorName) ||
+        evidence?.title ||
+        "Unknown monitor",
+      priority: run.alert?.priority,
+      service: run.alert?.service ?? undefined,
+      environment: run.alert?.environment ?? undefined,
+      likelyCause: evidence?.likelyCauses[0],
+      immediateActions: evidence?.immediateActions ?? [],
+      error: run.error ?? undefined,
+      url: dashboardUrl(`/#run-${run.id}`),
+      threadKey: run.incidentId ?? run.alertId ?? run.id,
+      teamId: run.teamId,
+    };
+  }
+
+  private async deliver(notifier: Notifier, summary: RunSummary) {
+    const root = await this.prisma.notification.findFirst({
+      where: {
+        channel: notifier.name,
+        threadKey: summary.threadKey,
+        status: "sent",
+        externalId: { not: null },
+      },
+      orderBy: { createdAt: "asc" },
+    });
+    try {
+      const result = await notifier.notify(
+        summary,
+        root?.externalId
+          ? { target: root.target, externalId: root.externalId }
+          : undefined,
+      );
+      if (!result) return;
+      await this.prisma.notification.create({
+        data: {
+          runId: summary.runId,
+          channel: notifier.name,
+          target: result.target,
+          threadKey: summary.threadKey,
+          externalId: result.externalId,
+          status: "sent",
+        },
+      });
+    } catch (error) {
+      console.warn(
+        `[Notify] ${notifier.name} failed for run ${summary.runId}: ${formatError(error)}`,
+      );
+      await this.prisma.notification.create({
+        data: {
+          runId: summary.runId,
+          channel: notifier.name,
+          threadKey: summary.threadKey,
+          status: "failed",
+          error: formatError(error),
+        },
+      });
+    }
+  }
+}
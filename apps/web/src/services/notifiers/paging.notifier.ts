@@ -0,0 +1,18 @@
+import { PagingService } from "@/services/paging.service";
+import { Notifier, RunSummary } from "@/triage/types";
+
+/** Adds completed diagnoses as notes on the PagerDuty/Opsgenie incident. */
+export class PagingNotifier implements Notifier {
+  readonly name = "paging";
+  readonly events = ["completed"] as const;
+
+  constructor(private paging: PagingService) {}
+
+  enabled() {
+    return this.paging.clients().length > 0;
+  }
+
+  async notify(summary: RunSummary) {
+    return this.paging.postDiagnosis(summary);
+  }
+}
@@ -0,0 +1,145 @@
+import axios from "axios";
+import { NotificationThread, Notifier, RunSummary } from "@/triage/types";
+
+export interface SlackNotifierOptions {
+  /** Incoming webhook; messages can't be threaded without a bot token. */
+  webhookUrl: string;
+  botToken: string;
+  channel: string;
+  /** Web API base, overridable to point at a local stand-in. */
+  apiUrl: string;
+  /** Priority → channel or webhook URL; `off` mutes that priority. */
+  routes: Map<number, string>;
+  timeoutMs: number;
+}
+
+/** Parses `SLACK_PRIORITY_ROUTES`, e.g. `1=#sev1,2=#sev1,5=off`. */
+export function parseSlackRoutes(value?: string) {
+  const routes = new Map<number, string>();
+  for (const entry of (value ?? "").split(",")) {
+    const [priority, target] = entry.split("=").map((part) => part.trim());
+    const parsed = Number.parseInt(priority?.replace(/^p/i, "") ?? "", 10);
+    if (Number.isFinite(parsed) && target) routes.set(parsed, target);
+  }
+  return routes;
+}
+
+function isWebhook(target: string) {
+  return /^https?:\/\//i.test(target);
+}
+
+function statusLine(summary: RunSummary) {
+  return summary.event === "completed"
+    ? `:white_check_mark: Triage complete: ${summary.title}`
+    : `:x: Triage failed: ${summary.title}`;
+}
+
+/** Block Kit message with a plain-text fallback for notifications. */
+export function buildSlackMessage(summary: RunSummary) {
+  const details = [
+    summary.priority ? `P${summary.priority}` : null,
+    summary.service,
+    summary.environment,
+  ].filter(Boolean);
+  const body =
+    summary.event === "failed"
+      ? [`*Error:* ${summary.error ?? "Unknown error"}`]
+      : [
+          summary.likelyCause ? `*Likely cause:* ${summary.likelyCause}` : null,
+          summary.immediateActions.length > 0
+            ? `*Immediate actions:*\n${summary.immediateActions
+                .slice(0, 3)
+                .map((action) => `• ${action}`)
+                .join("\n")}`
+            : null,
+        ].filter(Boolean);
+
+  return {
+    text: statusLine(summary),
+    blocks: [
+      {
+        type: "section",
+        text: { type: "mrkdwn", text: `*${statusLine(summary)}*` },
+      },
+      ...body.map((text) => ({
+        type: "section",
+        text: { type: "mrkdwn", text: (text as string).slice(0, 2900) },
+      })),
+      {
+        type: "context",
+        elements: [
+          {
+            type: "mrkdwn",
+            text: [...details, `<${summary.url}|Open in dashboard>`].join(
+              " · ",
+            ),
+          },
+        ],
+      },
+    ],
+  };
+}
+
+/**
+ * Posts run summaries to Slack, either through an incoming webhook or, with
+ * a bot token, via `chat.postMessage` so reruns reply in the original
+ * message's thread.
+ */
+export class SlackNotifier implements Notifier {
+  readonly name = "slack";
+  readonly events = ["completed", "failed"] as const;
+
+  constructor(private options: SlackNotifierOptions) {}
+
+  enabled() {
+    return Boolean(
+      this.options.webhookUrl ||
+      (this.options.botToken && this.options.channel) ||
+      [...this.options.routes.values()].some(isWebhook),
+    );
+  }
+
+  private route(priority?: number | null) {
+    const routed = priority ? this.options.routes.get(priority) : undefined;
+    if (routed) return routed;
+    return this.options.botToken && this.options.channel
+      ? this.options.channel
+      : this.options.webhookUrl;
+  }
+
+  async notify(summary: RunSummary, thread?: NotificationThread) {
+    const message = buildSlackMessage(summary);
+    // Replies stay in the root message's channel even if priority changed.
+    const target =
+      thread?.target && !isWebhook(thread.target)
+        ? thread.target
+        : this.route(summary.priority);
+    if (!target || target.toLowerCase() === "off") return null;
+
+    if (isWebhook(target)) {
+      await axios.post(target, message, { timeout: this.options.timeoutMs });
+      return { target: null };
+    }
+
+    if (!this.options.botToken) {
+      throw new Error(`SLACK_BOT_TOKEN is required to post to ${target}`);
+    }
+    const response = await axios.post(
+      `${this.options.apiUrl.replace(/\/$/, "")}/chat.postMessage`,
+      {
+        ...message,
+        channel: target,
+        thread_ts: thread?.target === target ? thread.externalId : undefined,
+        unfurl_links: false,
+      },
+      {
+        headers: { Authorization: `Bearer ${this.options.botToken}` },
+        timeout: this.options.timeoutMs,
+      },
+    );
+    if (!response.data?.ok) {
+      throw new Error(`Slack API error: ${response.data?.error ?? "unknown"}`);
+    }
+    return { target, externalId: response.data.ts as string | undefined };
+  }
+}
@@ -0,0 +1,23 @@
+import { WebhookService } from "@/services/webhook.service";
+import { Notifier, RUN_EVENTS, RunSummary } from "@/triage/types";
+
+/**
+ * Fans run events out to the configured outbound webhooks. Deliveries are
+ * tracked in `WebhookDelivery` rather than `Notification`, so this never
+ * returns a thread.
+ */
+export class WebhookNotifier implements Notifier {
+  readonly name = "webhook";
+  readonly events = RUN_EVENTS;
+
+  constructor(private webhooks: WebhookService) {}
+
+  enabled() {
+    return true;
+  }
+
+  async notify(summary: RunSummary) {
+    await this.webhooks.dispatch(summary);
+    return null;
+  }
+}
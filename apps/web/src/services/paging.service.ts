@@ -0,0 +1,106 @@
+import { PrismaService } from "./prisma.service";
+import { getSecret } from "./secrets.service";
+import { OpsgenieClient } from "@/services/paging/opsgenie.client";
+import { PagerDutyClient } from "@/services/paging/pagerduty.client";
+import { AlertContext, PagingClient, RunSummary } from "@/triage/types";
+import { envNumber, envString } from "@/utils/env";
+import { formatError } from "@/utils/error";
+
+const DEDUP_KEY =
+  /\b(?:dedup[_ -]?key|incident[_ -]?key|alias)\s*[:=]\s*["'`]?([\w.:/@-]+)/i;
+
+/** Finds an explicit dedup key, e.g. `dedup_key: checkout-5xx`, in a monitor message. */
+export function extractDedupKey(message?: string) {
+  return message?.match(DEDUP_KEY)?.[1];
+}
+
+/** Plain-text note; neither PagerDuty nor Opsgenie renders Markdown. */
+export function buildDiagnosisNote(summary: RunSummary) {
+  return [
+    `Triage diagnosis: ${summary.title}`,
+    summary.likelyCause ? `Likely cause: ${summary.likelyCause}` : null,
+    summary.immediateActions.length > 0
+      ? [
+          "Immediate actions:",
+          ...summary.immediateActions
+            .slice(0, 5)
+            .map((action, index) => `${index + 1}. ${action}`),
+        ].join("\n")
+      : null,
+    `Full report: ${summary.url}`,
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+/**
+ * Links triage runs to the PagerDuty incident or Opsgenie alert that paged
+ * the responder: its state goes into the prompt, and the finished diagnosis
+ * is posted back as a note.
+ */
+export class PagingService {
+  constructor(private prisma: PrismaService) {}
+
+  clients(teamId?: string | null): PagingClient[] {
+    const timeoutMs = envNumber("PAGING_TIMEOUT_MS", 10_000);
+    return [
+      new PagerDutyClient({
+        apiToken: getSecret("PAGERDUTY_API_TOKEN", teamId),
+        fromEmail: envString("PAGERDUTY_FROM_EMAIL"),
+        apiUrl: envString("PAGERDUTY_API_URL", "https://api.pagerduty.com"),
+        timeoutMs,
+      }),
+      new OpsgenieClient({
+        apiKey: getSecret("OPSGENIE_API_KEY", teamId),
+        apiUrl: envString("OPSGENIE_API_URL", "https://api.opsgenie.com"),
+        timeoutMs,
+      }),
+    ].filter((client) => client.enabled());
+  }
+
+  /** The first configured service with a matching incident. Never throws. */
+  async findIncident(alert: AlertContext) {
+    const dedupKey = extractDedupKey(alert.monitorMessage);
+    for (const client of this.clients(alert.teamId)) {
+      try {
+        const incident = await client.findIncident(alert, dedupKey);
+        if (incident) return { client, incident };
+      } catch (error) {
+        console.warn(
+          `[Paging] ${client.name} lookup failed for ${alert.monitorName ?? alert.monitorId}: ${formatError(error)}`,
+        );
+      }
+    }
+    return null;
+  }
+
+  /** Adds the paging incident's acknowledgement state and responders. */
+  async enrich(alert: AlertContext): Promise<AlertContext> {
+    const match = await this.findIncident(alert);
+    return match ? { ...alert, paging: match.incident } : alert;
+  }
+
+  /** Posts the run's diagnosis to the matching incident; throws on failure. */
+  async postDiagnosis(summary: RunSummary) {
+    const run = await this.prisma.triageRun.findUnique({
+      where: { id: summary.runId },
+      include: { alert: true },
+    });
+    if (!run?.alert) return null;
+    const match = await this.findIncident({
+      monitorId: run.alert.monitorId ?? undefined,
+      monitorName: run.alert.monitorName,
+      monitorMessage: run.alert.monitorMessage ?? undefined,
+      teamId: run.teamId ?? undefined,
+    });
+    if (!match) return null;
+    const noteId = await match.client.addNote(
+      match.incident.id,
+      buildDiagnosisNote(summary),
+    );
+    return {
+      target: `${match.client.name}:${match.incident.id}`,
+      externalId: noteId,
+    };
+  }
+}
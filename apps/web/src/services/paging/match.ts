@@ -0,0 +1,36 @@
+import { AlertContext } from "@/triage/types";
+
+/**
+ * Whether a paging dedup key or alias names `monitorId`, either outright or
+ * as one of its delimited parts (`datadog-1234`, `monitor/1234/prod`). A
+ * plain substring test would let monitor 12 match `datadog-1234`.
+ */
+export function keyNamesMonitor(key: string | undefined, monitorId: string) {
+  if (!key) return false;
+  return key === monitorId || key.split(/[^A-Za-z0-9_]+/).includes(monitorId);
+}
+
+/**
+ * The open item for `alert`: the one whose key names its monitor, else the
+ * only one whose title mentions the monitor name. Several title matches are
+ * ambiguous, so none is picked.
+ */
+export function matchOpenItem<T>(
+  items: T[],
+  alert: AlertContext,
+  fields: (item: T) => { key?: string; title?: string },
+) {
+  const { monitorId } = alert;
+  if (monitorId) {
+    const byKey = items.find((item) =>
+      keyNamesMonitor(fields(item).key, monitorId),
+    );
+    if (byKey) return byKey;
+  }
+  const monitorName = alert.monitorName?.toLowerCase();
+  if (!monitorName) return undefined;
+  const byTitle = items.filter((item) =>
+    fields(item).title?.toLowerCase().includes(monitorName),
+  );
+  return byTitle.length === 1 ? byTitle[0] : undefined;
+}
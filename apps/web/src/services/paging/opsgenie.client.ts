@@ -0,0 +1,87 @@
+import axios from "axios";
+import { AlertContext, PagingClient, PagingIncident } from "@/triage/types";
+import { matchOpenItem } from "./match";
+
+export interface OpsgenieClientOptions {
+  apiKey: string;
+  /** `https://api.opsgenie.com`, or `https://api.eu.opsgenie.com` for EU accounts. */
+  apiUrl: string;
+  timeoutMs: number;
+}
+
+interface OpsgenieAlert {
+  id: string;
+  tinyId?: string;
+  alias?: string;
+  message?: string;
+  status: string;
+  acknowledged?: boolean;
+  owner?: string;
+}
+
+function toPagingIncident(alert: OpsgenieAlert): PagingIncident {
+  return {
+    provider: "opsgenie",
+    id: alert.id,
+    title: alert.message,
+    status: alert.status,
+    acknowledged: Boolean(alert.acknowledged),
+    // The list API only names the owner, who is also whoever acknowledged.
+    acknowledgedBy: alert.acknowledged && alert.owner ? [alert.owner] : [],
+    assignees: alert.owner ? [alert.owner] : [],
+  };
+}
+
+/**
+ * Opsgenie Alert API v2. Opsgenie's dedup key is the alert `alias`; without
+ * one, open alerts are matched on the Datadog monitor id or name.
+ */
+export class OpsgenieClient implements PagingClient {
+  readonly name = "opsgenie";
+
+  constructor(private options: OpsgenieClientOptions) {}
+
+  enabled() {
+    return Boolean(this.options.apiKey);
+  }
+
+  private request() {
+    return axios.create({
+      baseURL: `${this.options.apiUrl.replace(/\/$/, "")}/v2`,
+      timeout: this.options.timeoutMs,
+      headers: { Authorization: `GenieKey ${this.options.apiKey}` },
+    });
+  }
+
+  async findIncident(alert: AlertContext, dedupKey?: string) {
+    const client = this.request();
+    if (dedupKey) {
+      const response = await client.get("/alerts", {
+        params: { query: `alias:"${dedupKey}"`, limit: 1 },
+      });
+      const match = (response.data?.data as OpsgenieAlert[])?.[0];
+      if (match) return toPagingIncident(match);
+    }
+    if (!alert.monitorId && !alert.monitorName) return null;
+
+    const response = await client.get("/alerts", {
+      params: { query: "status:open", sort: "createdAt", limit: 100 },
+    });
+    const alerts = (response.data?.data ?? []) as OpsgenieAlert[];
+    const match = matchOpenItem(alerts, alert, (item) => ({
+      key: item.alias,
+      title: item.message,
+    }));
+    return match ? toPagingIncident(match) : null;
+  }
+
+  async addNote(incidentId: string, content: string) {
+    const response = await this.request().post(
+      `/alerts/${encodeURIComponent(incidentId)}/notes`,
+      // Opsgenie caps notes at 25k characters.
+      { note: content.slice(0, 25_000), user: "Triage" },
+      { params: { identifierType: "id" } },
+    );
+    return response.data?.requestId as string | undefined;
+  }
+}
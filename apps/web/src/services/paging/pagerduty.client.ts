@@ -0,0 +1,108 @@
+import axios from "axios";
+import { AlertContext, PagingClient, PagingIncident } from "@/triage/types";
+import { matchOpenItem } from "./match";
+
+export interface PagerDutyClientOptions {
+  apiToken: string;
+  /** Email of a PagerDuty user; the REST API requires it to add notes. */
+  fromEmail: string;
+  /** REST API base, overridable to point at a local stand-in. */
+  apiUrl: string;
+  timeoutMs: number;
+}
+
+interface PagerDutyIncident {
+  id: string;
+  title?: string;
+  status: string;
+  html_url?: string;
+  incident_key?: string;
+  assignments?: { assignee?: { summary?: string } }[];
+  acknowledgements?: { acknowledger?: { summary?: string } }[];
+}
+
+function toPagingIncident(incident: PagerDutyIncident): PagingIncident {
+  const names = (values: (string | undefined)[]) => [
+    ...new Set(values.filter((value): value is string => Boolean(value))),
+  ];
+  return {
+    provider: "pagerduty",
+    id: incident.id,
+    title: incident.title,
+    url: incident.html_url,
+    status: incident.status,
+    acknowledged: incident.status === "acknowledged",
+    acknowledgedBy: names(
+      (incident.acknowledgements ?? []).map((ack) => ack.acknowledger?.summary),
+    ),
+    assignees: names(
+      (incident.assignments ?? []).map((item) => item.assignee?.summary),
+    ),
+  };
+}
+
+/**
+ * PagerDuty REST API v2. Incidents are matched by dedup key (`incident_key`)
+ * when the alert carries one, otherwise by an open incident whose key holds
+ * the Datadog monitor id or whose title names the monitor.
+ */
+export class PagerDutyClient implements PagingClient {
+  readonly name = "pagerduty";
+
+  constructor(private options: PagerDutyClientOptions) {}
+
+  enabled() {
+    return Boolean(this.options.apiToken);
+  }
+
+  private request() {
+    return axios.create({
+      baseURL: this.options.apiUrl.replace(/\/$/, ""),
+      timeout: this.options.timeoutMs,
+      headers: {
+        Authorization: `Token token=${this.options.apiToken}`,
+        Accept: "application/vnd.pagerduty+json;version=2",
+      },
+    });
+  }
+
+  async findIncident(alert: AlertContext, dedupKey?: string) {
+    const client = this.request();
+    if (dedupKey) {
+      const response = await client.get("/incidents", {
+        params: { incident_key: dedupKey },
+      });
+      const incident = (response.data?.incidents as PagerDutyIncident[])?.[0];
+      if (incident) return toPagingIncident(incident);
+    }
+    if (!alert.monitorId && !alert.monitorName) return null;
+
+    const response = await client.get("/incidents", {
+      params: {
+        statuses: ["triggered", "acknowledged"],
+        sort_by: "created_at:desc",
+        limit: 100,
+      },
+      // PagerDuty expects `statuses[]=triggered&statuses[]=acknowledged`.
+      paramsSerializer: { indexes: false },
+    });
+    const incidents = (response.data?.incidents ?? []) as PagerDutyIncident[];
+    const match = matchOpenItem(incidents, alert, (incident) => ({
+      key: incident.incident_key,
+      title: incident.title,
+    }));
+    return match ? toPagingIncident(match) : null;
+  }
+
+  async addNote(incidentId: string, content: string) {
+    if (!this.options.fromEmail) {
+      throw new Error("PAGERDUTY_FROM_EMAIL is required to add notes");
+    }
+    const response = await this.request().post(
+      `/incidents/${encodeURIComponent(incidentId)}/notes`,
+      { note: { content } },
+      { headers: { From: this.options.fromEmail } },
+    );
+    return response.data?.note?.id as string | undefined;
+  }
+}
@@ -0,0 +1,385 @@
+import axios from "axios";
+import { promises as fs } from "fs";
+import { AlertEvent, Prisma, TriageRun } from "@prisma/client";
+import { PrismaService } from "./prisma.service";
+import { getSecret } from "./secrets.service";
+import { dashboardUrl } from "./notification.service";
+import { FixSuggestion, ReportEvidence } from "@/triage/types";
+import { envNumber, envString } from "@/utils/env";
+import { formatError } from "@/utils/error";
+import { renderTemplate } from "@/utils/template";
+
+/**
+ * Confluence storage format. Every placeholder is already HTML, so the
+ * template uses the raw `{{{...}}}` form; see README "Postmortems".
+ */
+export const DEFAULT_POSTMORTEM_TEMPLATE = `<p><strong>Status:</strong> Draft · <strong>Services:</strong> {{{services}}} · <strong>Window:</strong> {{{window}}} ({{{duration}}})</p>
+<h2>Summary</h2>
+{{{summary}}}
+<h2>Impact</h2>
+<p><em>Who was affected, how badly and for how long.</em></p>
+<h2>Timeline</h2>
+{{{timeline}}}
+<h2>Root cause</h2>
+{{{rootCause}}}
+<h2>Triage findings</h2>
+{{{triage}}}
+<h2>Operator notes</h2>
+{{{notes}}}
+<h2>Action items</h2>
+{{{actions}}}
+<h2>Lessons learned</h2>
+<p><em>What went well, what went wrong and where we got lucky.</em></p>
+<p><a href="{{{runUrl}}}">Triage report</a></p>`;
+
+type PostmortemRun = Pick<
+  TriageRun,
+  | "id"
+  | "status"
+  | "provider"
+  | "evidence"
+  | "fixSuggestions"
+  | "followUpQuestion"
+  | "createdAt"
+  | "startedAt"
+  | "finishedAt"
+>;
+
+/** How long a claim on an incident's runs blocks other drafts. */
+const CLAIM_TTL_MS = 5 * 60_000;
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function formatTime(value: Date) {
+  return `${value.toISOString().slice(0, 16).replace("T", " ")} UTC`;
+}
+
+function formatDuration(ms: number) {
+  const minutes = Math.max(0, Math.round(ms / 60_000));
+  if (minutes < 60) return `${minutes}m`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+function list(items: string[], ordered = false) {
+  if (items.length === 0) return "<p><em>None recorded.</em></p>";
+  const tag = ordered ? "ol" : "ul";
+  return `<${tag}>${items.map((item) => `<li>${escapeHtml(item)}</li>`).join("")}</${tag}>`;
+}
+
+function codeMacro(code: string, language: string) {
+  // "]]>" would end the CDATA section early.
+  const body = code.replace(/]]>/g, "]]]]><![CDATA[>");
+  return `<ac:structured-macro ac:name="code"><ac:parameter ac:name="language">${language}</ac:parameter><ac:plain-text-body><![CDATA[${body}]]></ac:plain-text-body></ac:structured-macro>`;
+}
+
+function paragraphs(text?: string) {
+  const blocks = (text ?? "")
+    .split(/\n\s*\n/)
+    .map((block) => block.trim())
+    .filter(Boolean);
+  if (blocks.length === 0) return "<p><em>None recorded.</em></p>";
+  return blocks
+    .map((block) => `<p>${escapeHtml(block).replace(/\n/g, "<br />")}</p>`)
+    .join("");
+}
+
+/** Alert state changes and triage runs, oldest first, as a table. */
+function buildTimeline(alerts: AlertEvent[], runs: PostmortemRun[]) {
+  const entries: { at: Date; event: string }[] = [];
+  for (const alert of alerts) {
+    entries.push({
+      at: alert.overallStateModified ?? alert.createdAt,
+      event: `${alert.monitorName} went ${alert.monitorState}${alert.priority ? ` (P${alert.priority})` : ""}`,
+    });
+    if (alert.resolvedAt) {
+      entries.push({
+        at: alert.resolvedAt,
+        event: `${alert.monitorName} recovered`,
+      });
+    }
+  }
+  for (const run of runs) {
+    entries.push({
+      at: run.startedAt ?? run.createdAt,
+      event: run.followUpQuestion
+        ? `Follow-up asked: ${run.followUpQuestion}`
+        : `Triage started (${run.provider})`,
+    });
+    if (run.finishedAt) {
+      const title = (run.evidence as ReportEvidence | null)?.title;
+      entries.push({
+        at: run.finishedAt,
+        event: `Triage ${run.status}${title ? `: ${title}` : ""}`,
+      });
+    }
+  }
+  if (entries.length === 0) return "<p><em>No events recorded.</em></p>";
+  const rows = entries
+    .sort((a, b) => a.at.getTime() - b.at.getTime())
+    .map(
+      (entry) =>
+        `<tr><td>${formatTime(entry.at)}</td><td>${escapeHtml(entry.event)}</td></tr>`,
+    )
+    .join("");
+  return `<table><tbody><tr><th>Time</th><th>Event</th></tr>${rows}</tbody></table>`;
+}
+
+function buildRunSection(run: PostmortemRun) {
+  const evidence = run.evidence as ReportEvidence | null;
+  const fix = (run.fixSuggestions as FixSuggestion[] | null)?.[0];
+  return [
+    `<h3>${escapeHtml(evidence?.title ?? `Triage run ${run.id}`)}</h3>`,
+    `<p><em>${formatTime(run.createdAt)} · ${escapeHtml(run.provider)} · ${escapeHtml(run.status)}</em> · <a href="${escapeHtml(dashboardUrl(`/#run-${run.id}`))}">report</a></p>`,
+    run.followUpQuestion
+      ? `<p><strong>Question:</strong> ${escapeHtml(run.followUpQuestion)}</p>`
+      : null,
+    evidence?.summary ? paragraphs(evidence.summary) : null,
+    evidence?.likelyCauses.length
+      ? `<p><strong>Likely cause</strong></p>${list(evidence.likelyCauses)}`
+      : null,
+    fix?.diff
+      ? `<p><strong>Draft fix:</strong> ${escapeHtml(fix.title)}</p>${codeMacro(fix.diff, "diff")}`
+      : null,
+  ]
+    .filter(Boolean)
+    .join("");
+}
+
+function confluenceError(error: unknown) {
+  if (axios.isAxiosError(error) && error.response?.data) {
+    const data = error.response.data as { message?: string };
+    if (data.message) return data.message;
+  }
+  return formatError(error);
+}
+
+function confluenceConfig(teamId?: string | null) {
+  const baseUrl = envString("ATLASSIAN_BASE_URL").replace(/\/$/, "");
+  return {
+    baseUrl: baseUrl ? `${baseUrl}/wiki` : "",
+    user: envString("ATLASSIAN_USER") || envString("CONFLUENCE_USER"),
+    token:
+      getSecret("ATLASSIAN_TOKEN", teamId) ||
+      getSecret("CONFLUENCE_TOKEN", teamId),
+  };
+}
+
+/**
+ * Drafts a postmortem in Confluence from an incident's alerts, all of its
+ * triage runs and the operator's notes.
+ */
+export class PostmortemService {
+  constructor(private prisma: PrismaService) {}
+
+  private async template() {
+    const templatePath = envString("POSTMORTEM_TEMPLATE_PATH");
+    if (!templatePath) return DEFAULT_POSTMORTEM_TEMPLATE;
+    return fs.readFile(templatePath, "utf-8");
+  }
+
+  async createDraft(runId: string, options: { notes?: string } = {}) {
+    const run = await this.prisma.triageRun.findUnique({
+      where: { id: runId },
+      include: { alert: true, incident: true },
+    });
+    if (!run) return { error: "Run not found" };
+    const spaceKey = envString("CONFLUENCE_SPACE_KEY");
+    if (!spaceKey)
+      return { error: "Set CONFLUENCE_SPACE_KEY to draft postmortems" };
+    const config = confluenceConfig(run.teamId);
+    if (!config.baseUrl || !config.user || !config.token) {
+      return {
+        error:
+          "Missing Atlassian URL or credentials (ATLASSIAN_BASE_URL and ATLASSIAN_USER/TOKEN)",
+      };
+    }
+
+    const incidentId = run.incidentId ?? run.alert?.incidentId ?? null;
+    const incident =
+      run.incident ??
+      (incidentId
+        ? await this.prisma.incident.findUnique({ where: { id: incidentId } })
+        : null);
+    const alerts = incidentId
+      ? await this.prisma.alertEvent.findMany({
+          where: { incidentId },
+          orderBy: { createdAt: "asc" },
+        })
+      : run.alert
+        ? [run.alert]
+        : [];
+    const runFilters: Prisma.TriageRunWhereInput[] = [
+      { id: run.id },
+      { alertId: { in: alerts.map((alert) => alert.id) } },
+    ];
+    if (incidentId) runFilters.push({ incidentId });
+    const runs = await this.prisma.triageRun.findMany({
+      where: { OR: runFilters },
+      orderBy: { createdAt: "asc" },
+    });
+    const existing = runs.find((item) => item.postmortemUrl);
+    if (existing) {
+      return {
+        error: `A postmortem draft already exists: ${existing.postmortemUrl}`,
+      };
+    }
+
+    // The newest completed report speaks for the incident.
+    const latest = [...runs]
+      .reverse()
+      .find((item) => item.status === "complete" && item.evidence);
+    const evidence = latest?.evidence as ReportEvidence | null | undefined;
+    const title =
+      incident?.title ??
+      evidence?.title ??
+      run.alert?.monitorName ??
+      "Incident";
+    const startedAt =
+      incident?.firstAlertAt ??
+      run.alert?.overallStateModified ??
+      run.createdAt;
+    const endedAt =
+      incident?.resolvedAt ??
+      run.alert?.resolvedAt ??
+      alerts.reduce<Date | null>(
+        (last, alert) =>
+          alert.resolvedAt && (!last || alert.resolvedAt > last)
+            ? alert.resolvedAt
+            : last,
+        null,
+      );
+    const services = [
+      ...new Set(
+        alerts
+          .flatMap((alert) => [alert.service, alert.environment])
+          .filter((value): value is string => Boolean(value)),
+      ),
+    ];
+
+    // Claim every run of the incident so neither a second click nor a
+    // request from another of its runs publishes a second page. A claim
+    // left by a crashed request expires after CLAIM_TTL_MS.
+    const runIds = runs.map((item) => item.id);
+    const claimedAt = new Date();
+    const claimed = await this.prisma.triageRun.updateMany({
+      where: {
+        id: { in: runIds },
+        postmortemUrl: null,
+        OR: [
+          { postmortemClaimedAt: null },
+          {
+            postmortemClaimedAt: {
+              lt: new Date(claimedAt.getTime() - CLAIM_TTL_MS),
+            },
+          },
+        ],
+      },
+      data: { postmortemClaimedAt: claimedAt },
+    });
+    if (claimed.count < runIds.length) {
+      await this.release(runIds, claimedAt);
+      return {
+        error: "A postmortem draft is already being created for this incident",
+      };
+    }
+
+    let body: string;
+    try {
+      body = renderTemplate(await this.template(), {
+        title: escapeHtml(title),
+        services: escapeHtml(services.join(", ") || "unknown"),
+        window: `${formatTime(startedAt)} – ${endedAt ? formatTime(endedAt) : "ongoing"}`,
+        duration: endedAt
+          ? formatDuration(endedAt.getTime() - startedAt.getTime())
+          : "unresolved",
+        summary: paragraphs(evidence?.summary),
+        timeline: buildTimeline(alerts, runs),
+        rootCause: list(evidence?.likelyCauses ?? []),
+        triage: runs.map(buildRunSection).join(""),
+        notes: paragraphs(options.notes),
+        actions: list(
+          [
+            ...(evidence?.immediateActions ?? []),
+            ...(evidence?.nextChecks ?? []),
+          ],
+          true,
+        ),
+        runUrl: escapeHtml(dashboardUrl(`/#run-${run.id}`)),
+      });
+    } catch (error) {
+      await this.release(runIds, claimedAt);
+      return {
+        error: `Could not read the postmortem template: ${formatError(error)}`,
+      };
+    }
+
+    const pageTitle = `Postmortem: ${title} (${startedAt.toISOString().slice(0, 10)})`;
+    const parentId = envString("CONFLUENCE_PARENT_PAGE_ID");
+    let url: string;
+    let pageId: string;
+    try {
+      const response = await axios.post(
+        `${config.baseUrl}/rest/api/content`,
+        {
+          type: "page",
+          status: "draft",
+          title: pageTitle.replace(/\s+/g, " ").slice(0, 255),
+          space: { key: spaceKey },
+          ...(parentId ? { ancestors: [{ id: parentId }] } : {}),
+          body: { storage: { value: body, representation: "storage" } },
+        },
+        {
+          auth: { username: config.user, password: config.token },
+          timeout: envNumber("CONFLUENCE_TIMEOUT_MS", 15_000),
+        },
+      );
+      pageId = String(response.data?.id);
+      const links = response.data?._links ?? {};
+      url =
+        links.base && links.webui
+          ? `${links.base}${links.webui}`
+          : `${config.baseUrl}/pages/resumedraft.action?draftId=${pageId}`;
+    } catch (error) {
+      await this.release(runIds, claimedAt);
+      return { error: `Confluence draft failed: ${confluenceError(error)}` };
+    }
+
+    try {
+      await this.prisma.triageRun.update({
+        where: { id: run.id },
+        data: { postmortemUrl: url },
+      });
+    } catch (error) {
+      // The page exists; hand back its URL rather than lose track of it.
+      // The claim holds off retries until it expires.
+      return {
+        error: `Drafted ${url} but could not save it on the run: ${formatError(error)}`,
+        url,
+        pageId,
+        title: pageTitle,
+      };
+    }
+    await this.release(runIds, claimedAt);
+    return { url, pageId, title: pageTitle };
+  }
+
+  /** Drops this request's claim on the incident's runs. */
+  private async release(runIds: string[], claimedAt: Date) {
+    await this.prisma.triageRun
+      .updateMany({
+        where: { id: { in: runIds }, postmortemClaimedAt: claimedAt },
+        data: { postmortemClaimedAt: null },
+      })
+      .catch((error) =>
+        console.warn(
+          `[Postmortem] Could not release the claim on ${runIds.length} run(s): ${formatError(error)}`,
+        ),
+      );
+  }
+}
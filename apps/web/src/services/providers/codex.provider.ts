@@ -1,7 +1,139 @@
-import { ProviderResult, TriageProvider, AlertContext } from "@/triage/types";
+import {
+  ProgressEvent,
+  ProviderResult,
+  TokenUsage,
+  TriageProvider,
+  AlertContext,
+} from "@/triage/types";
 import { spawn } from "child_process";
 import { existsSync, readFileSync } from "fs";
 import path from "path";
+import { jsonLineProgress, summarizeInput } from "./progress";
+
+interface CodexEvent {
+  type?: string;
+  item?: {
+    type?: string;
+    text?: string;
+    command?: string;
+    server?: string;
+    tool?: string;
+    arguments?: unknown;
+    query?: string;
+    changes?: { path?: string }[];
+    message?: string;
+  };
+  /** Older builds wrap each event in `msg`. */
+  msg?: {
+    type?: string;
+    message?: string;
+    command?: string[];
+    invocation?: { server?: string; tool?: string; arguments?: unknown };
+  };
+  message?: string;
+}
+
+/** What a `codex exec --json` event says about the investigation so far. */
+function codexProgress(event: CodexEvent): ProgressEvent | null {
+  const item = event.item;
+  if (item && event.type === "item.started") {
+    if (item.type === "command_execution" && item.command) {
+      return { kind: "command", text: item.command };
+    }
+    if (item.type === "mcp_tool_call" && item.tool) {
+      return {
+        kind: "tool",
+        text: [item.server, item.tool].filter(Boolean).join("."),
+        detail: summarizeInput(item.arguments),
+      };
+    }
+    if (item.type === "web_search") {
+      return { kind: "tool", text: "web_search", detail: item.query };
+    }
+  }
+  if (item && event.type === "item.completed") {
+    // Agent messages are whole; keep them apart once merged.
+    if (item.type === "agent_message" && item.text) {
+      return { kind: "text", text: `${item.text}\n\n` };
+    }
+    if (item.type === "reasoning" && item.text) {
+      return { kind: "status", text: item.text };
+    }
+    if (item.type === "file_change") {
+      return {
+        kind: "tool",
+        text: "file_change",
+        detail: item.changes?.map((change) => change.path).join(", "),
+      };
+    }
+    if (item.type === "error" && item.message) {
+      return {
+        kind: "status",
+        text: "Codex reported an error",
+        detail: item.message,
+      };
+    }
+  }
+  const msg = event.msg;
+  if (msg?.type === "exec_command_begin" && msg.command?.length) {
+    return { kind: "command", text: msg.command.join(" ") };
+  }
+  if (msg?.type === "mcp_tool_call_begin" && msg.invocation?.tool) {
+    return {
+      kind: "tool",
+      text: [msg.invocation.server, msg.invocation.tool]
+        .filter(Boolean)
+        .join("."),
+      detail: summarizeInput(msg.invocation.arguments),
+    };
+  }
+  if (msg?.type === "agent_message" && msg.message) {
+    return { kind: "text", text: `${msg.message}\n\n` };
+  }
+  if (event.type === "error" || msg?.type === "error") {
+    const message = event.message ?? msg?.message;
+    return { kind: "status", text: "Codex reported an error", detail: message };
+  }
+  return null;
+}
+
+/**
+ * Sums the `turn.completed` usage of `codex exec --json`; older builds only
+ * report running totals in `token_count` events. Input includes cached tokens.
+ */
+function parseUsage(output: string): TokenUsage | undefined {
+  let usage: TokenUsage | undefined;
+  let totals: { input_tokens?: number; output_tokens?: number } | undefined;
+  let model: string | undefined;
+  for (const line of output.split("\n")) {
+    const trimmed = line.trim();
+    if (!trimmed) continue;
+    try {
+      const obj = JSON.parse(trimmed);
+      if (obj.type === "turn.completed" && obj.usage) {
+        usage = {
+          inputTokens:
+            (usage?.inputTokens ?? 0) + (obj.usage.input_tokens ?? 0),
+          outputTokens:
+            (usage?.outputTokens ?? 0) + (obj.usage.output_tokens ?? 0),
+        };
+      }
+      if (obj.msg?.type === "token_count") {
+        totals = obj.msg.info?.total_token_usage ?? obj.msg;
+      }
+      if (obj.msg?.type === "session_configured") model = obj.msg.model;
+    } catch {
+      continue;
+    }
+  }
+  if (!usage && totals) {
+    usage = {
+      inputTokens: totals.input_tokens ?? 0,
+      outputTokens: totals.output_tokens ?? 0,
+    };
+  }
+  return usage && { ...usage, model };
+}
 
 function parseSessionId(output: string) {
   const lines = output.split("\n");
@@ -37,8 +169,12 @@ export class CodexProvider implements TriageProvider {
     alertContext: AlertContext;
     attachments: string[];
     workingDir: string;
+    signal?: AbortSignal;
+    env?: Record<string, string>;
+    onProgress?: (event: ProgressEvent) => void;
   }): Promise<ProviderResult> {
-    const { runId, prompt, attachments, workingDir } = params;
+    const { runId, prompt, attachments, workingDir, signal, env, onProgress } =
+      params;
     let capturedStdout = "";
     const timeoutMs = Number(
       process.env.TRIAGE_PROVIDER_TIMEOUT_MS ?? 1_200_000,
@@ -86,6 +222,7 @@ export class CodexProvider implements TriageProvider {
           cwd: workingDir,
           env: {
             ...process.env,
+            ...env,
             CODEX_ALLOW_NETWORK: "true",
             CODEX_ALLOW_FILESYSTEM: "true",
           },
@@ -136,9 +273,22 @@ export class CodexProvider implements TriageProvider {
           );
         }, timeoutMs);
 
-        child.stdout.on("data", (chunk) =>
-          stdoutChunks.push(Buffer.from(chunk)),
-        );
+        const onAbort = () => {
+          clearTimeout(timeout);
+          clearInterval(heartbeat);
+          console.log(`[${runId}] Codex run cancelled, killing process`);
+          child.kill("SIGTERM");
+          setTimeout(() => child.kill("SIGKILL"), 3_000);
+          reject(new Error("codex run cancelled"));
+        };
+        if (signal?.aborted) onAbort();
+        else signal?.addEventListener("abort", onAbort, { once: true });
+
+        const reportProgress = jsonLineProgress(codexProgress, onProgress);
+        child.stdout.on("data", (chunk) => {
+          stdoutChunks.push(Buffer.from(chunk));
+          reportProgress(chunk);
+        });
         child.stderr.on("data", (chunk) => {
           const text = chunk.toString().trim();
           if (text) {
@@ -160,6 +310,7 @@ export class CodexProvider implements TriageProvider {
         child.on("close", (code) => {
           clearTimeout(timeout);
           clearInterval(heartbeat);
+          signal?.removeEventListener("abort", onAbort);
           const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
           const stdout = Buffer.concat(stdoutChunks).toString();
           const stderr = Buffer.concat(stderrChunks).toString();
@@ -183,13 +334,15 @@ export class CodexProvider implements TriageProvider {
         });
       });
 
+    let model = this.model;
     try {
       await runCodex(true);
     } catch (error) {
-      if (this.allowFallback && this.model) {
+      if (this.allowFallback && this.model && !signal?.aborted) {
         console.log(
           `[${runId}] Codex failed with model ${this.model}, retrying without model flag...`,
         );
+        model = undefined;
         await runCodex(false);
       } else {
         throw error;
@@ -212,11 +365,17 @@ export class CodexProvider implements TriageProvider {
     const sessionId = capturedStdout
       ? parseSessionId(capturedStdout)
       : undefined;
+    const usage = parseUsage(capturedStdout);
 
     console.log(
-      `[${runId}] Codex final: report=${reportMarkdown.length} chars, sessionId=${sessionId ?? "(none)"}`,
+      `[${runId}] Codex final: report=${reportMarkdown.length} chars, sessionId=${sessionId ?? "(none)"}, tokens=${usage ? `${usage.inputTokens}/${usage.outputTokens}` : "(unknown)"}`,
     );
 
-    return { reportMarkdown, sessionId, rawOutput: capturedStdout };
+    return {
+      reportMarkdown,
+      sessionId,
+      rawOutput: capturedStdout,
+      usage: usage && { ...usage, model: usage.model ?? model },
+    };
   }
 }
@@ -0,0 +1,52 @@
+import { FailoverReason } from "@/triage/types";
+import { envString } from "@/utils/env";
+import { formatError } from "@/utils/error";
+
+export const PROVIDER_NAMES = ["opencode", "codex", "http", "mock"] as const;
+
+// An unreachable HTTP provider counts as one that could not start.
+const SPAWN_ERRORS = new Set([
+  "ENOENT",
+  "EACCES",
+  "ENOEXEC",
+  "ECONNREFUSED",
+  "ENOTFOUND",
+]);
+
+function names(value: string) {
+  return value
+    .split(",")
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/**
+ * The run's provider followed by `PROVIDER_FALLBACKS`, without duplicates.
+ * Unknown names are dropped so a typo can't silently fall through to mock.
+ */
+export function providerChain(primary: string) {
+  return [primary, ...names(envString("PROVIDER_FALLBACKS"))].filter(
+    (name, index, all) =>
+      all.indexOf(name) === index &&
+      (index === 0 || (PROVIDER_NAMES as readonly string[]).includes(name)),
+  );
+}
+
+/** Failures that hand over to the next provider (`PROVIDER_FAILOVER_ON`). */
+export function failoverRules() {
+  return new Set(
+    names(envString("PROVIDER_FAILOVER_ON", "spawn,timeout,empty")),
+  ) as Set<FailoverReason>;
+}
+
+export function failoverReason(error: unknown): FailoverReason {
+  const { code, syscall } = (error ?? {}) as {
+    code?: string;
+    syscall?: string;
+  };
+  if ((code && SPAWN_ERRORS.has(code)) || syscall?.startsWith("spawn")) {
+    return "spawn";
+  }
+  if (/timed out/i.test(formatError(error))) return "timeout";
+  return "error";
+}
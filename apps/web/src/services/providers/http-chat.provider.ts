@@ -0,0 +1,335 @@
+import axios from "axios";
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import path from "path";
+import { Readable } from "stream";
+import {
+  AlertContext,
+  ProgressEvent,
+  ProviderResult,
+  TokenUsage,
+  ToolCallRecord,
+  TriageProvider,
+} from "@/triage/types";
+import { formatError } from "@/utils/error";
+import { RUN_COMMAND_TOOL, ToolSandbox } from "./tool-sandbox";
+
+interface ChatToolCall {
+  id: string;
+  type: "function";
+  function: { name: string; arguments: string };
+}
+
+interface ChatUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+}
+
+interface ChatMessage {
+  role: "system" | "user" | "assistant" | "tool";
+  content: string | null;
+  tool_calls?: ChatToolCall[];
+  tool_call_id?: string;
+}
+
+async function readStream(stream: Readable) {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) chunks.push(Buffer.from(chunk));
+  return Buffer.concat(chunks).toString();
+}
+
+/** Yields the `data:` payloads of a server-sent event stream. */
+async function* sseData(stream: Readable) {
+  let buffer = "";
+  for await (const chunk of stream) {
+    buffer += Buffer.from(chunk).toString();
+    const lines = buffer.split(/\r?\n/);
+    buffer = lines.pop() ?? "";
+    for (const line of lines) {
+      if (line.startsWith("data:")) yield line.slice(5).trim();
+    }
+  }
+  if (buffer.startsWith("data:")) yield buffer.slice(5).trim();
+}
+
+/** One assistant turn, from an event stream or a plain JSON body. */
+async function readTurn(
+  response: { data: Readable; headers: object },
+  onText?: (text: string) => void,
+) {
+  const headers = response.headers as Record<string, unknown>;
+  if (!String(headers["content-type"] ?? "").includes("text/event-stream")) {
+    // Some servers ignore `stream` and answer with one JSON body.
+    const body = JSON.parse(await readStream(response.data));
+    const message = body.choices?.[0]?.message ?? {};
+    if (message.content) onText?.(message.content);
+    return {
+      content: (message.content ?? "") as string,
+      toolCalls: (message.tool_calls ?? []) as ChatToolCall[],
+      usage: body.usage as ChatUsage | undefined,
+      model: body.model as string | undefined,
+    };
+  }
+  let content = "";
+  const toolCalls: ChatToolCall[] = [];
+  let usage: ChatUsage | undefined;
+  let model: string | undefined;
+  for await (const data of sseData(response.data)) {
+    if (data === "[DONE]") break;
+    const chunk = JSON.parse(data);
+    // With `include_usage`, the last chunk carries usage and no choices.
+    usage = chunk.usage ?? usage;
+    model = chunk.model ?? model;
+    const delta = chunk.choices?.[0]?.delta ?? {};
+    content += delta.content ?? "";
+    if (delta.content) onText?.(delta.content);
+    // Tool calls arrive in fragments keyed by index.
+    for (const fragment of delta.tool_calls ?? []) {
+      const call = (toolCalls[fragment.index ?? 0] ??= {
+        id: "",
+        type: "function",
+        function: { name: "", arguments: "" },
+      });
+      if (fragment.id) call.id = fragment.id;
+      call.function.name += fragment.function?.name ?? "";
+      call.function.arguments += fragment.function?.arguments ?? "";
+    }
+  }
+  return { content, toolCalls: toolCalls.filter(Boolean), usage, model };
+}
+
+/** Keeps `code` (e.g. ECONNREFUSED) so provider failover can classify it. */
+async function requestError(error: unknown) {
+  let message = formatError(error);
+  if (axios.isAxiosError(error) && error.response) {
+    const body = await readStream(error.response.data as Readable).catch(
+      () => "",
+    );
+    let detail = body;
+    try {
+      detail = JSON.parse(body).error?.message ?? body;
+    } catch {
+      // Not JSON; keep the raw body.
+    }
+    message = `HTTP ${error.response.status}: ${String(detail).slice(0, 500)}`;
+  }
+  return Object.assign(new Error(`http provider request failed: ${message}`), {
+    code: (error as { code?: string }).code,
+  });
+}
+
+/**
+ * Streams a report from any OpenAI-compatible `/chat/completions` endpoint
+ * (vLLM, llama.cpp, Ollama, ...) from `prompt.txt` and `alert.json`. With a
+ * sandbox, the model can call `run_command` until it writes the report.
+ */
+export class HttpChatProvider implements TriageProvider {
+  constructor(
+    private readonly baseUrl: string,
+    private readonly model?: string,
+    private readonly maxTokens?: number,
+    private readonly tools?: ToolSandbox,
+  ) {}
+
+  async run(params: {
+    runId: string;
+    prompt: string;
+    alertContext: AlertContext;
+    attachments: string[];
+    workingDir: string;
+    signal?: AbortSignal;
+    env?: Record<string, string>;
+    onProgress?: (event: ProgressEvent) => void;
+  }): Promise<ProviderResult> {
+    const {
+      runId,
+      prompt,
+      alertContext,
+      attachments,
+      workingDir,
+      signal,
+      env,
+      onProgress,
+    } = params;
+    if (!this.baseUrl) throw new Error("HTTP_PROVIDER_URL is not set");
+    const timeoutMs = Number(
+      process.env.TRIAGE_PROVIDER_TIMEOUT_MS ?? 1_200_000,
+    );
+    const apiKey =
+      env?.HTTP_PROVIDER_API_KEY || process.env.HTTP_PROVIDER_API_KEY;
+
+    const attachment = (name: string) => {
+      const file = attachments.find((item) => path.basename(item) === name);
+      return file && existsSync(file) ? readFileSync(file, "utf-8") : null;
+    };
+    const alertJson = attachment("alert.json");
+    const messages: ChatMessage[] = [
+      { role: "system", content: attachment("prompt.txt") ?? prompt },
+      {
+        role: "user",
+        content: [
+          alertJson ? `alert.json:\n\`\`\`json\n${alertJson}\n\`\`\`` : null,
+          this.tools
+            ? [
+                "Investigate with the run_command tool before writing the report.",
+                `Allowed commands: ${this.tools.describe()}.`,
+                `Commands run in the run directory unless you pass cwd${alertContext.repoPath ? `; the repository is at ${alertContext.repoPath}` : ""}.`,
+                "When you are done, reply with only the Markdown report.",
+              ].join(" ")
+            : "You cannot run commands in this session. Base the report on the context above, say which checks could not be run, and reply with only the Markdown report.",
+        ]
+          .filter(Boolean)
+          .join("\n\n"),
+      },
+    ];
+    const transcript: ToolCallRecord[] = [];
+    let usage: TokenUsage | undefined;
+
+    const controller = new AbortController();
+    let timedOut = false;
+    const timeout = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+    const onAbort = () => controller.abort();
+    if (signal?.aborted) onAbort();
+    else signal?.addEventListener("abort", onAbort, { once: true });
+
+    const url = `${this.baseUrl.replace(/\/$/, "")}/chat/completions`;
+    const startTime = Date.now();
+    console.log(
+      `[${runId}] HTTP provider streaming from ${url} (model: ${this.model ?? "server default"}, timeout: ${timeoutMs / 1000}s)`,
+    );
+
+    let reportMarkdown = "";
+    try {
+      for (let step = 0; ; step++) {
+        const offerTools = Boolean(
+          this.tools && step < this.tools.options.maxSteps,
+        );
+        if (this.tools && !offerTools) {
+          messages.push({
+            role: "user",
+            content:
+              "The tool budget is used up. Write the final Markdown report now.",
+          });
+        }
+        const response = await axios.post(
+          url,
+          {
+            ...(this.model ? { model: this.model } : {}),
+            messages,
+            stream: true,
+            stream_options: { include_usage: true },
+            ...(offerTools ? { tools: [RUN_COMMAND_TOOL] } : {}),
+            ...(this.maxTokens ? { max_tokens: this.maxTokens } : {}),
+          },
+          {
+            headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+            responseType: "stream",
+            signal: controller.signal,
+          },
+        );
+        const turn = await readTurn(response, (text) =>
+          onProgress?.({ kind: "text", text }),
+        );
+        if (turn.usage) {
+          usage = {
+            inputTokens:
+              (usage?.inputTokens ?? 0) + (turn.usage.prompt_tokens ?? 0),
+            outputTokens:
+              (usage?.outputTokens ?? 0) + (turn.usage.completion_tokens ?? 0),
+            model: turn.model ?? this.model,
+          };
+        }
+        if (!offerTools || turn.toolCalls.length === 0) {
+          reportMarkdown = turn.content;
+          break;
+        }
+
+        const toolCalls = turn.toolCalls.map((call, index) => ({
+          ...call,
+          id: call.id || `call_${step}_${index}`,
+        }));
+        messages.push({
+          role: "assistant",
+          content: turn.content || null,
+          tool_calls: toolCalls,
+        });
+        for (const call of toolCalls) {
+          const record = await this.runTool(call, {
+            workingDir,
+            repoPath: alertContext.repoPath,
+            env,
+            signal: controller.signal,
+          });
+          transcript.push(record);
+          onProgress?.({
+            kind: "command",
+            text: record.command.join(" ") || call.function.name,
+            detail: record.error ?? `exit ${record.exitCode}`,
+          });
+          console.log(
+            `[${runId}] Tool ${record.command.join(" ") || call.function.name} → ${record.error ?? `exit ${record.exitCode}`} (${record.durationMs}ms)`,
+          );
+          messages.push({
+            role: "tool",
+            tool_call_id: call.id,
+            content: record.error
+              ? `Error: ${record.error}${record.output ? `\n${record.output}` : ""}`
+              : `Exit code ${record.exitCode}\n${record.output}`,
+          });
+        }
+      }
+    } catch (error) {
+      const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
+      if (timedOut) {
+        throw new Error(
+          `http provider timed out after ${timeoutMs}ms (${elapsed}s elapsed, ${transcript.length} tool calls)`,
+        );
+      }
+      if (signal?.aborted) throw new Error("http provider run cancelled");
+      throw await requestError(error);
+    } finally {
+      clearTimeout(timeout);
+      signal?.removeEventListener("abort", onAbort);
+    }
+
+    const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
+    console.log(
+      `[${runId}] HTTP provider finished in ${elapsed}s: report=${reportMarkdown.length} chars, ${transcript.length} tool calls`,
+    );
+    writeFileSync(path.join(workingDir, "http_report.md"), reportMarkdown);
+    if (!this.tools) return { reportMarkdown, usage };
+
+    writeFileSync(
+      path.join(workingDir, "tool_transcript.json"),
+      JSON.stringify(transcript, null, 2),
+    );
+    return { reportMarkdown, toolTranscript: transcript, usage };
+  }
+
+  private async runTool(
+    call: ChatToolCall,
+    context: Parameters<ToolSandbox["run"]>[1],
+  ): Promise<ToolCallRecord> {
+    const refused = (error: string): ToolCallRecord => ({
+      command: [],
+      cwd: context.workingDir,
+      startedAt: new Date().toISOString(),
+      durationMs: 0,
+      exitCode: null,
+      output: "",
+      error,
+    });
+    if (call.function.name !== RUN_COMMAND_TOOL.function.name) {
+      return refused(`Unknown tool ${call.function.name}`);
+    }
+    let args: { command?: unknown; cwd?: unknown };
+    try {
+      args = JSON.parse(call.function.arguments || "{}");
+    } catch {
+      return refused("Arguments must be a JSON object");
+    }
+    return this.tools!.run(args, context);
+  }
+}
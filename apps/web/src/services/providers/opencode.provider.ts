@@ -2,7 +2,13 @@ import { spawn, execFile } from "child_process";
 import { promisify } from "util";
 import { basename } from "path";
 import * as fs from "fs/promises";
-import { ProviderResult, TriageProvider } from "@/triage/types";
+import {
+  ProgressEvent,
+  ProviderResult,
+  TokenUsage,
+  TriageProvider,
+} from "@/triage/types";
+import { jsonLineProgress, summarizeInput } from "./progress";
 
 const execFileAsync = promisify(execFile);
 
@@ -12,6 +18,19 @@ interface JsonObject {
     type?: string;
     text?: string;
     sessionID?: string;
+    tool?: string;
+    state?: {
+      status?: string;
+      title?: string;
+      input?: Record<string, unknown>;
+      metadata?: { exit?: number };
+    };
+    tokens?: {
+      input?: number;
+      output?: number;
+      reasoning?: number;
+      cache?: { read?: number; write?: number };
+    };
   };
   role?: string;
   content?: string | Array<{ text?: string; [key: string]: unknown }>;
@@ -121,12 +140,46 @@ function extractTextFromObj(obj: JsonObject | null): string | null {
   return null;
 }
 
+/** What a `run --format json` event says about the investigation so far. */
+function openCodeProgress(obj: JsonObject): ProgressEvent | null {
+  const part = obj.part;
+  if (part?.type === "tool" && part.tool) {
+    const input = part.state?.input ?? {};
+    if (part.tool === "bash" && typeof input.command === "string") {
+      const exit = part.state?.metadata?.exit;
+      return {
+        kind: "command",
+        text: input.command,
+        detail: exit === undefined ? part.state?.status : `exit ${exit}`,
+      };
+    }
+    return {
+      kind: "tool",
+      text: part.tool,
+      detail: part.state?.title ?? summarizeInput(input),
+    };
+  }
+  // Text parts are whole messages; keep them apart once merged.
+  if (part?.type === "text" && part.text) {
+    return { kind: "text", text: `${part.text}\n\n` };
+  }
+  if (obj.type === "error" || obj.type === "step_error") {
+    return {
+      kind: "status",
+      text: "OpenCode reported an error",
+      detail: summarizeInput(obj.error ?? obj.part),
+    };
+  }
+  return null;
+}
+
 function parseJsonLines(output: string) {
   const lines = output.split("\n");
   let sessionId: string | undefined;
   const assistantParts: string[] = [];
   let linesParsed = 0;
   let linesWithText = 0;
+  let usage: TokenUsage | undefined;
   const debugSample: string[] = []; // Store first few parsed objects for debugging
 
   for (const line of lines) {
@@ -151,6 +204,23 @@ function parseJsonLines(output: string) {
         obj?.sessionID;
     }
 
+    // Each step reports its own tokens; cached input and reasoning are billed
+    // as input and output.
+    const tokens = obj?.part?.tokens;
+    if (obj?.type === "step_finish" && tokens) {
+      usage = {
+        inputTokens:
+          (usage?.inputTokens ?? 0) +
+          (tokens.input ?? 0) +
+          (tokens.cache?.read ?? 0) +
+          (tokens.cache?.write ?? 0),
+        outputTokens:
+          (usage?.outputTokens ?? 0) +
+          (tokens.output ?? 0) +
+          (tokens.reasoning ?? 0),
+      };
+    }
+
     // Extract text if available, will return null for metadata
     const text = extractTextFromObj(obj);
     if (text) {
@@ -178,7 +248,7 @@ function parseJsonLines(output: string) {
     console.log(`[parseJsonLines] Sample parts: ${debugSample.join(" | ")}`);
   }
 
-  return { sessionId, assistantText };
+  return { sessionId, assistantText, usage };
 }
 
 export class OpenCodeProvider implements TriageProvider {
@@ -194,8 +264,12 @@ export class OpenCodeProvider implements TriageProvider {
     alertContext: Record<string, unknown>;
     attachments: string[];
     workingDir: string;
+    signal?: AbortSignal;
+    env?: Record<string, string>;
+    onProgress?: (event: ProgressEvent) => void;
   }): Promise<ProviderResult> {
-    const { runId, prompt, attachments, workingDir } = params;
+    const { runId, prompt, attachments, workingDir, signal, env, onProgress } =
+      params;
     const title = `Triage ${basename(workingDir)} ${new Date().toISOString()}`;
     const timeoutMs = Number(
       process.env.TRIAGE_PROVIDER_TIMEOUT_MS ?? 1_200_000,
@@ -254,6 +328,7 @@ export class OpenCodeProvider implements TriageProvider {
         cwd: workingDir,
         env: {
           ...process.env,
+          ...env,
           OPENCODE_SERVER_USERNAME: undefined,
           OPENCODE_SERVER_PASSWORD: undefined,
           OPENCODE: undefined,
@@ -301,8 +376,21 @@ export class OpenCodeProvider implements TriageProvider {
         );
       }, timeoutMs);
 
+      const onAbort = () => {
+        clearTimeout(timeout);
+        clearInterval(heartbeat);
+        console.log(`[${runId}] OpenCode run cancelled, killing process`);
+        child.kill("SIGTERM");
+        setTimeout(() => child.kill("SIGKILL"), 3_000);
+        reject(new Error("opencode run cancelled"));
+      };
+      if (signal?.aborted) onAbort();
+      else signal?.addEventListener("abort", onAbort, { once: true });
+
+      const reportProgress = jsonLineProgress(openCodeProgress, onProgress);
       child.stdout.on("data", (chunk) => {
         stdoutChunks.push(Buffer.from(chunk));
+        reportProgress(chunk);
       });
 
       child.stderr.on("data", (chunk) => {
@@ -327,6 +415,7 @@ export class OpenCodeProvider implements TriageProvider {
       child.on("close", (code) => {
         clearTimeout(timeout);
         clearInterval(heartbeat);
+        signal?.removeEventListener("abort", onAbort);
         const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
 
         if (code === 0) {
@@ -359,7 +448,7 @@ export class OpenCodeProvider implements TriageProvider {
       console.log(`[${runId}] First 5 JSON lines:\n${firstLines}`);
     }
 
-    const { sessionId, assistantText } = parseJsonLines(stdout);
+    const { sessionId, assistantText, usage } = parseJsonLines(stdout);
 
     const webBase = process.env.OPENCODE_WEB_URL || "";
     console.log(
@@ -483,6 +572,7 @@ export class OpenCodeProvider implements TriageProvider {
       sessionId,
       sessionUrl,
       rawOutput: stdout,
+      usage: usage && { ...usage, model: this.model },
     };
   }
 }
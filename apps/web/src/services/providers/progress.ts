@@ -0,0 +1,36 @@
+import { ProgressEvent } from "@/triage/types";
+
+/**
+ * A stdout `data` handler for CLIs that print one JSON event per line:
+ * each complete line goes through `parse` and whatever it returns is
+ * reported. Lines that are not JSON, or that `parse` chokes on, are skipped.
+ */
+export function jsonLineProgress<T>(
+  parse: (event: T) => ProgressEvent | null,
+  onProgress?: (event: ProgressEvent) => void,
+) {
+  let pending = "";
+  return (chunk: Buffer | string) => {
+    if (!onProgress) return;
+    pending += chunk.toString();
+    const lines = pending.split("\n");
+    pending = lines.pop() ?? "";
+    for (const line of lines) {
+      if (!line.trim().startsWith("{")) continue;
+      let event: ProgressEvent | null;
+      try {
+        event = parse(JSON.parse(line) as T);
+      } catch {
+        continue;
+      }
+      if (event) onProgress(event);
+    }
+  };
+}
+
+/** A tool's arguments on one short line. */
+export function summarizeInput(input: unknown) {
+  if (input === undefined || input === null) return undefined;
+  const text = typeof input === "string" ? input : JSON.stringify(input);
+  return text.length > 300 ? `${text.slice(0, 300)}…` : text;
+}
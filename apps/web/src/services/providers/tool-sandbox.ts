@@ -0,0 +1,264 @@
+import { execFile } from "child_process";
+import { existsSync, realpathSync } from "fs";
+import os from "os";
+import path from "path";
+import { ToolCallRecord } from "@/triage/types";
+import { formatError } from "@/utils/error";
+
+/**
+ * Read-only commands the triage prompt asks for, matched on leading words.
+ * `git branch` and `git tag` are left out: given a name they create a ref.
+ */
+export const DEFAULT_TOOL_ALLOWLIST = [
+  "git log",
+  "git show",
+  "git diff",
+  "git blame",
+  "git status",
+  "git ls-files",
+  "git grep",
+  "gh pr list",
+  "gh pr view",
+  "gh pr diff",
+  "gh issue list",
+  "gh issue view",
+  "gh run list",
+  "gh run view",
+  "gh release list",
+  "kubectl get",
+  "kubectl describe",
+  "kubectl logs",
+  "kubectl top",
+  "kubectl rollout history",
+  "kubectl rollout status",
+  "rg",
+  "ls",
+  "datadog logs query",
+  "datadog monitor show",
+  "confluence search",
+  "jira search",
+];
+
+/**
+ * Flags that would let an allowed command write files, run other programs
+ * (`git diff --output`, `rg --pre`) or never return, keyed by the leading
+ * words they apply to.
+ */
+const DENIED_FLAGS: Record<string, string[]> = {
+  git: ["--output", "--ext-diff"],
+  "git grep": ["-O", "--open-files-in-pager"],
+  rg: ["--pre", "--pre-glob"],
+  gh: ["--web", "-w"],
+  kubectl: ["--kubeconfig", "--follow", "-f"],
+};
+
+export const RUN_COMMAND_TOOL = {
+  type: "function",
+  function: {
+    name: "run_command",
+    description:
+      "Run one allowlisted, read-only command and return its output. There is no shell: no pipes, redirects, globs or variables.",
+    parameters: {
+      type: "object",
+      properties: {
+        command: {
+          type: "array",
+          items: { type: "string" },
+          description: 'The argv, e.g. ["git", "log", "--oneline", "-20"]',
+        },
+        cwd: {
+          type: "string",
+          description:
+            "Where to run: the run directory (default) or a directory inside the alert's repository (repoPath)",
+        },
+      },
+      required: ["command"],
+    },
+  },
+} as const;
+
+export interface ToolSandboxOptions {
+  /** Leading words of each allowed command, e.g. `git log`. */
+  allowlist: string[];
+  timeoutMs: number;
+  /** Output beyond this is cut before it reaches the model. */
+  maxOutputChars: number;
+  /** Model turns before it must write the report. */
+  maxSteps: number;
+}
+
+/** Splits `git log --since="2 days ago"` the way a shell would, minus expansion. */
+function splitCommand(command: string) {
+  return [...command.matchAll(/"([^"]*)"|'([^']*)'|(\S+)/g)].map(
+    (match) => match[1] ?? match[2] ?? match[3],
+  );
+}
+
+function startsWith(argv: string[], entry: string) {
+  return entry.split(/\s+/).every((word, index) => argv[index] === word);
+}
+
+/** Long flags match exactly or with `=value`; short ones anywhere in a cluster. */
+function deniedFlag(arg: string, flags: string[]) {
+  return flags.find((flag) =>
+    flag.startsWith("--")
+      ? arg === flag || arg.startsWith(`${flag}=`)
+      : !arg.startsWith("--") &&
+        /^-[A-Za-z]/.test(arg) &&
+        /^-[A-Za-z]*/.exec(arg)![0].includes(flag.slice(1)),
+  );
+}
+
+function isInside(root: string, target: string) {
+  const relative = path.relative(root, target);
+  return (
+    relative === "" ||
+    (!relative.startsWith("..") && !path.isAbsolute(relative))
+  );
+}
+
+/** `realpath` of the deepest existing ancestor, so symlinks can't escape. */
+function resolveReal(target: string) {
+  let existing = target;
+  while (!existsSync(existing) && path.dirname(existing) !== existing) {
+    existing = path.dirname(existing);
+  }
+  return path.join(realpathSync(existing), path.relative(existing, target));
+}
+
+/**
+ * Runs the commands a direct-model provider asks for. Only allowlisted
+ * commands run, without a shell, in the run directory or the alert's
+ * repository, and path arguments may not leave those directories.
+ */
+export class ToolSandbox {
+  constructor(readonly options: ToolSandboxOptions) {}
+
+  /** For the prompt: what the model may run. */
+  describe() {
+    return this.options.allowlist.map((entry) => `\`${entry}\``).join(", ");
+  }
+
+  private check(argv: string[], cwd: string, roots: string[]) {
+    if (argv.length === 0) return "Empty command";
+    if (!this.options.allowlist.some((entry) => startsWith(argv, entry))) {
+      return `Command not allowed. Allowed commands: ${this.describe()}`;
+    }
+    const denied = Object.entries(DENIED_FLAGS)
+      .filter(([entry]) => startsWith(argv, entry))
+      .flatMap(([, flags]) => flags);
+    for (const arg of argv.slice(1)) {
+      const flag = deniedFlag(arg, denied);
+      if (flag) return `Flag ${flag} is not allowed`;
+      // Anything that names a path, including via a symlink, must stay
+      // inside the run directory or the repository.
+      const value = arg.startsWith("-")
+        ? arg.split("=").slice(1).join("=")
+        : arg;
+      if (!value) continue;
+      const candidate = path.resolve(
+        cwd,
+        value.replace(/^~(?=$|\/)/, os.homedir()),
+      );
+      if (
+        value.startsWith("/") ||
+        value.startsWith("~") ||
+        value.split(/[\\/]/).includes("..") ||
+        existsSync(candidate)
+      ) {
+        if (!roots.some((root) => isInside(root, resolveReal(candidate)))) {
+          return `Path ${value} is outside the run directory and repository`;
+        }
+      }
+    }
+    return null;
+  }
+
+  async run(
+    args: { command?: unknown; cwd?: unknown },
+    context: {
+      workingDir: string;
+      repoPath?: string;
+      env?: Record<string, string>;
+      signal?: AbortSignal;
+    },
+  ): Promise<ToolCallRecord> {
+    const argv = Array.isArray(args.command)
+      ? args.command.map(String)
+      : typeof args.command === "string"
+        ? splitCommand(args.command)
+        : [];
+    const roots = [context.workingDir, context.repoPath]
+      .filter((root): root is string => Boolean(root && existsSync(root)))
+      .map((root) => realpathSync(root));
+    const cwd = resolveReal(
+      path.resolve(
+        context.workingDir,
+        typeof args.cwd === "string" && args.cwd ? args.cwd : ".",
+      ),
+    );
+    const startedAt = new Date();
+    const record = (fields: Partial<ToolCallRecord>): ToolCallRecord => ({
+      command: argv,
+      cwd,
+      startedAt: startedAt.toISOString(),
+      durationMs: Date.now() - startedAt.getTime(),
+      exitCode: null,
+      output: "",
+      ...fields,
+    });
+
+    if (!roots.some((root) => isInside(root, cwd)) || !existsSync(cwd)) {
+      return record({
+        error: "cwd must be the run directory or inside the repository",
+      });
+    }
+    const refusal = this.check(argv, cwd, roots);
+    if (refusal) return record({ error: refusal });
+
+    return new Promise((resolve) => {
+      execFile(
+        argv[0],
+        argv.slice(1),
+        {
+          cwd,
+          env: {
+            ...process.env,
+            ...context.env,
+            GIT_TERMINAL_PROMPT: "0",
+            GIT_PAGER: "cat",
+            PAGER: "cat",
+            GH_PROMPT_DISABLED: "1",
+          },
+          timeout: this.options.timeoutMs,
+          maxBuffer: 4 * 1024 * 1024,
+          signal: context.signal,
+        },
+        (error, stdout, stderr) => {
+          const output = [stdout, stderr].filter(Boolean).join("\n").trim();
+          const truncated =
+            output.length > this.options.maxOutputChars
+              ? `${output.slice(0, this.options.maxOutputChars)}\n[output truncated]`
+              : output;
+          const failure = error as
+            (Error & { code?: number | string; killed?: boolean }) | null;
+          resolve(
+            record({
+              exitCode: failure
+                ? typeof failure.code === "number"
+                  ? failure.code
+                  : null
+                : 0,
+              output: truncated,
+              error: failure?.killed
+                ? `Timed out after ${this.options.timeoutMs}ms`
+                : failure && typeof failure.code !== "number"
+                  ? formatError(failure)
+                  : undefined,
+            }),
+          );
+        },
+      );
+    });
+  }
+}
@@ -0,0 +1,369 @@
+import axios, { AxiosInstance } from "axios";
+import { execFile } from "child_process";
+import { existsSync, promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { promisify } from "util";
+import { Prisma } from "@prisma/client";
+import { PrismaService } from "./prisma.service";
+import { getSecret } from "./secrets.service";
+import { dashboardUrl } from "./notification.service";
+import { FixSuggestion, ReportEvidence } from "@/triage/types";
+import { fixBranchName } from "@/triage/utils";
+import { envNumber } from "@/utils/env";
+import { formatError } from "@/utils/error";
+
+const execFileAsync = promisify(execFile);
+
+type RunWithAlert = Prisma.TriageRunGetPayload<{ include: { alert: true } }>;
+
+interface GitHubRemote {
+  host: string;
+  owner: string;
+  repo: string;
+}
+
+interface PullRequestPlan {
+  run: RunWithAlert;
+  repoRoot: string;
+  remote: GitHubRemote;
+  github: AxiosInstance;
+  /** Env that authenticates git against the remote without argv secrets. */
+  gitAuth: Record<string, string>;
+  baseBranch: string;
+  baseCommit: string;
+  branchName: string;
+  title: string;
+  body: string;
+  patch: string;
+  files: string[];
+}
+
+/** Parses `git@github.com:org/repo.git`, `https://github.com/org/repo` and the like. */
+export function parseGitHubRemote(url: string): GitHubRemote | null {
+  const match = url
+    .trim()
+    .match(
+      /^(?:https?:\/\/(?:[^@/]+@)?|ssh:\/\/git@|git@)([^/:]+)(?::\d+)?[:/]([^/]+)\/([^/]+?)(?:\.git)?\/?$/,
+    );
+  return match ? { host: match[1], owner: match[2], repo: match[3] } : null;
+}
+
+/** Every ```diff block of the Draft Fix, as one patch. */
+export function draftFixPatch(run: { fixSuggestions: Prisma.JsonValue }) {
+  const diffs = ((run.fixSuggestions as FixSuggestion[] | null) ?? [])
+    .map((fix) => fix.diff)
+    .filter(Boolean);
+  return diffs.length > 0 ? `${diffs.join("\n")}\n` : null;
+}
+
+function gitError(error: unknown) {
+  const stderr = (error as { stderr?: string }).stderr?.trim();
+  return stderr || formatError(error);
+}
+
+function pullRequestBody(run: RunWithAlert) {
+  const evidence = run.evidence as ReportEvidence | null;
+  const alert = run.alert;
+  const details = [alert?.service, alert?.environment].filter(Boolean);
+  return [
+    `Draft fix proposed by on-call triage for **${alert?.monitorName ?? "an alert"}**${details.length ? ` (${details.join(" · ")})` : ""}.`,
+    evidence?.summary ? `## Alert summary\n\n${evidence.summary}` : null,
+    evidence?.likelyCauses.length
+      ? `## Likely cause\n\n${evidence.likelyCauses.map((cause) => `- ${cause}`).join("\n")}`
+      : null,
+    `[Full triage report](${dashboardUrl(`/#run-${run.id}`)})`,
+    "> Generated from an automated triage report. Review and test it before marking it ready.",
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+/**
+ * Opens draft pull requests from a report's Draft Fix. The patch is checked
+ * and committed against a temporary index built from the remote default
+ * branch, so the local checkout, HEAD and the default branch are never
+ * modified; only a new `triage/...` branch is pushed.
+ */
+export class PullRequestService {
+  constructor(private prisma: PrismaService) {}
+
+  private async git(cwd: string, args: string[], env: object = {}) {
+    const { stdout } = await execFileAsync("git", args, {
+      cwd,
+      env: { ...process.env, GIT_TERMINAL_PROMPT: "0", ...env },
+      timeout: envNumber("GIT_TIMEOUT_MS", 60_000),
+      maxBuffer: 10 * 1024 * 1024,
+    });
+    return stdout.trim();
+  }
+
+  private async plan(
+    runId: string,
+  ): Promise<PullRequestPlan | { error: string }> {
+    const run = await this.prisma.triageRun.findUnique({
+      where: { id: runId },
+      include: { alert: true },
+    });
+    if (!run?.alert) return { error: "Run not found" };
+    if (run.status !== "complete") {
+      return { error: "Only completed reports have a draft fix" };
+    }
+    if (run.pullRequestUrl) {
+      return { error: `A pull request is already open: ${run.pullRequestUrl}` };
+    }
+    const patch = draftFixPatch(run);
+    if (!patch) return { error: "The report's Draft Fix has no diff" };
+    const repoPath = run.alert.repoPath;
+    if (!repoPath || !existsSync(repoPath)) {
+      return { error: "No local repository was found for this alert" };
+    }
+
+    let repoRoot: string;
+    let remote: GitHubRemote | null;
+    try {
+      repoRoot = await this.git(repoPath, ["rev-parse", "--show-toplevel"]);
+      remote = parseGitHubRemote(
+        await this.git(repoRoot, ["remote", "get-url", "origin"]),
+      );
+    } catch (error) {
+      return { error: `Not a git repository: ${gitError(error)}` };
+    }
+    if (!remote) {
+      return { error: "The origin remote is not a GitHub repository" };
+    }
+
+    const token = getSecret("GITHUB_TOKEN", run.teamId);
+    if (!token) {
+      return { error: "GITHUB_TOKEN is required to open pull requests" };
+    }
+    const github = axios.create({
+      baseURL:
+        remote.host === "github.com"
+          ? "https://api.github.com"
+          : `https://${remote.host}/api/v3`,
+      headers: {
+        Authorization: `Bearer ${token}`,
+        Accept: "application/vnd.github+json",
+      },
+      timeout: envNumber("GITHUB_TIMEOUT_MS", 15_000),
+    });
+    const gitAuth = {
+      GIT_CONFIG_COUNT: "1",
+      GIT_CONFIG_KEY_0: `http.https://${remote.host}/.extraheader`,
+      GIT_CONFIG_VALUE_0: `AUTHORIZATION: basic ${Buffer.from(`x-access-token:${token}`).toString("base64")}`,
+    };
+
+    let baseBranch: string;
+    let baseCommit: string;
+    try {
+      const repo = await github.get(`/repos/${remote.owner}/${remote.repo}`);
+      baseBranch = repo.data.default_branch;
+      await this.git(
+        repoRoot,
+        [
+          "fetch",
+          "--no-tags",
+          this.remoteUrl(remote),
+          `refs/heads/${baseBranch}`,
+        ],
+        gitAuth,
+      );
+      baseCommit = await this.git(repoRoot, ["rev-parse", "FETCH_HEAD"]);
+    } catch (error) {
+      return {
+        error: `Could not read the default branch: ${axios.isAxiosError(error) ? (error.response?.data?.message ?? error.message) : gitError(error)}`,
+      };
+    }
+
+    const branchName = fixBranchName(
+      run.alert.service ?? run.alert.repoHint ?? "triage",
+      run.alert.monitorName,
+    );
+    if (branchName === baseBranch) {
+      return { error: "Refusing to push to the default branch" };
+    }
+    const evidence = run.evidence as ReportEvidence | null;
+    const files = ((run.fixSuggestions as FixSuggestion[] | null) ?? [])
+      .flatMap((fix) => fix.files ?? [])
+      .map((file) => file.path);
+
+    return {
+      run,
+      repoRoot,
+      remote,
+      github,
+      gitAuth,
+      baseBranch,
+      baseCommit,
+      branchName,
+      title: `Triage: ${evidence?.title ?? run.alert.monitorName}`.slice(
+        0,
+        200,
+      ),
+      body: pullRequestBody(run),
+      patch,
+      files: [...new Set(files)],
+    };
+  }
+
+  private remoteUrl(remote: GitHubRemote) {
+    return `https://${remote.host}/${remote.owner}/${remote.repo}.git`;
+  }
+
+  /**
+   * Runs `fn` with a scratch index holding the base commit's tree and the
+   * patch written to disk; both are removed afterwards.
+   */
+  private async withScratchIndex<T>(
+    plan: PullRequestPlan,
+    fn: (env: Record<string, string>, patchFile: string) => Promise<T>,
+  ) {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "triage-pr-"));
+    try {
+      const env = { GIT_INDEX_FILE: path.join(dir, "index") };
+      const patchFile = path.join(dir, "fix.patch");
+      await fs.writeFile(patchFile, plan.patch);
+      await this.git(plan.repoRoot, ["read-tree", plan.baseCommit], env);
+      return await fn(env, patchFile);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  }
+
+  private applyArgs(plan: PullRequestPlan, patchFile: string, check = false) {
+    // Model-written hunks often miscount lines; `--recount` tolerates that.
+    const strip = /^\+\+\+ b\//m.test(plan.patch) ? "-p1" : "-p0";
+    return [
+      "apply",
+      "--cached",
+      ...(check ? ["--check"] : []),
+      "--recount",
+      strip,
+      patchFile,
+    ];
+  }
+
+  /** What `open()` would push, plus whether the patch applies cleanly. */
+  async preview(runId: string) {
+    const plan = await this.plan(runId);
+    if ("error" in plan) return plan;
+    let applyError: string | undefined;
+    try {
+      await this.withScratchIndex(plan, (env, patchFile) =>
+        this.git(plan.repoRoot, this.applyArgs(plan, patchFile, true), env),
+      );
+    } catch (error) {
+      applyError = gitError(error);
+    }
+    return {
+      repo: `${plan.remote.owner}/${plan.remote.repo}`,
+      baseBranch: plan.baseBranch,
+      baseCommit: plan.baseCommit,
+      branchName: plan.branchName,
+      title: plan.title,
+      body: plan.body,
+      patch: plan.patch,
+      files: plan.files,
+      applies: !applyError,
+      applyError,
+    };
+  }
+
+  /** Commits the patch onto a new branch, pushes it and opens a draft PR. */
+  async open(runId: string, confirmed: { branchName: string }) {
+    const plan = await this.plan(runId);
+    if ("error" in plan) return plan;
+    if (confirmed.branchName !== plan.branchName) {
+      return { error: "Preview the pull request again before opening it" };
+    }
+
+    let commit: string;
+    try {
+      commit = await this.withScratchIndex(plan, async (env, patchFile) => {
+        await this.git(plan.repoRoot, this.applyArgs(plan, patchFile), env);
+        const tree = await this.git(plan.repoRoot, ["write-tree"], env);
+        return this.git(
+          plan.repoRoot,
+          [
+            "commit-tree",
+            tree,
+            "-p",
+            plan.baseCommit,
+            "-m",
+            `${plan.title}\n\nDraft fix from triage run ${dashboardUrl(`/#run-${plan.run.id}`)}`,
+          ],
+          (await this.hasIdentity(plan.repoRoot))
+            ? env
+            : {
+                ...env,
+                GIT_AUTHOR_NAME: "On-call Triage",
+                GIT_AUTHOR_EMAIL: "triage@localhost",
+                GIT_COMMITTER_NAME: "On-call Triage",
+                GIT_COMMITTER_EMAIL: "triage@localhost",
+              },
+        );
+      });
+    } catch (error) {
+      return { error: `Patch does not apply cleanly: ${gitError(error)}` };
+    }
+
+    try {
+      // Never forced: an existing remote branch rejects the push.
+      await this.git(
+        plan.repoRoot,
+        [
+          "push",
+          this.remoteUrl(plan.remote),
+          `${commit}:refs/heads/${plan.branchName}`,
+        ],
+        plan.gitAuth,
+      );
+    } catch (error) {
+      return { error: `Push failed: ${gitError(error)}` };
+    }
+    await this.git(plan.repoRoot, ["branch", plan.branchName, commit]).catch(
+      () => undefined,
+    );
+
+    try {
+      const response = await plan.github.post(
+        `/repos/${plan.remote.owner}/${plan.remote.repo}/pulls`,
+        {
+          title: plan.title,
+          body: plan.body,
+          head: plan.branchName,
+          base: plan.baseBranch,
+          draft: true,
+        },
+      );
+      const url = response.data.html_url as string;
+      await this.prisma.triageRun.update({
+        where: { id: runId },
+        data: { pullRequestUrl: url },
+      });
+      return {
+        url,
+        number: response.data.number as number,
+        branchName: plan.branchName,
+      };
+    } catch (error) {
+      const message = axios.isAxiosError(error)
+        ? (error.response?.data?.errors?.[0]?.message ??
+          error.response?.data?.message ??
+          error.message)
+        : formatError(error);
+      return {
+        error: `Branch ${plan.branchName} was pushed but the pull request failed: ${message}`,
+      };
+    }
+  }
+
+  private async hasIdentity(repoRoot: string) {
+    try {
+      return Boolean(await this.git(repoRoot, ["config", "user.email"]));
+    } catch {
+      return false;
+    }
+  }
+}
@@ -2,6 +2,7 @@ import { PrismaService } from "./prisma.service";
 import { existsSync, readdirSync, readFileSync } from "fs";
 import path from "path";
 import { spawnSync } from "child_process";
+import { ToolCallRecord } from "@/triage/types";
 
 export class ReportsService {
   constructor(private readonly prisma: PrismaService) {}
@@ -10,12 +11,16 @@ export class ReportsService {
     return process.env.REPO_ROOT ?? path.resolve(process.cwd(), "../..");
   }
 
-  async list(limit = 20) {
+  async list(limit = 20, teamId?: string) {
     return this.prisma.triageRun.findMany({
+      where: teamId ? { teamId } : undefined,
       orderBy: { createdAt: "desc" },
       take: limit,
       select: {
         id: true,
+        alertId: true,
+        parentRunId: true,
+        followUpQuestion: true,
         createdAt: true,
         status: true,
         error: true,
@@ -24,10 +29,36 @@ export class ReportsService {
         sessionId: true,
         sessionUrl: true,
         provider: true,
+        teamId: true,
+        evidence: true,
         evidenceTimeline: true,
         fixSuggestions: true,
         similarIncidents: true,
+        providerAttempts: true,
+        model: true,
+        inputTokens: true,
+        outputTokens: true,
+        costUsd: true,
+        jiraIssueKey: true,
+        pullRequestUrl: true,
+        postmortemUrl: true,
         alert: true,
+        incident: {
+          select: {
+            id: true,
+            title: true,
+            resolvedAt: true,
+            alerts: {
+              select: {
+                id: true,
+                monitorName: true,
+                monitorState: true,
+                service: true,
+                resolvedAt: true,
+              },
+            },
+          },
+        },
       },
     });
   }
@@ -86,9 +117,17 @@ export class ReportsService {
   }
 
   async clear() {
-    await this.prisma.triageRun.deleteMany();
-    await this.prisma.alertEvent.deleteMany();
-    return { ok: true };
+    const runs = await this.prisma.triageRun.deleteMany();
+    const alerts = await this.prisma.alertEvent.deleteMany();
+    const incidents = await this.prisma.incident.deleteMany();
+    return {
+      ok: true,
+      deleted: {
+        runs: runs.count,
+        alerts: alerts.count,
+        incidents: incidents.count,
+      },
+    };
   }
 
   async downloadFiles(id: string) {
@@ -161,6 +200,10 @@ export class ReportsService {
     const alertJson = readFileIfExists("alert.json");
     const evidenceJson = readFileIfExists("evidence.json");
     const previousReport = readFileIfExists("previous_report.md");
+    const run = await this.prisma.triageRun.findUnique({
+      where: { id },
+      select: { toolTranscript: true },
+    });
 
     const files: Array<{ name: string; size: number }> = [];
     try {
@@ -181,6 +224,7 @@ export class ReportsService {
       alertContext: alertJson ? JSON.parse(alertJson) : null,
       evidence: evidenceJson ? JSON.parse(evidenceJson) : null,
       previousReport,
+      toolTranscript: (run?.toolTranscript as ToolCallRecord[] | null) ?? null,
       files,
     };
   }
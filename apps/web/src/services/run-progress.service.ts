@@ -0,0 +1,113 @@
+import { PrismaService } from "./prisma.service";
+import { ProgressEvent } from "@/triage/types";
+import { envNumber } from "@/utils/env";
+import { formatError } from "@/utils/error";
+
+const MAX_TEXT_CHARS = 4_000;
+const MAX_DETAIL_CHARS = 1_000;
+// Enough for the tail of a few busy runs on a newly opened dashboard.
+const PAGE_SIZE = 500;
+// Lets open streams send a run's last events before they are pruned.
+const PRUNE_GRACE_MS = 60_000;
+
+/**
+ * Saves what a provider is doing while the run is still going, so
+ * `/api/events/stream` can show it on the card. Writes are batched because
+ * streamed text arrives a few characters at a time.
+ */
+export class RunProgressService {
+  constructor(private prisma: PrismaService) {}
+
+  /** Buffers a run's events and writes them every `RUN_PROGRESS_FLUSH_MS`. */
+  recorder(runId: string) {
+    const flushMs = envNumber("RUN_PROGRESS_FLUSH_MS", 1_000);
+    let remaining = envNumber("RUN_PROGRESS_MAX_EVENTS", 500);
+    let buffer: ProgressEvent[] = [];
+    let timer: NodeJS.Timeout | null = null;
+    let writing = Promise.resolve();
+
+    const flush = () => {
+      if (timer) clearTimeout(timer);
+      timer = null;
+      const events = buffer;
+      buffer = [];
+      if (events.length === 0) return writing;
+      writing = writing
+        .then(async () => {
+          await this.prisma.triageRunEvent.createMany({
+            data: events.map((event) => ({ runId, ...event })),
+          });
+        })
+        .catch((error) =>
+          console.warn(
+            `[${runId}] Could not save progress: ${formatError(error)}`,
+          ),
+        );
+      return writing;
+    };
+
+    const push = (event: ProgressEvent) => {
+      if (!event.text) return;
+      const last = buffer.at(-1);
+      if (
+        event.kind === "text" &&
+        last?.kind === "text" &&
+        last.text.length + event.text.length <= MAX_TEXT_CHARS
+      ) {
+        last.text += event.text;
+      } else {
+        if (remaining <= 0) return;
+        remaining--;
+        buffer.push({
+          kind: event.kind,
+          text: event.text.slice(0, MAX_TEXT_CHARS),
+          detail: event.detail?.slice(0, MAX_DETAIL_CHARS),
+        });
+      }
+      timer ??= setTimeout(flush, flushMs);
+    };
+
+    return { push, flush };
+  }
+
+  /** Id of the newest event, so a new stream only sends what comes next. */
+  async latestId() {
+    const latest = await this.prisma.triageRunEvent.aggregate({
+      _max: { id: true },
+    });
+    return latest._max.id ?? 0;
+  }
+
+  /** Events of running runs up to `untilId`, oldest first. */
+  async running(untilId: number, teamId?: string) {
+    const events = await this.prisma.triageRunEvent.findMany({
+      where: { id: { lte: untilId }, run: { teamId, status: "running" } },
+      orderBy: { id: "desc" },
+      take: PAGE_SIZE,
+    });
+    return events.reverse();
+  }
+
+  /**
+   * Deletes the log of runs that are no longer queued or running. It is only
+   * shown while a run is live; the outcome is in the run's report.
+   */
+  async prune() {
+    const { count } = await this.prisma.triageRunEvent.deleteMany({
+      where: {
+        createdAt: { lt: new Date(Date.now() - PRUNE_GRACE_MS) },
+        run: { status: { notIn: ["queued", "running"] } },
+      },
+    });
+    return count;
+  }
+
+  /** Events written after `afterId`, oldest first. */
+  since(afterId: number, teamId?: string) {
+    return this.prisma.triageRunEvent.findMany({
+      where: { id: { gt: afterId }, run: { teamId } },
+      orderBy: { id: "asc" },
+      take: PAGE_SIZE,
+    });
+  }
+}
@@ -0,0 +1,348 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  randomBytes,
+} from "crypto";
+import { PrismaService } from "./prisma.service";
+import { envString } from "@/utils/env";
+
+export const SECRET_KEYS = [
+  "DATADOG_API_KEY",
+  "DATADOG_APP_KEY",
+  "GITHUB_TOKEN",
+  "ATLASSIAN_TOKEN",
+  "CONFLUENCE_TOKEN",
+  "GRAFANA_API_TOKEN",
+  "ALERTMANAGER_TOKEN",
+  "GENERIC_ALERTS_TOKEN",
+  "ALERT_WEBHOOK_SECRET",
+  "SLACK_WEBHOOK_URL",
+  "SLACK_BOT_TOKEN",
+  "PAGERDUTY_API_TOKEN",
+  "OPSGENIE_API_KEY",
+  "HTTP_PROVIDER_API_KEY",
+] as const;
+export type SecretKey = (typeof SECRET_KEYS)[number];
+/** Integration credentials plus per-object secrets such as webhook signing keys. */
+export type SecretName = SecretKey | `webhook:${string}`;
+
+export const SECRET_MASK = "••••";
+
+/** Legacy plaintext `AppConfig` columns, moved into `Secret` on first load. */
+const LEGACY_COLUMNS = {
+  datadogApiKey: "DATADOG_API_KEY",
+  datadogAppKey: "DATADOG_APP_KEY",
+  githubToken: "GITHUB_TOKEN",
+  confluenceToken: "ATLASSIAN_TOKEN",
+} as const satisfies Record<string, SecretKey>;
+
+interface MasterKey {
+  id: string;
+  key: Buffer;
+}
+
+// Decrypted values live only in memory, shared by every service instance,
+// keyed by `<teamId>:<name>` with "" as the deployment-wide scope.
+const cache = new Map<string, string>();
+let loaded: Promise<void> | null = null;
+
+function cacheKey(name: SecretName, teamId = "") {
+  return `${teamId}:${name}`;
+}
+
+export function isSecretKey(key: string): key is SecretKey {
+  return SECRET_KEYS.includes(key as SecretKey);
+}
+
+function isSecretName(key: string): key is SecretName {
+  return isSecretKey(key) || key.startsWith("webhook:");
+}
+
+/**
+ * The one place secrets are read from: the team's own value, then the
+ * deployment-wide store, then the process environment so deployments that
+ * inject secrets keep working.
+ */
+export function getSecret(key: SecretKey, teamId?: string | null) {
+  return (
+    (teamId && cache.get(cacheKey(key, teamId))) ||
+    cache.get(cacheKey(key)) ||
+    envString(key)
+  );
+}
+
+/** Decrypted secrets to pass to spawned provider processes. */
+export function secretEnv(teamId?: string | null) {
+  const env: Record<string, string> = {};
+  for (const name of SECRET_KEYS) {
+    const value =
+      (teamId && cache.get(cacheKey(name, teamId))) ||
+      cache.get(cacheKey(name));
+    if (value) env[name] = value;
+  }
+  return env;
+}
+
+export function maskSecret(value: string) {
+  if (!value) return "";
+  return value.length > 8 ? `${SECRET_MASK}${value.slice(-4)}` : SECRET_MASK;
+}
+
+/** True for values produced by `maskSecret`, i.e. echoed back unchanged. */
+export function isMaskedSecret(value: string) {
+  return value.startsWith(SECRET_MASK);
+}
+
+/**
+ * Accepts 32 raw bytes as hex or base64; anything else is treated as a
+ * passphrase and hashed down to a key.
+ */
+function parseMasterKey(raw: string): MasterKey {
+  let key: Buffer;
+  if (/^[0-9a-f]{64}$/i.test(raw)) {
+    key = Buffer.from(raw, "hex");
+  } else if (Buffer.from(raw, "base64").length === 32) {
+    key = Buffer.from(raw, "base64");
+  } else {
+    key = createHash("sha256").update(raw).digest();
+  }
+  const id = createHash("sha256").update(key).digest("hex").slice(0, 8);
+  return { id, key };
+}
+
+function currentMasterKey() {
+  const raw = envString("SECRETS_MASTER_KEY").trim();
+  return raw ? parseMasterKey(raw) : null;
+}
+
+function allMasterKeys() {
+  const current = currentMasterKey();
+  const previous = envString("SECRETS_PREVIOUS_MASTER_KEYS")
+    .split(",")
+    .map((raw) => raw.trim())
+    .filter(Boolean)
+    .map(parseMasterKey);
+  return current ? [current, ...previous] : previous;
+}
+
+/** `v1:<keyId>:<iv>:<tag>:<ciphertext>`; the secret name is bound as AAD. */
+function encrypt(name: SecretName, value: string, master: MasterKey) {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", master.key, iv);
+  cipher.setAAD(Buffer.from(name));
+  const ciphertext = Buffer.concat([
+    cipher.update(value, "utf-8"),
+    cipher.final(),
+  ]);
+  return [
+    "v1",
+    master.id,
+    iv.toString("base64"),
+    cipher.getAuthTag().toString("base64"),
+    ciphertext.toString("base64"),
+  ].join(":");
+}
+
+function decrypt(name: SecretName, payload: string, keys: MasterKey[]) {
+  const [version, keyId, iv, tag, ciphertext] = payload.split(":");
+  if (version !== "v1" || !ciphertext) {
+    throw new Error(`Unsupported secret format for ${name}`);
+  }
+  const master = keys.find((key) => key.id === keyId);
+  if (!master) {
+    throw new Error(`No master key with id ${keyId} to decrypt ${name}`);
+  }
+  const decipher = createDecipheriv(
+    "aes-256-gcm",
+    master.key,
+    Buffer.from(iv, "base64"),
+  );
+  decipher.setAAD(Buffer.from(name));
+  decipher.setAuthTag(Buffer.from(tag, "base64"));
+  return Buffer.concat([
+    decipher.update(Buffer.from(ciphertext, "base64")),
+    decipher.final(),
+  ]).toString("utf-8");
+}
+
+/**
+ * Integration credentials encrypted at rest with AES-256-GCM under
+ * `SECRETS_MASTER_KEY`. Rotate by moving the old key into
+ * `SECRETS_PREVIOUS_MASTER_KEYS`, setting a new one and calling `rotate()`.
+ */
+export class SecretsService {
+  constructor(private prisma: PrismaService) {}
+
+  enabled() {
+    return currentMasterKey() !== null;
+  }
+
+  /** Decrypts the store into memory once per process. */
+  async load() {
+    if (!loaded) {
+      loaded = this.reload().catch((error) => {
+        loaded = null;
+        throw error;
+      });
+    }
+    return loaded;
+  }
+
+  private async reload() {
+    await this.migrateLegacyColumns();
+    const keys = allMasterKeys();
+    const rows = await this.prisma.secret.findMany();
+    cache.clear();
+    for (const row of rows) {
+      if (!isSecretName(row.key)) continue;
+      try {
+        cache.set(
+          cacheKey(row.key, row.teamId),
+          decrypt(row.key, row.ciphertext, keys),
+        );
+      } catch (error) {
+        console.warn(
+          `Failed to decrypt secret ${row.key}:`,
+          error instanceof Error ? error.message : error,
+        );
+      }
+    }
+  }
+
+  private async migrateLegacyColumns() {
+    const master = currentMasterKey();
+    if (!master) return;
+    const appConfig = await this.prisma.appConfig.findUnique({
+      where: { id: "default" },
+    });
+    if (!appConfig) return;
+
+    const cleared: Partial<Record<keyof typeof LEGACY_COLUMNS, null>> = {};
+    for (const [column, name] of Object.entries(LEGACY_COLUMNS) as Array<
+      [keyof typeof LEGACY_COLUMNS, SecretKey]
+    >) {
+      const value = appConfig[column];
+      if (!value) continue;
+      const existing = await this.prisma.secret.findUnique({
+        where: { teamId_key: { teamId: "", key: name } },
+      });
+      if (!existing) {
+        await this.prisma.secret.create({
+          data: {
+            key: name,
+            ciphertext: encrypt(name, value, master),
+            keyId: master.id,
+          },
+        });
+      }
+      cleared[column] = null;
+    }
+    if (Object.keys(cleared).length > 0) {
+      await this.prisma.appConfig.update({
+        where: { id: "default" },
+        data: cleared,
+      });
+    }
+  }
+
+  /**
+   * Stores (or, for an empty value, deletes) a secret, deployment-wide or
+   * for one team.
+   */
+  async set(name: SecretName, value: string, teamId = "") {
+    await this.load();
+    if (!value) {
+      await this.prisma.secret.deleteMany({ where: { teamId, key: name } });
+      cache.delete(cacheKey(name, teamId));
+      return { ok: true };
+    }
+    const master = currentMasterKey();
+    if (!master) {
+      return {
+        error:
+          "SECRETS_MASTER_KEY is not configured; refusing to store secrets in plaintext.",
+      };
+    }
+    const ciphertext = encrypt(name, value, master);
+    await this.prisma.secret.upsert({
+      where: { teamId_key: { teamId, key: name } },
+      update: { ciphertext, keyId: master.id },
+      create: { teamId, key: name, ciphertext, keyId: master.id },
+    });
+    cache.set(cacheKey(name, teamId), value);
+    return { ok: true };
+  }
+
+  /** A stored value with no env fallback, e.g. a webhook signing secret. */
+  storedValue(name: SecretName, teamId = "") {
+    return cache.get(cacheKey(name, teamId));
+  }
+
+  /** Names with a value stored in the given scope. */
+  stored(teamId = "") {
+    return SECRET_KEYS.filter((name) => cache.has(cacheKey(name, teamId)));
+  }
+
+  /** The scope's own secrets, masked, for settings forms. */
+  masked(teamId = "") {
+    return Object.fromEntries(
+      this.stored(teamId).map((name) => [
+        name,
+        maskSecret(cache.get(cacheKey(name, teamId)) ?? ""),
+      ]),
+    ) as Partial<Record<SecretKey, string>>;
+  }
+
+  async clearTeam(teamId: string) {
+    await this.prisma.secret.deleteMany({ where: { teamId } });
+    for (const name of SECRET_KEYS) cache.delete(cacheKey(name, teamId));
+  }
+
+  async list() {
+    await this.load();
+    const master = currentMasterKey();
+    const rows = await this.prisma.secret.findMany({
+      orderBy: [{ teamId: "asc" }, { key: "asc" }],
+      select: { teamId: true, key: true, keyId: true, updatedAt: true },
+    });
+    return {
+      enabled: master !== null,
+      currentKeyId: master?.id ?? null,
+      secrets: rows.map((row) => ({
+        ...row,
+        readable:
+          isSecretName(row.key) && cache.has(cacheKey(row.key, row.teamId)),
+        needsRotation: row.keyId !== master?.id,
+      })),
+    };
+  }
+
+  /** Re-encrypts every stored secret under the current master key. */
+  async rotate() {
+    const master = currentMasterKey();
+    if (!master) return { error: "SECRETS_MASTER_KEY is not configured" };
+    const keys = allMasterKeys();
+    const rows = await this.prisma.secret.findMany();
+    let rotated = 0;
+    const failed: string[] = [];
+    for (const row of rows) {
+      if (!isSecretName(row.key) || row.keyId === master.id) continue;
+      try {
+        const value = decrypt(row.key, row.ciphertext, keys);
+        await this.prisma.secret.update({
+          where: { teamId_key: { teamId: row.teamId, key: row.key } },
+          data: {
+            ciphertext: encrypt(row.key, value, master),
+            keyId: master.id,
+          },
+        });
+        cache.set(cacheKey(row.key, row.teamId), value);
+        rotated += 1;
+      } catch {
+        failed.push(row.teamId ? `${row.teamId}:${row.key}` : row.key);
+      }
+    }
+    return { ok: failed.length === 0, rotated, failed, keyId: master.id };
+  }
+}
@@ -0,0 +1,213 @@
+import { PrismaService } from "./prisma.service";
+import { AlertContext, ReportEvidence, SimilarIncident } from "@/triage/types";
+import { envNumber } from "@/utils/env";
+
+const STOPWORDS = new Set([
+  "a",
+  "an",
+  "and",
+  "are",
+  "as",
+  "at",
+  "be",
+  "by",
+  "for",
+  "from",
+  "has",
+  "in",
+  "is",
+  "it",
+  "of",
+  "on",
+  "or",
+  "that",
+  "the",
+  "this",
+  "to",
+  "was",
+  "with",
+]);
+
+/** Extra weight for a past alert from the same monitor or service. */
+const MONITOR_BOOST = 0.3;
+const SERVICE_BOOST = 0.1;
+
+type Vector = Map<string, number>;
+
+function tokenize(text: string) {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9_]+/)
+    .filter((token) => token.length > 1 && !STOPWORDS.has(token));
+}
+
+function termFrequencies(tokens: string[]): Vector {
+  const counts: Vector = new Map();
+  for (const token of tokens) counts.set(token, (counts.get(token) ?? 0) + 1);
+  return counts;
+}
+
+function alertText(alert: {
+  monitorName?: string | null;
+  service?: string | null;
+  monitorQuery?: string | null;
+  monitorMessage?: string | null;
+  monitorTags?: unknown;
+}) {
+  const tags = Array.isArray(alert.monitorTags) ? alert.monitorTags : [];
+  return [
+    alert.monitorName,
+    alert.service,
+    alert.monitorQuery,
+    alert.monitorMessage,
+    tags.join(" "),
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+function reportSummary(markdown: string | null, evidence: unknown) {
+  const parsed = evidence as ReportEvidence | null;
+  const fromEvidence =
+    parsed?.likelyCauses?.[0] ?? parsed?.summary ?? parsed?.title;
+  if (fromEvidence) return fromEvidence.slice(0, 240);
+  const line = (markdown ?? "")
+    .split("\n")
+    .map((value) => value.replace(/^[#>*\-\s]+/, "").trim())
+    .find(Boolean);
+  return (line ?? "No summary available").slice(0, 240);
+}
+
+/**
+ * Finds past triage runs for alerts that look like the current one, using
+ * TF-IDF cosine similarity over alert fields and report text so it works
+ * without any external search service.
+ */
+export class SimilarityService {
+  constructor(private prisma: PrismaService) {}
+
+  async findSimilar(
+    alert: AlertContext,
+    options?: { excludeAlertId?: string; limit?: number },
+  ): Promise<SimilarIncident[]> {
+    const limit = options?.limit ?? envNumber("SIMILAR_INCIDENTS_LIMIT", 3);
+    const minScore = envNumber("SIMILAR_INCIDENTS_MIN_SCORE_PCT", 20) / 100;
+    if (limit <= 0) return [];
+
+    const runs = await this.prisma.triageRun.findMany({
+      where: {
+        status: "complete",
+        reportMarkdown: { not: null },
+        alertId: options?.excludeAlertId
+          ? { not: options.excludeAlertId }
+          : undefined,
+      },
+      orderBy: { createdAt: "desc" },
+      take: envNumber("SIMILAR_INCIDENTS_CORPUS", 500),
+      select: {
+        id: true,
+        alertId: true,
+        createdAt: true,
+        reportMarkdown: true,
+        evidence: true,
+        alert: {
+          select: {
+            monitorId: true,
+            monitorName: true,
+            service: true,
+            monitorQuery: true,
+            monitorMessage: true,
+            monitorTags: true,
+          },
+        },
+      },
+    });
+
+    // Keep only the latest complete run per alert event.
+    const seen = new Set<string>();
+    const candidates = runs.filter((run) => {
+      if (!run.alert || !run.alertId || seen.has(run.alertId)) return false;
+      seen.add(run.alertId);
+      return true;
+    });
+    if (candidates.length === 0) return [];
+
+    const documents = candidates.map((run) =>
+      termFrequencies(
+        tokenize(
+          `${alertText(run.alert!)}\n${(run.reportMarkdown ?? "").slice(0, 4000)}`,
+        ),
+      ),
+    );
+    const query = termFrequencies(tokenize(alertText(alert)));
+
+    const documentFrequency = new Map<string, number>();
+    for (const document of documents) {
+      for (const term of document.keys()) {
+        documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+      }
+    }
+    const weigh = (vector: Vector): Vector => {
+      const weighted: Vector = new Map();
+      for (const [term, count] of vector) {
+        const idf = Math.log(
+          (documents.length + 1) / ((documentFrequency.get(term) ?? 0) + 1),
+        );
+        weighted.set(term, (1 + Math.log(count)) * (idf + 1));
+      }
+      return weighted;
+    };
+    const norm = (vector: Vector) =>
+      Math.sqrt(
+        Array.from(vector.values()).reduce((sum, value) => sum + value ** 2, 0),
+      );
+
+    const queryVector = weigh(query);
+    const queryNorm = norm(queryVector);
+    if (queryNorm === 0) return [];
+
+    const scored = candidates.map((run, index) => {
+      const documentVector = weigh(documents[index]);
+      let dot = 0;
+      for (const [term, weight] of queryVector) {
+        dot += weight * (documentVector.get(term) ?? 0);
+      }
+      const documentNorm = norm(documentVector);
+      let score = documentNorm > 0 ? dot / (queryNorm * documentNorm) : 0;
+      if (alert.monitorId && run.alert!.monitorId === alert.monitorId) {
+        score += MONITOR_BOOST;
+      }
+      if (alert.service && run.alert!.service === alert.service) {
+        score += SERVICE_BOOST;
+      }
+      return { run, score: Math.min(score, 1) };
+    });
+
+    return scored
+      .filter((entry) => entry.score >= minScore)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map(({ run, score }) => ({
+        id: run.id,
+        createdAt: run.createdAt.toISOString(),
+        summary: reportSummary(run.reportMarkdown, run.evidence),
+        confidence: Number(score.toFixed(2)),
+        service: run.alert!.service ?? undefined,
+        monitorName: run.alert!.monitorName,
+      }));
+  }
+
+  /** Prompt section pointing the agent at how similar alerts were diagnosed. */
+  buildPromptSection(incidents: SimilarIncident[]) {
+    if (incidents.length === 0) return null;
+    const lines = incidents.map(
+      (incident) =>
+        `- ${incident.createdAt} · ${incident.monitorName ?? "unknown monitor"} (${incident.service ?? "unknown service"}, ${Math.round(incident.confidence * 100)}% match, run ${incident.id}): ${incident.summary}`,
+    );
+    return [
+      "SIMILAR PAST INCIDENTS:",
+      "These earlier triage runs looked similar. Verify whether the same cause applies before starting from scratch, and say so in the report.",
+      ...lines,
+    ].join("\n");
+  }
+}
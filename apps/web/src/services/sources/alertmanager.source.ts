@@ -0,0 +1,215 @@
+import axios from "axios";
+import { AlertContext, AlertSource, MonitorStatus } from "@/triage/types";
+import {
+  extractPriority,
+  extractRepoFromMessage,
+  guessServiceFromName,
+  guessServiceFromTags,
+  matchesNamespace,
+  matchesTeam,
+} from "@/triage/utils";
+
+export interface AlertmanagerAlert {
+  fingerprint?: string;
+  labels?: Record<string, string>;
+  annotations?: Record<string, string>;
+  startsAt?: string;
+  endsAt?: string;
+  generatorURL?: string;
+  status?: { state?: string } | string;
+  [key: string]: unknown;
+}
+
+export interface AlertmanagerSourceOptions {
+  baseUrl: string;
+  /** Path of the v2 alerts API relative to `baseUrl`. */
+  alertsPath: string;
+  token?: string;
+  timeoutMs: number;
+  teamFilter: string[];
+  maxAgeMinutes: number;
+}
+
+const SEVERITY_PRIORITY: Record<string, number> = {
+  critical: 1,
+  page: 1,
+  high: 2,
+  error: 2,
+  warning: 3,
+  warn: 3,
+  info: 4,
+  low: 5,
+};
+
+function labelsToTags(labels: Record<string, string>) {
+  return Object.entries(labels).map(([key, value]) => {
+    // Prometheus conventionally uses `namespace`; the team filter matches on
+    // the Datadog-style `kube_namespace` tag.
+    if (key === "namespace") return `kube_namespace:${value}`;
+    return `${key}:${value}`;
+  });
+}
+
+function alertPriority(labels: Record<string, string>, name: string) {
+  const fromLabel = labels.priority
+    ? (extractPriority(labels.priority) ?? Number.parseInt(labels.priority, 10))
+    : null;
+  if (fromLabel && Number.isFinite(fromLabel)) return fromLabel;
+  const severity = labels.severity?.toLowerCase();
+  if (severity && SEVERITY_PRIORITY[severity]) {
+    return SEVERITY_PRIORITY[severity];
+  }
+  return extractPriority(name);
+}
+
+/**
+ * Maps an Alertmanager (or Grafana-managed Alertmanager) alert onto the shared
+ * alert shape. Used by both the poller and the inbound webhook so the dedup
+ * key (`<source>:<fingerprint>` + `startsAt`) is identical on both paths.
+ */
+export function alertmanagerAlertToContext(
+  alert: AlertmanagerAlert,
+  source: "alertmanager" | "grafana" = "alertmanager",
+): AlertContext | null {
+  const labels = alert.labels ?? {};
+  const annotations = alert.annotations ?? {};
+  const startsAt = alert.startsAt ? new Date(alert.startsAt) : null;
+  if (!startsAt || Number.isNaN(startsAt.valueOf())) return null;
+
+  const fingerprint =
+    alert.fingerprint ??
+    Object.entries(labels)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([key, value]) => `${key}=${value}`)
+      .join(",");
+  if (!fingerprint) return null;
+
+  const tags = labelsToTags(labels);
+  const monitorName =
+    annotations.summary ?? labels.alertname ?? "Alertmanager alert";
+  const monitorMessage =
+    annotations.description ?? annotations.message ?? annotations.summary;
+  const state =
+    typeof alert.status === "string" ? alert.status : alert.status?.state;
+  const severity = labels.severity?.toLowerCase();
+  const service =
+    labels.service ??
+    labels.app ??
+    guessServiceFromTags(tags) ??
+    guessServiceFromName(labels.alertname);
+  const { repo: repoHint, url: repoUrl } =
+    extractRepoFromMessage(monitorMessage);
+
+  return {
+    source,
+    monitorId: `${source}:${fingerprint}`,
+    monitorName,
+    monitorState:
+      state === "resolved"
+        ? "ok"
+        : severity === "warning" || severity === "warn"
+          ? "warn"
+          : "alert",
+    priority: alertPriority(labels, monitorName),
+    monitorUrl: alert.generatorURL,
+    monitorMessage,
+    monitorQuery: annotations.expr ?? annotations.query,
+    monitorTags: tags,
+    overallStateModified: startsAt.toISOString(),
+    service: service ?? undefined,
+    environment: labels.environment ?? labels.env,
+    sourceRepo: labels.sourceRepo,
+    repoHint: repoHint ?? undefined,
+    repoUrl: repoUrl ?? annotations.runbook_url ?? undefined,
+  };
+}
+
+export class AlertmanagerAlertSource implements AlertSource {
+  constructor(
+    readonly name: "alertmanager" | "grafana",
+    private readonly options: AlertmanagerSourceOptions,
+  ) {}
+
+  private async fetchAlerts(params: {
+    silenced: boolean;
+    inhibited: boolean;
+  }): Promise<AlertmanagerAlert[]> {
+    const { baseUrl, alertsPath, token, timeoutMs } = this.options;
+    const response = await axios.get(
+      `${baseUrl.replace(/\/$/, "")}${alertsPath}`,
+      {
+        params: { active: true, ...params },
+        headers: token ? { Authorization: `Bearer ${token}` } : undefined,
+        timeout: timeoutMs,
+        timeoutErrorMessage: `${this.name} request timed out after ${timeoutMs}ms`,
+      },
+    );
+    return Array.isArray(response.data) ? response.data : [];
+  }
+
+  /**
+   * Alertmanager only lists firing alerts, so a monitor that is no longer in
+   * the active list (silenced and inhibited included) has resolved.
+   */
+  async monitorStates(
+    monitorIds: string[],
+  ): Promise<Map<string, MonitorStatus> | null> {
+    if (!this.options.baseUrl) return null;
+    let raw: AlertmanagerAlert[] = [];
+    try {
+      raw = await this.fetchAlerts({ silenced: true, inhibited: true });
+    } catch (error: unknown) {
+      console.error(
+        `${this.name} state fetch failed: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      return null;
+    }
+
+    const firing = new Map<string, MonitorStatus>();
+    for (const item of raw) {
+      const alert = alertmanagerAlertToContext(item, this.name);
+      if (alert?.monitorId) {
+        firing.set(alert.monitorId, { state: alert.monitorState ?? "alert" });
+      }
+    }
+    return new Map(
+      monitorIds.map((id) => [id, firing.get(id) ?? { state: "ok" }]),
+    );
+  }
+
+  async collect(): Promise<AlertContext[]> {
+    const { baseUrl, teamFilter } = this.options;
+    if (!baseUrl) {
+      console.warn(`Missing ${this.name} URL. Skipping alert collection.`);
+      return [];
+    }
+
+    let raw: AlertmanagerAlert[] = [];
+    try {
+      console.log(`Fetching ${this.name} alerts.`);
+      raw = await this.fetchAlerts({ silenced: false, inhibited: false });
+      console.log(`${this.name} alerts fetched (${raw.length}).`);
+    } catch (error: unknown) {
+      console.error(
+        `${this.name} fetch failed: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      return [];
+    }
+
+    const now = Date.now();
+    const alerts: AlertContext[] = [];
+    for (const item of raw) {
+      const alert = alertmanagerAlertToContext(item, this.name);
+      if (!alert?.overallStateModified) continue;
+      const startedAt = new Date(alert.overallStateModified).valueOf();
+      if (now - startedAt > this.options.maxAgeMinutes * 60_000) continue;
+      const tags = alert.monitorTags ?? [];
+      if (!matchesTeam(tags, teamFilter) && !matchesNamespace(tags, teamFilter))
+        continue;
+      alerts.push(alert);
+    }
+
+    console.log(`${this.name} alerts filtered to ${alerts.length} alert(s).`);
+    return alerts;
+  }
+}
@@ -0,0 +1,359 @@
+import axios from "axios";
+import { AlertContext, AlertSource, MonitorStatus } from "@/triage/types";
+import {
+  extractPriority,
+  extractRepoFromMessage,
+  guessServiceFromMessage,
+  guessServiceFromName,
+  guessServiceFromQuery,
+  guessServiceFromTags,
+  matchesAlertFilter,
+  matchesNamespace,
+  matchesTeam,
+  monitorUrl,
+} from "@/triage/utils";
+
+export interface DatadogMonitor {
+  id: string | number;
+  name: string;
+  overall_state: string;
+  message: string;
+  query: string;
+  tags: string[];
+  priority: number | null;
+  type: string;
+  modified: string;
+  overall_state_modified: string;
+  [key: string]: unknown;
+}
+
+export interface DatadogSourceOptions {
+  apiKey: string;
+  appKey: string;
+  site: string;
+  timeoutMs: number;
+  alertStates: string[];
+  textFilter?: string;
+  teamFilter: string[];
+  maxAgeMinutes: number;
+}
+
+function monitorPriority(monitor: DatadogMonitor): number | null {
+  let priority: number | null = null;
+  if (typeof monitor.priority === "number") {
+    priority = monitor.priority;
+  } else if (typeof monitor.priority === "string") {
+    const parsed = Number.parseInt(monitor.priority, 10);
+    priority = Number.isFinite(parsed) ? parsed : null;
+  }
+  if (!priority) {
+    priority =
+      extractPriority(monitor.name) ?? extractPriority(monitor.message) ?? null;
+  }
+  return priority;
+}
+
+function monitorModifiedDate(monitor: DatadogMonitor) {
+  const modified = monitor.overall_state_modified ?? monitor.modified;
+  const modifiedDate = modified ? new Date(modified) : null;
+  if (!modifiedDate || Number.isNaN(modifiedDate.valueOf())) return null;
+  return modifiedDate;
+}
+
+/**
+ * Maps a Datadog monitor onto the shared alert shape. The monitor id is kept
+ * un-prefixed so alerts recorded before sources existed still dedup.
+ */
+export function datadogMonitorToAlert(
+  monitor: DatadogMonitor,
+  site: string,
+  modifiedDate: Date,
+): AlertContext {
+  const tags: string[] = monitor.tags ?? [];
+  const service =
+    guessServiceFromTags(tags) ||
+    guessServiceFromQuery(monitor.query) ||
+    guessServiceFromMessage(monitor.message) ||
+    guessServiceFromName(monitor.name);
+  const environment = tags
+    .find((tag) => tag.startsWith("environment:"))
+    ?.split(":")[1];
+  const sourceRepo = tags
+    .find((tag) => tag.startsWith("sourceRepo:"))
+    ?.split(":")[1];
+  const { repo: repoHint, url: repoUrl } = extractRepoFromMessage(
+    monitor.message,
+  );
+
+  return {
+    source: "datadog",
+    monitorId: String(monitor.id),
+    monitorName: monitor.name,
+    monitorState: monitor.overall_state,
+    priority: monitorPriority(monitor),
+    monitorUrl: monitorUrl(site, monitor.id),
+    monitorMessage: monitor.message,
+    monitorQuery: monitor.query,
+    monitorTags: tags,
+    overallStateModified: modifiedDate.toISOString(),
+    service: service ?? undefined,
+    environment,
+    sourceRepo,
+    repoHint: repoHint ?? undefined,
+    repoUrl: repoUrl ?? undefined,
+  };
+}
+
+/**
+ * Body of a Datadog webhook integration. Datadog lets users template the
+ * payload, so only `alert_id` (`$ALERT_ID`) is required; the README documents
+ * the recommended template.
+ */
+export interface DatadogWebhookPayload {
+  alert_id?: string | number;
+  title?: string;
+  alert_title?: string;
+  alert_transition?: string;
+  alert_status?: string;
+  priority?: string;
+  tags?: string | string[];
+  body?: string;
+  query?: string;
+  last_updated?: string | number;
+  date?: string | number;
+  [key: string]: unknown;
+}
+
+const DATADOG_TRANSITION_STATE: Record<string, string> = {
+  triggered: "alert",
+  "re-triggered": "alert",
+  warn: "warn",
+  "re-warn": "warn",
+  "no data": "no_data",
+  "re-no data": "no_data",
+  recovered: "ok",
+};
+
+function webhookDate(value?: string | number) {
+  if (value === undefined || value === "") return null;
+  const date = new Date(
+    typeof value === "number" || /^\d+$/.test(value) ? Number(value) : value,
+  );
+  return Number.isNaN(date.valueOf()) ? null : date;
+}
+
+/**
+ * Best-effort mapping of a Datadog webhook body when the monitor cannot be
+ * looked up. `last_updated` may differ from the monitor's
+ * `overall_state_modified`, so callers should prefer `fetchMonitorAlert`.
+ */
+export function datadogWebhookToAlert(
+  payload: DatadogWebhookPayload,
+  site: string,
+): AlertContext | null {
+  if (payload.alert_id === undefined || payload.alert_id === "") return null;
+  const modifiedDate =
+    webhookDate(payload.last_updated) ?? webhookDate(payload.date);
+  if (!modifiedDate) return null;
+
+  const tags = Array.isArray(payload.tags)
+    ? payload.tags
+    : (payload.tags ?? "")
+        .split(",")
+        .map((tag) => tag.trim())
+        .filter(Boolean);
+  const transition = (payload.alert_transition ?? "").toLowerCase();
+  const monitor: DatadogMonitor = {
+    id: payload.alert_id,
+    name: payload.alert_title ?? payload.title ?? String(payload.alert_id),
+    overall_state: DATADOG_TRANSITION_STATE[transition] ?? "alert",
+    message: payload.body ?? "",
+    query: payload.query ?? "",
+    tags,
+    priority: extractPriority(payload.priority ?? ""),
+    type: "webhook",
+    modified: modifiedDate.toISOString(),
+    overall_state_modified: modifiedDate.toISOString(),
+  };
+  return datadogMonitorToAlert(monitor, site, modifiedDate);
+}
+
+export class DatadogAlertSource implements AlertSource {
+  readonly name = "datadog" as const;
+
+  constructor(private readonly options: DatadogSourceOptions) {}
+
+  private async fetchMonitors(): Promise<DatadogMonitor[]> {
+    const { apiKey, appKey, site, timeoutMs } = this.options;
+    const response = await axios.get(
+      `https://api.${site}/api/v1/monitor?with_downtimes=true`,
+      {
+        headers: { "DD-API-KEY": apiKey, "DD-APPLICATION-KEY": appKey },
+        timeout: timeoutMs,
+        timeoutErrorMessage: `Datadog request timed out after ${timeoutMs}ms`,
+      },
+    );
+    return response.data ?? [];
+  }
+
+  /**
+   * Looks a single monitor up so webhook-delivered alerts carry the same
+   * `overall_state_modified` (and therefore dedup key) as polled ones.
+   */
+  async fetchMonitorAlert(monitorId: string): Promise<AlertContext | null> {
+    const { apiKey, appKey, site, timeoutMs } = this.options;
+    if (!apiKey || !appKey) return null;
+    try {
+      const response = await axios.get(
+        `https://api.${site}/api/v1/monitor/${encodeURIComponent(monitorId)}`,
+        {
+          headers: { "DD-API-KEY": apiKey, "DD-APPLICATION-KEY": appKey },
+          timeout: timeoutMs,
+          timeoutErrorMessage: `Datadog request timed out after ${timeoutMs}ms`,
+        },
+      );
+      const monitor = response.data as DatadogMonitor | undefined;
+      if (!monitor) return null;
+      const modifiedDate = monitorModifiedDate(monitor);
+      return modifiedDate
+        ? datadogMonitorToAlert(monitor, site, modifiedDate)
+        : null;
+    } catch (error: unknown) {
+      console.warn(
+        `Datadog monitor ${monitorId} lookup failed: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      return null;
+    }
+  }
+
+  async monitorStates(
+    monitorIds: string[],
+  ): Promise<Map<string, MonitorStatus> | null> {
+    const { apiKey, appKey } = this.options;
+    if (!apiKey || !appKey) return null;
+    let monitors: DatadogMonitor[] = [];
+    try {
+      monitors = await this.fetchMonitors();
+    } catch (error: unknown) {
+      console.error(
+        `Datadog monitor state fetch failed: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      return null;
+    }
+
+    const wanted = new Set(monitorIds);
+    const states = new Map<string, MonitorStatus>();
+    for (const monitor of monitors) {
+      const id = String(monitor.id);
+      if (!wanted.has(id)) continue;
+      states.set(id, {
+        state: (monitor.overall_state ?? "").toLowerCase(),
+        since: monitorModifiedDate(monitor)?.toISOString(),
+      });
+    }
+    return states;
+  }
+
+  async collect(): Promise<AlertContext[]> {
+    const { apiKey, appKey, site, alertStates, textFilter, teamFilter } =
+      this.options;
+    if (!apiKey || !appKey) {
+      console.warn("Missing Datadog keys. Skipping alert collection.");
+      return [];
+    }
+
+    let monitors: DatadogMonitor[] = [];
+    try {
+      console.log("Fetching Datadog monitors.");
+      monitors = await this.fetchMonitors();
+      console.log(`Datadog monitors fetched (${monitors.length}).`);
+    } catch (error: unknown) {
+      console.error(
+        `Datadog fetch failed: ${(error instanceof Error ? error.message : String(error)) ?? "unknown error"}`,
+      );
+      return [];
+    }
+
+    const now = Date.now();
+    const alerts: AlertContext[] = [];
+    for (const monitor of monitors) {
+      const overallState = (monitor.overall_state ?? "").toLowerCase();
+      if (!alertStates.includes(overallState)) continue;
+      if (!matchesAlertFilter(monitor.message, textFilter)) continue;
+
+      const modifiedDate = monitorModifiedDate(monitor);
+      if (!modifiedDate) continue;
+      if (now - modifiedDate.valueOf() > this.options.maxAgeMinutes * 60_000)
+        continue;
+
+      const tags: string[] = monitor.tags ?? [];
+      if (!matchesTeam(tags, teamFilter) && !matchesNamespace(tags, teamFilter))
+        continue;
+
+      alerts.push(datadogMonitorToAlert(monitor, site, modifiedDate));
+    }
+
+    console.log(`Datadog monitors filtered to ${alerts.length} alert(s).`);
+    return alerts;
+  }
+
+  /**
+   * Finds the most recent P2/P4 monitor for the configured team within the
+   * last 24 hours, regardless of whether it was already triaged.
+   */
+  async findLastError(): Promise<AlertContext | null> {
+    const { apiKey, appKey, site, teamFilter } = this.options;
+    if (!apiKey || !appKey) {
+      console.warn("Missing Datadog keys for reprocess last error.");
+      return null;
+    }
+
+    if (teamFilter.length === 0) {
+      console.warn("ALERT_TEAM not configured for reprocess last error.");
+      return null;
+    }
+
+    try {
+      console.log("Fetching Datadog monitors for reprocess last error.");
+      const monitors = await this.fetchMonitors();
+      const maxAgeHours = 24;
+      const alerts: AlertContext[] = [];
+
+      for (const monitor of monitors) {
+        const tags: string[] = monitor.tags ?? [];
+        if (
+          !matchesTeam(tags, teamFilter) &&
+          !matchesNamespace(tags, teamFilter)
+        )
+          continue;
+
+        const priority = monitorPriority(monitor);
+        if (priority !== 2 && priority !== 4) continue;
+
+        const modifiedDate = monitorModifiedDate(monitor);
+        if (!modifiedDate) continue;
+        if (Date.now() - modifiedDate.valueOf() > maxAgeHours * 60 * 60 * 1000)
+          continue;
+
+        alerts.push(datadogMonitorToAlert(monitor, site, modifiedDate));
+      }
+
+      alerts.sort((a, b) => {
+        const aTime = a.overallStateModified
+          ? new Date(a.overallStateModified).getTime()
+          : 0;
+        const bTime = b.overallStateModified
+          ? new Date(b.overallStateModified).getTime()
+          : 0;
+        return bTime - aTime;
+      });
+
+      return alerts.length > 0 ? alerts[0] : null;
+    } catch (error: unknown) {
+      console.error(
+        `Datadog fetch failed for reprocess last error: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      return null;
+    }
+  }
+}
@@ -0,0 +1,216 @@
+import axios from "axios";
+import { AlertContext, AlertSource, MonitorStatus } from "@/triage/types";
+import {
+  extractPriority,
+  extractRepoFromMessage,
+  guessServiceFromMessage,
+  guessServiceFromName,
+  guessServiceFromQuery,
+  guessServiceFromTags,
+  matchesNamespace,
+  matchesTeam,
+} from "@/triage/utils";
+
+export type GenericAlert = Record<string, unknown>;
+
+export interface GenericSourceOptions {
+  url: string;
+  token?: string;
+  timeoutMs: number;
+  alertStates: string[];
+  teamFilter: string[];
+  maxAgeMinutes: number;
+}
+
+function pickString(item: GenericAlert, keys: string[]) {
+  for (const key of keys) {
+    const value = item[key];
+    if (typeof value === "string" && value.trim()) return value.trim();
+    if (typeof value === "number") return String(value);
+  }
+  return undefined;
+}
+
+const FIRING_STATES = new Set(["firing", "triggered", "critical", "open"]);
+const RESOLVED_STATES = new Set(["resolved", "recovered", "closed", "ok"]);
+
+function normalizeState(value?: string) {
+  const state = (value ?? "alert").toLowerCase();
+  if (FIRING_STATES.has(state)) return "alert";
+  if (RESOLVED_STATES.has(state)) return "ok";
+  return state;
+}
+
+function toTags(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value.filter((tag): tag is string => typeof tag === "string");
+  }
+  if (value && typeof value === "object") {
+    return Object.entries(value as Record<string, unknown>).map(
+      ([key, val]) => `${key}:${String(val)}`,
+    );
+  }
+  if (typeof value === "string") {
+    return value
+      .split(",")
+      .map((tag) => tag.trim())
+      .filter(Boolean);
+  }
+  return [];
+}
+
+/**
+ * Maps a loosely-structured JSON alert onto the shared alert shape. Accepts
+ * the common field spellings (`id`/`alert_id`, `name`/`title`,
+ * `startedAt`/`firedAt`/`timestamp`, ...) so most home-grown pollers and
+ * webhooks work without a custom adapter.
+ */
+export function genericAlertToContext(item: GenericAlert): AlertContext | null {
+  const id = pickString(item, ["id", "alert_id", "alertId", "key", "dedupKey"]);
+  const firedAt = pickString(item, [
+    "startedAt",
+    "started_at",
+    "firedAt",
+    "fired_at",
+    "timestamp",
+    "date",
+  ]);
+  const firedDate = firedAt
+    ? new Date(/^\d+$/.test(firedAt) ? Number(firedAt) : firedAt)
+    : null;
+  if (!id || !firedDate || Number.isNaN(firedDate.valueOf())) return null;
+
+  const monitorName =
+    pickString(item, ["name", "title", "alertname", "summary"]) ?? id;
+  const monitorMessage = pickString(item, [
+    "message",
+    "description",
+    "body",
+    "text",
+  ]);
+  const monitorQuery = pickString(item, ["query", "expr"]);
+  const tags = toTags(item.tags ?? item.labels);
+  const rawPriority = pickString(item, ["priority", "severity"]);
+  const priority = rawPriority
+    ? (extractPriority(rawPriority) ??
+      (Number.isFinite(Number.parseInt(rawPriority, 10))
+        ? Number.parseInt(rawPriority, 10)
+        : null))
+    : extractPriority(monitorName);
+  const service =
+    pickString(item, ["service"]) ??
+    (guessServiceFromTags(tags) ||
+      guessServiceFromQuery(monitorQuery) ||
+      guessServiceFromMessage(monitorMessage) ||
+      guessServiceFromName(monitorName));
+  const { repo: repoHint, url: repoUrl } =
+    extractRepoFromMessage(monitorMessage);
+
+  return {
+    source: "generic",
+    monitorId: `generic:${id}`,
+    monitorName,
+    monitorState: normalizeState(pickString(item, ["state", "status"])),
+    priority,
+    monitorUrl: pickString(item, ["url", "link"]),
+    monitorMessage,
+    monitorQuery,
+    monitorTags: tags,
+    overallStateModified: firedDate.toISOString(),
+    service: service ?? undefined,
+    environment:
+      pickString(item, ["environment", "env"]) ??
+      tags.find((tag) => tag.startsWith("environment:"))?.split(":")[1],
+    sourceRepo: pickString(item, ["sourceRepo", "repo"]),
+    repoHint: repoHint ?? undefined,
+    repoUrl: repoUrl ?? undefined,
+  };
+}
+
+export class GenericAlertSource implements AlertSource {
+  readonly name = "generic" as const;
+
+  constructor(private readonly options: GenericSourceOptions) {}
+
+  private async fetchAlerts(): Promise<GenericAlert[]> {
+    const { url, token, timeoutMs } = this.options;
+    const response = await axios.get(url, {
+      headers: token ? { Authorization: `Bearer ${token}` } : undefined,
+      timeout: timeoutMs,
+      timeoutErrorMessage: `Generic alert request timed out after ${timeoutMs}ms`,
+    });
+    const data = response.data;
+    return Array.isArray(data)
+      ? data
+      : Array.isArray(data?.alerts)
+        ? data.alerts
+        : [];
+  }
+
+  /**
+   * Uses the state each alert reports; alerts that dropped out of the feed
+   * are treated as recovered.
+   */
+  async monitorStates(
+    monitorIds: string[],
+  ): Promise<Map<string, MonitorStatus> | null> {
+    if (!this.options.url) return null;
+    let raw: GenericAlert[] = [];
+    try {
+      raw = await this.fetchAlerts();
+    } catch (error: unknown) {
+      console.error(
+        `Generic alert state fetch failed: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      return null;
+    }
+
+    const listed = new Map<string, MonitorStatus>();
+    for (const item of raw) {
+      const alert = genericAlertToContext(item);
+      if (alert?.monitorId) {
+        listed.set(alert.monitorId, { state: alert.monitorState ?? "alert" });
+      }
+    }
+    return new Map(
+      monitorIds.map((id) => [id, listed.get(id) ?? { state: "ok" }]),
+    );
+  }
+
+  async collect(): Promise<AlertContext[]> {
+    const { url, alertStates, teamFilter } = this.options;
+    if (!url) {
+      console.warn("Missing GENERIC_ALERTS_URL. Skipping alert collection.");
+      return [];
+    }
+
+    let raw: GenericAlert[] = [];
+    try {
+      console.log("Fetching generic alerts.");
+      raw = await this.fetchAlerts();
+      console.log(`Generic alerts fetched (${raw.length}).`);
+    } catch (error: unknown) {
+      console.error(
+        `Generic alert fetch failed: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      return [];
+    }
+
+    const now = Date.now();
+    const alerts: AlertContext[] = [];
+    for (const item of raw) {
+      const alert = genericAlertToContext(item);
+      if (!alert?.overallStateModified) continue;
+      if (!alertStates.includes(alert.monitorState ?? "")) continue;
+      const startedAt = new Date(alert.overallStateModified).valueOf();
+      if (now - startedAt > this.options.maxAgeMinutes * 60_000) continue;
+      const tags = alert.monitorTags ?? [];
+      if (!matchesTeam(tags, teamFilter) && !matchesNamespace(tags, teamFilter))
+        continue;
+      alerts.push(alert);
+    }
+
+    console.log(`Generic alerts filtered to ${alerts.length} alert(s).`);
+    return alerts;
+  }
+}
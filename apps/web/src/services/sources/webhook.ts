@@ -0,0 +1,118 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { AlertContext, AlertSourceName } from "@/triage/types";
+import {
+  AlertmanagerAlert,
+  alertmanagerAlertToContext,
+} from "@/services/sources/alertmanager.source";
+import {
+  DatadogWebhookPayload,
+  datadogWebhookToAlert,
+} from "@/services/sources/datadog.source";
+import {
+  GenericAlert,
+  genericAlertToContext,
+} from "@/services/sources/generic.source";
+
+const SIGNATURE_HEADERS = [
+  "x-signature-256",
+  "x-hub-signature-256",
+  "x-webhook-signature",
+];
+
+const SOURCE_NAMES: AlertSourceName[] = [
+  "datadog",
+  "alertmanager",
+  "grafana",
+  "generic",
+];
+
+export interface ParsedAlertWebhook {
+  source: AlertSourceName;
+  alerts: AlertContext[];
+}
+
+function safeEqual(a: string, b: string) {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+/**
+ * Accepts either an HMAC-SHA256 of the raw body (`X-Signature-256:
+ * sha256=<hex>`) or the secret itself via `X-Webhook-Secret` /
+ * `Authorization: Bearer`, since Datadog and Alertmanager can only send
+ * static headers.
+ */
+export function verifyAlertWebhook(
+  rawBody: string,
+  headers: Headers,
+  secret: string,
+): boolean {
+  for (const header of SIGNATURE_HEADERS) {
+    const value = headers.get(header);
+    if (!value) continue;
+    const expected = createHmac("sha256", secret).update(rawBody).digest("hex");
+    return safeEqual(value.replace(/^sha256=/i, "").toLowerCase(), expected);
+  }
+
+  const shared =
+    headers.get("x-webhook-secret") ??
+    headers.get("authorization")?.replace(/^Bearer\s+/i, "");
+  return shared ? safeEqual(shared, secret) : false;
+}
+
+export function parseWebhookSource(value?: string | null) {
+  const name = value?.trim().toLowerCase();
+  return SOURCE_NAMES.find((source) => source === name) ?? null;
+}
+
+function detectSource(payload: unknown): AlertSourceName {
+  if (!payload || typeof payload !== "object" || Array.isArray(payload)) {
+    return "generic";
+  }
+  const body = payload as Record<string, unknown>;
+  if (Array.isArray(body.alerts) && (body.groupKey || body.receiver)) {
+    // Grafana's contact-point payload is Alertmanager-shaped plus `orgId`.
+    return body.orgId !== undefined ? "grafana" : "alertmanager";
+  }
+  if (body.alert_id !== undefined && body.alert_transition !== undefined) {
+    return "datadog";
+  }
+  return "generic";
+}
+
+/**
+ * Normalises an inbound webhook body into alerts. The source is detected from
+ * the payload shape unless the caller pins it (e.g. `?source=grafana`).
+ */
+export function parseAlertWebhook(
+  payload: unknown,
+  options: { site: string; source?: AlertSourceName | null },
+): ParsedAlertWebhook {
+  const source = options.source ?? detectSource(payload);
+  const body = (payload ?? {}) as Record<string, unknown>;
+  let alerts: (AlertContext | null)[] = [];
+
+  if (source === "datadog") {
+    alerts = [
+      datadogWebhookToAlert(body as DatadogWebhookPayload, options.site),
+    ];
+  } else if (source === "alertmanager" || source === "grafana") {
+    const items = Array.isArray(body.alerts)
+      ? (body.alerts as AlertmanagerAlert[])
+      : [];
+    alerts = items.map((item) => alertmanagerAlertToContext(item, source));
+  } else {
+    const items: GenericAlert[] = Array.isArray(payload)
+      ? payload
+      : Array.isArray(body.alerts)
+        ? (body.alerts as GenericAlert[])
+        : [body];
+    alerts = items.map((item) => genericAlertToContext(item));
+  }
+
+  return {
+    source,
+    alerts: alerts.filter((alert): alert is AlertContext => alert !== null),
+  };
+}
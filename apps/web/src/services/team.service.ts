@@ -0,0 +1,180 @@
+import { Team } from "@prisma/client";
+import { PrismaService } from "./prisma.service";
+import { isMaskedSecret, SecretKey, SecretsService } from "./secrets.service";
+import { envString } from "@/utils/env";
+
+/** Everything a poll or triage run needs to know about its team. */
+export interface TeamSettings {
+  /** null for the deployment-wide scope used when no teams exist. */
+  teamId: string | null;
+  alertTeam: string;
+  alertSources: string;
+  repoRoot: string;
+  skillsContextPath: string;
+  provider: string;
+}
+
+/** Credentials a team can override, keyed by their form field name. */
+export const TEAM_SECRET_FIELDS = {
+  datadogApiKey: "DATADOG_API_KEY",
+  datadogAppKey: "DATADOG_APP_KEY",
+  githubToken: "GITHUB_TOKEN",
+  atlassianToken: "ATLASSIAN_TOKEN",
+  grafanaApiToken: "GRAFANA_API_TOKEN",
+  alertmanagerToken: "ALERTMANAGER_TOKEN",
+  genericAlertsToken: "GENERIC_ALERTS_TOKEN",
+  alertWebhookSecret: "ALERT_WEBHOOK_SECRET",
+} as const satisfies Record<string, SecretKey>;
+
+export type TeamCredentials = Partial<
+  Record<keyof typeof TEAM_SECRET_FIELDS, string>
+>;
+
+export interface TeamInput {
+  slug?: string;
+  name?: string;
+  alertTeam?: string;
+  alertSources?: string;
+  repoRoot?: string;
+  skillsContextPath?: string;
+  provider?: string;
+  credentials?: TeamCredentials;
+}
+
+/** A team's settings, each falling back to the deployment-wide env var. */
+export function teamSettings(team?: Team | null): TeamSettings {
+  return {
+    teamId: team?.id ?? null,
+    alertTeam: team?.alertTeam || envString("ALERT_TEAM"),
+    alertSources: team?.alertSources || envString("ALERT_SOURCES") || "datadog",
+    repoRoot: team?.repoRoot || envString("REPO_ROOT"),
+    skillsContextPath:
+      team?.skillsContextPath || envString("SKILLS_CONTEXT_PATH"),
+    provider: (
+      team?.provider ||
+      envString("PROVIDER") ||
+      "opencode"
+    ).toLowerCase(),
+  };
+}
+
+/**
+ * Teams share one deployment but each owns its alert filters, repo root,
+ * skills context, provider and credentials. With no teams configured the
+ * dashboard behaves as a single workspace driven by env vars.
+ */
+export class TeamService {
+  private secrets: SecretsService;
+
+  constructor(private prisma: PrismaService) {
+    this.secrets = new SecretsService(prisma);
+  }
+
+  async list() {
+    return this.prisma.team.findMany({ orderBy: { name: "asc" } });
+  }
+
+  /** One scope per team, or the single env-driven scope when there are none. */
+  async scopes(): Promise<TeamSettings[]> {
+    const teams = await this.list();
+    return teams.length > 0 ? teams.map(teamSettings) : [teamSettings(null)];
+  }
+
+  async settingsFor(teamId?: string | null) {
+    if (!teamId) return teamSettings(null);
+    const team = await this.prisma.team.findUnique({ where: { id: teamId } });
+    return teamSettings(team);
+  }
+
+  async findBySlug(slug: string) {
+    return this.prisma.team.findUnique({ where: { slug } });
+  }
+
+  /** The team with its own credentials masked, for admins. */
+  async getWithCredentials(id: string) {
+    await this.secrets.load();
+    const team = await this.prisma.team.findUnique({ where: { id } });
+    if (!team) return null;
+    const stored = this.secrets.masked(team.id);
+    const credentials: TeamCredentials = {};
+    for (const [field, name] of Object.entries(TEAM_SECRET_FIELDS) as Array<
+      [keyof typeof TEAM_SECRET_FIELDS, SecretKey]
+    >) {
+      credentials[field] = stored[name] ?? "";
+    }
+    return { ...team, credentials };
+  }
+
+  async create(input: TeamInput & { slug: string; name: string }) {
+    const existing = await this.findBySlug(input.slug);
+    if (existing) return { error: `Team "${input.slug}" already exists` };
+    const invalid = this.credentialsError(input.credentials);
+    if (invalid) return { error: invalid };
+
+    const team = await this.prisma.team.create({
+      data: { ...this.settingsData(input), slug: input.slug, name: input.name },
+    });
+    await this.saveCredentials(team.id, input.credentials);
+    return { team };
+  }
+
+  async update(id: string, input: TeamInput) {
+    const existing = await this.prisma.team.findUnique({ where: { id } });
+    if (!existing) return { error: "Team not found" };
+    if (input.slug && input.slug !== existing.slug) {
+      const clash = await this.findBySlug(input.slug);
+      if (clash) return { error: `Team "${input.slug}" already exists` };
+    }
+    const invalid = this.credentialsError(input.credentials);
+    if (invalid) return { error: invalid };
+
+    const team = await this.prisma.team.update({
+      where: { id },
+      data: this.settingsData(input),
+    });
+    await this.saveCredentials(id, input.credentials);
+    return { team };
+  }
+
+  /** Deletes the team and its secrets; its runs and alerts become unscoped. */
+  async remove(id: string) {
+    const existing = await this.prisma.team.findUnique({ where: { id } });
+    if (!existing) return { error: "Team not found" };
+    await this.secrets.clearTeam(id);
+    await this.prisma.team.delete({ where: { id } });
+    return { ok: true };
+  }
+
+  private settingsData(input: TeamInput) {
+    // Empty strings clear a setting so the team falls back to the env var.
+    const value = (field?: string) =>
+      field === undefined ? undefined : field.trim() || null;
+    return {
+      slug: input.slug,
+      name: input.name,
+      alertTeam: value(input.alertTeam),
+      alertSources: value(input.alertSources),
+      repoRoot: value(input.repoRoot),
+      skillsContextPath: value(input.skillsContextPath),
+      provider: value(input.provider),
+    };
+  }
+
+  /** Refuses new credentials when they could not be stored encrypted. */
+  private credentialsError(credentials?: TeamCredentials) {
+    const changed = Object.values(credentials ?? {}).some(
+      (value) => value && !isMaskedSecret(value),
+    );
+    return changed && !this.secrets.enabled()
+      ? "Set SECRETS_MASTER_KEY before saving team credentials; they are stored encrypted, never in plaintext."
+      : null;
+  }
+
+  private async saveCredentials(teamId: string, credentials?: TeamCredentials) {
+    for (const [field, value] of Object.entries(credentials ?? {})) {
+      if (value === undefined || isMaskedSecret(value)) continue;
+      const name = TEAM_SECRET_FIELDS[field as keyof typeof TEAM_SECRET_FIELDS];
+      if (name) await this.secrets.set(name, value, teamId);
+    }
+  }
+}
@@ -1,6 +1,15 @@
 import { TriageService } from "./triage.service";
 import { prisma } from "./prisma.service";
 import { MonitorRepoMappingService } from "./monitor-repo-mapping.service";
+import { TriageQueueService } from "./triage-queue.service";
+import { SimilarityService } from "./similarity.service";
+import { IncidentService } from "./incident.service";
+import { SecretsService } from "./secrets.service";
+import { TeamService } from "./team.service";
+import { NotificationService } from "./notification.service";
+import { PagingService } from "./paging.service";
+import { RunProgressService } from "./run-progress.service";
+import { UsageService } from "./usage.service";
 
 let triageServiceInstance: TriageService | null = null;
 let isInitialized = false;
@@ -8,14 +17,32 @@ let isInitialized = false;
 export function getTriageService(): TriageService {
   if (!triageServiceInstance) {
     const repoMappingService = new MonitorRepoMappingService(prisma);
-    triageServiceInstance = new TriageService(prisma, repoMappingService);
+    const queueService = new TriageQueueService(prisma);
+    const similarityService = new SimilarityService(prisma);
+    const incidentService = new IncidentService(prisma);
+    const teamService = new TeamService(prisma);
+    const notificationService = new NotificationService(prisma);
+    const pagingService = new PagingService(prisma);
+    triageServiceInstance = new TriageService(
+      prisma,
+      repoMappingService,
+      queueService,
+      similarityService,
+      incidentService,
+      teamService,
+      notificationService,
+      pagingService,
+      new RunProgressService(prisma),
+      new UsageService(prisma),
+    );
   }
   return triageServiceInstance;
 }
 
 export async function ensureTriageServiceInitialized(): Promise<void> {
   if (isInitialized) return;
-  
+
+  await new SecretsService(prisma).load();
   const service = getTriageService();
   service.initialize();
   isInitialized = true;
@@ -30,8 +57,8 @@ export async function shutdownTriageService(): Promise<void> {
 }
 
 // Initialize on module load (only works in server context)
-if (typeof process !== 'undefined') {
-  process.on('beforeExit', async () => {
+if (typeof process !== "undefined") {
+  process.on("beforeExit", async () => {
     await shutdownTriageService();
   });
 }
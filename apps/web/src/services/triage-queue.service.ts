@@ -0,0 +1,204 @@
+import { PrismaService } from "./prisma.service";
+import { envNumber } from "@/utils/env";
+import { formatError } from "@/utils/error";
+
+export interface ClaimedTriageJob {
+  id: string;
+  runId: string;
+  attempts: number;
+  maxAttempts: number;
+  previousReport: string | null;
+}
+
+/** Alerts without a priority are queued behind P1-P4. */
+const DEFAULT_PRIORITY = 5;
+
+/**
+ * DB-backed queue for provider runs. Jobs are claimed with a compare-and-set
+ * on `status`, so several processes can share one database, and a job whose
+ * heartbeat stops (crash, restart) is handed back out by `recoverStale`.
+ */
+export class TriageQueueService {
+  constructor(private prisma: PrismaService) {}
+
+  /** Creates a `queued` run together with its job in one write. */
+  async enqueue(
+    run: {
+      alertId: string;
+      provider: string;
+      parentRunId?: string;
+      followUpQuestion?: string;
+      incidentId?: string;
+      teamId?: string | null;
+    },
+    options?: {
+      priority?: number | null;
+      previousReport?: string;
+      delayMs?: number;
+    },
+  ) {
+    return this.prisma.triageRun.create({
+      data: {
+        ...run,
+        status: "queued",
+        job: {
+          create: {
+            priority: options?.priority ?? DEFAULT_PRIORITY,
+            previousReport: options?.previousReport,
+            runAfter: options?.delayMs
+              ? new Date(Date.now() + options.delayMs)
+              : undefined,
+            maxAttempts: Math.max(1, envNumber("TRIAGE_MAX_ATTEMPTS", 3)),
+          },
+        },
+      },
+    });
+  }
+
+  /** Claims the most urgent due job, or returns null when none is ready. */
+  async claimNext(ownerId: string): Promise<ClaimedTriageJob | null> {
+    for (let attempt = 0; attempt < 3; attempt += 1) {
+      const now = new Date();
+      const candidate = await this.prisma.triageJob.findFirst({
+        where: { status: "pending", runAfter: { lte: now } },
+        orderBy: [{ priority: "asc" }, { createdAt: "asc" }],
+        select: { id: true },
+      });
+      if (!candidate) return null;
+
+      const claimed = await this.prisma.triageJob.updateMany({
+        where: { id: candidate.id, status: "pending" },
+        data: {
+          status: "active",
+          lockedBy: ownerId,
+          lockedAt: now,
+          attempts: { increment: 1 },
+        },
+      });
+      // Another worker won the race; look for the next candidate.
+      if (claimed.count === 0) continue;
+
+      return this.prisma.triageJob.findUnique({
+        where: { id: candidate.id },
+        select: {
+          id: true,
+          runId: true,
+          attempts: true,
+          maxAttempts: true,
+          previousReport: true,
+        },
+      });
+    }
+    return null;
+  }
+
+  async heartbeat(jobIds: string[], ownerId: string) {
+    if (jobIds.length === 0) return;
+    await this.prisma.triageJob.updateMany({
+      where: { id: { in: jobIds }, lockedBy: ownerId, status: "active" },
+      data: { lockedAt: new Date() },
+    });
+  }
+
+  async complete(jobId: string) {
+    await this.prisma.triageJob.update({
+      where: { id: jobId },
+      data: { status: "done", lockedBy: null, lockedAt: null },
+    });
+  }
+
+  /**
+   * Puts a failed job back on the queue with exponential backoff, or marks it
+   * failed once `maxAttempts` is reached. Returns whether it will retry.
+   */
+  async retryOrFail(job: ClaimedTriageJob, error: unknown) {
+    const retry = job.attempts < job.maxAttempts;
+    const baseMs = envNumber("TRIAGE_RETRY_BACKOFF_MS", 30_000);
+    // Only the active claim may reschedule; a job already failed by a manual
+    // clear or the stale-run sweep stays failed.
+    const updated = await this.prisma.triageJob.updateMany({
+      where: { id: job.id, status: "active" },
+      data: {
+        status: retry ? "pending" : "failed",
+        runAfter: retry
+          ? new Date(Date.now() + baseMs * 2 ** (job.attempts - 1))
+          : undefined,
+        lockedBy: null,
+        lockedAt: null,
+        lastError: formatError(error),
+      },
+    });
+    return retry && updated.count > 0;
+  }
+
+  /** Closes outstanding jobs for runs that were finished outside the queue. */
+  async failForRuns(
+    runIds: string[],
+    reason: string,
+    status: "failed" | "cancelled" = "failed",
+  ) {
+    if (runIds.length === 0) return;
+    await this.prisma.triageJob.updateMany({
+      where: { runId: { in: runIds }, status: { in: ["pending", "active"] } },
+      data: {
+        status,
+        lockedBy: null,
+        lockedAt: null,
+        lastError: reason,
+      },
+    });
+  }
+
+  /**
+   * Hands jobs whose worker stopped heart-beating (crash, restart) back to
+   * the queue. The interrupted attempt still counts towards `maxAttempts`.
+   */
+  async recoverStale() {
+    const staleMs = envNumber("TRIAGE_JOB_STALE_MS", 90_000);
+    const threshold = new Date(Date.now() - staleMs);
+    const stale = await this.prisma.triageJob.findMany({
+      where: { status: "active", lockedAt: { lt: threshold } },
+      select: { id: true, runId: true, attempts: true, maxAttempts: true },
+    });
+    if (stale.length === 0) return 0;
+
+    const reason = "Worker stopped responding";
+    const exhausted = stale.filter((job) => job.attempts >= job.maxAttempts);
+    const retryable = stale.filter((job) => job.attempts < job.maxAttempts);
+    if (retryable.length > 0) {
+      await this.release(
+        retryable.map((job) => job.id),
+        retryable.map((job) => job.runId),
+        reason,
+      );
+    }
+    if (exhausted.length > 0) {
+      const runIds = exhausted.map((job) => job.runId);
+      await this.failForRuns(runIds, reason);
+      await this.prisma.triageRun.updateMany({
+        where: { id: { in: runIds }, status: { in: ["queued", "running"] } },
+        data: { status: "failed", error: reason, finishedAt: new Date() },
+      });
+    }
+    return stale.length;
+  }
+
+  /** Returns active jobs to the queue and their runs to `queued`. */
+  async release(jobIds: string[], runIds: string[], reason: string) {
+    if (jobIds.length === 0) return;
+    await this.prisma.triageJob.updateMany({
+      where: { id: { in: jobIds }, status: "active" },
+      data: {
+        status: "pending",
+        lockedBy: null,
+        lockedAt: null,
+        runAfter: new Date(),
+        lastError: reason,
+      },
+    });
+    await this.prisma.triageRun.updateMany({
+      where: { id: { in: runIds }, status: "running" },
+      data: { status: "queued" },
+    });
+  }
+}
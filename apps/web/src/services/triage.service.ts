@@ -1,50 +1,62 @@
-import axios from "axios";
 import { execFile, spawnSync } from "child_process";
 import { promisify } from "util";
 import { PrismaService } from "@/services/prisma.service";
 import { buildPrompt } from "@/triage/prompt";
-import { AlertContext, TriageProvider } from "@/triage/types";
+import { parseTriageReport } from "@/triage/report-parser";
+import {
+  AlertContext,
+  AlertSource,
+  AlertSourceName,
+  ProviderAttempt,
+  SimilarIncident,
+  TriageProvider,
+} from "@/triage/types";
 import path from "path";
 import {
-  extractPriority,
-  extractRepoFromMessage,
   findRepoPath,
-  guessServiceFromMessage,
-  guessServiceFromName,
-  guessServiceFromQuery,
-  guessServiceFromTags,
   matchesAlertFilter,
-  matchesNamespace,
-  matchesTeam,
-  monitorUrl,
   parseAlertStates,
   parseTeamFilter,
   parseServiceRepoMap,
+  matchesNamespace,
+  matchesTeam,
   extractRepoNameFromMonitorName,
+  fixBranchName,
   guessGitHubRepoPath,
 } from "@/triage/utils";
 import { OpenCodeProvider } from "@/services/providers/opencode.provider";
 import { MockProvider } from "@/services/providers/mock.provider";
 import { CodexProvider } from "@/services/providers/codex.provider";
+import { HttpChatProvider } from "@/services/providers/http-chat.provider";
+import {
+  DEFAULT_TOOL_ALLOWLIST,
+  ToolSandbox,
+} from "@/services/providers/tool-sandbox";
+import {
+  failoverReason,
+  failoverRules,
+  providerChain,
+} from "@/services/providers/failover";
+import { DatadogAlertSource } from "@/services/sources/datadog.source";
+import { AlertmanagerAlertSource } from "@/services/sources/alertmanager.source";
+import { GenericAlertSource } from "@/services/sources/generic.source";
 import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
 import { envString, envBool, envNumber } from "@/utils/env";
 import { formatError } from "@/utils/error";
 import { Prisma } from "@prisma/client";
 import { MonitorRepoMappingService } from "@/services/monitor-repo-mapping.service";
-
-interface DatadogMonitor {
-  id: string | number;
-  name: string;
-  overall_state: string;
-  message: string;
-  query: string;
-  tags: string[];
-  priority: number | null;
-  type: string;
-  modified: string;
-  overall_state_modified: string;
-  [key: string]: unknown;
-}
+import {
+  ClaimedTriageJob,
+  TriageQueueService,
+} from "@/services/triage-queue.service";
+import { SimilarityService } from "@/services/similarity.service";
+import { IncidentService } from "@/services/incident.service";
+import { getSecret, secretEnv } from "@/services/secrets.service";
+import { TeamService, TeamSettings } from "@/services/team.service";
+import { NotificationService } from "@/services/notification.service";
+import { PagingService } from "@/services/paging.service";
+import { RunProgressService } from "@/services/run-progress.service";
+import { costOf, UsageService } from "@/services/usage.service";
 
 export class TriageService {
   private readonly logger = {
@@ -58,13 +70,29 @@ export class TriageService {
   private readonly lockName = "triage-scheduler";
   private readonly ownerId = `${process.pid}-${Math.random().toString(36).slice(2)}`;
   private readonly execFileAsync = promisify(execFile);
+  private readonly activeJobs = new Map<string, string>();
+  private readonly runControllers = new Map<string, AbortController>();
+  private queueTimers: NodeJS.Timeout[] = [];
+  private isPumping = false;
+  private pumpRequested = false;
 
   constructor(
     private prisma: PrismaService,
     private repoMappingService: MonitorRepoMappingService,
+    private queue: TriageQueueService,
+    private similarityService: SimilarityService,
+    private incidentService: IncidentService,
+    private teamService: TeamService,
+    private notificationService: NotificationService,
+    private pagingService: PagingService,
+    private runProgress: RunProgressService,
+    private usageService: UsageService,
   ) {}
 
   initialize() {
+    // Queued runs (manual re-runs, follow-ups) are worked even when polling
+    // is disabled.
+    this.startQueueWorker();
     if (!envBool("TRIAGE_ENABLED", true)) return;
     void this.handleCron();
     void this.runRepoAutoDiscovery();
@@ -73,6 +101,13 @@ export class TriageService {
   async shutdown() {
     this.logger.log("Application shutdown initiated...");
     this.isShuttingDown = true;
+    this.queueTimers.forEach((timer) => clearInterval(timer));
+    this.queueTimers = [];
+    await this.queue.release(
+      Array.from(this.activeJobs.keys()),
+      Array.from(this.activeJobs.values()),
+      "Worker shut down",
+    );
     await this.releaseLease();
     this.isRunning = false;
     this.logger.log("Application shutdown complete.");
@@ -182,6 +217,9 @@ export class TriageService {
       for (const alert of alerts) {
         await this.processAlert(alert);
       }
+      await this.collectRecoveries().catch((error) => {
+        this.logger.warn(`Recovery check failed: ${formatError(error)}`);
+      });
       await this.updateSchedulerState({ lastSuccessAt: new Date() });
       this.logger.log(
         `Scheduler run completed (${alerts.length} alerts, ${Date.now() - startedAt}ms).`,
@@ -394,7 +432,12 @@ export class TriageService {
     return { queued: true };
   }
 
-  async continueRun(runId: string) {
+  /**
+   * Queues a follow-up run on the same alert that sees the previous report
+   * and, optionally, a question from the engineer. The new run is linked to
+   * `runId` so the UI can show the alert's runs as one conversation.
+   */
+  async continueRun(runId: string, followUpQuestion?: string) {
     const previous = await this.prisma.triageRun.findUnique({
       where: { id: runId },
       include: { alert: true },
@@ -403,41 +446,18 @@ export class TriageService {
       return { error: "Run not found" };
     }
 
-    const run = await this.prisma.triageRun.create({
-      data: {
-        alertId: previous.alert.id,
-        status: "running",
-        provider: envString("PROVIDER") ?? "opencode",
-      },
-    });
-
-    const alertContext: AlertContext = {
-      monitorId: previous.alert.monitorId ?? undefined,
-      monitorName: previous.alert.monitorName ?? undefined,
-      monitorState: previous.alert.monitorState ?? undefined,
-      priority: previous.alert.priority ?? undefined,
-      monitorUrl: previous.alert.monitorUrl ?? undefined,
-      monitorMessage: previous.alert.monitorMessage ?? undefined,
-      monitorQuery: previous.alert.monitorQuery ?? undefined,
-      monitorTags: (previous.alert.monitorTags as string[]) ?? undefined,
-      overallStateModified: previous.alert.overallStateModified?.toISOString(),
-      service: previous.alert.service ?? undefined,
-      environment: previous.alert.environment ?? undefined,
-      sourceRepo: previous.alert.sourceRepo ?? undefined,
-      repoHint: previous.alert.repoHint ?? undefined,
-      repoUrl: previous.alert.repoUrl ?? undefined,
-      repoPath: previous.alert.repoPath ?? undefined,
-    };
-
-    void this.runTriage(run, alertContext, {
+    const run = await this.enqueueRun(previous.alert, {
       previousReport: previous.reportMarkdown ?? "",
+      parentRunId: previous.id,
+      followUpQuestion: followUpQuestion?.trim() || undefined,
+      incidentId: previous.incidentId ?? undefined,
     });
+    this.logger.log(`Queued follow-up ${run.id} for run ${previous.id}.`);
     return { queued: true, runId: run.id };
   }
 
-  private resolveRepoRoot() {
-    const fromEnv = envString("REPO_ROOT");
-    if (fromEnv) return fromEnv;
+  private resolveRepoRoot(repoRoot = envString("REPO_ROOT")) {
+    if (repoRoot) return repoRoot;
 
     const resolvedPath = path.resolve(__dirname, "../../../../..");
     this.logger.log(
@@ -446,6 +466,80 @@ export class TriageService {
     return resolvedPath;
   }
 
+  private alertContextFromEvent(
+    alert: Prisma.AlertEventGetPayload<object>,
+  ): AlertContext {
+    return {
+      source: alert.source as AlertSourceName,
+      monitorId: alert.monitorId ?? undefined,
+      monitorName: alert.monitorName ?? undefined,
+      monitorState: alert.monitorState ?? undefined,
+      priority: alert.priority ?? undefined,
+      monitorUrl: alert.monitorUrl ?? undefined,
+      monitorMessage: alert.monitorMessage ?? undefined,
+      monitorQuery: alert.monitorQuery ?? undefined,
+      monitorTags: (alert.monitorTags as string[]) ?? undefined,
+      overallStateModified: alert.overallStateModified?.toISOString(),
+      service: alert.service ?? undefined,
+      environment: alert.environment ?? undefined,
+      sourceRepo: alert.sourceRepo ?? undefined,
+      repoHint: alert.repoHint ?? undefined,
+      repoUrl: alert.repoUrl ?? undefined,
+      repoPath: alert.repoPath ?? undefined,
+    };
+  }
+
+  /**
+   * The run's alert, plus every member alert when it is part of an incident
+   * and the state of the page it triggered.
+   */
+  private async runAlertContext(
+    alert: Prisma.AlertEventGetPayload<object>,
+    incidentId: string | null,
+  ): Promise<AlertContext> {
+    const context = await this.pagingService.enrich({
+      ...this.alertContextFromEvent(alert),
+      teamId: alert.teamId ?? undefined,
+    });
+    if (!incidentId) return context;
+    const incident = await this.incidentService.getWithAlerts(incidentId);
+    if (!incident || incident.alerts.length < 2) return context;
+    return {
+      ...context,
+      incident: {
+        id: incident.id,
+        title: incident.title,
+        firstAlertAt: incident.firstAlertAt.toISOString(),
+        alerts: incident.alerts.map((member) =>
+          this.alertContextFromEvent(member),
+        ),
+      },
+    };
+  }
+
+  private withRepoPath(alert: AlertContext, scope: TeamSettings): AlertContext {
+    const scoped = { ...alert, teamId: scope.teamId ?? undefined };
+    if (alert.repoPath) return scoped;
+    const repoRoot = this.resolveRepoRoot(scope.repoRoot);
+    const repoMap = parseServiceRepoMap(envString("SERVICE_REPO_MAP"));
+    let repoPath =
+      findRepoPath(
+        alert.service,
+        alert.repoHint,
+        alert.sourceRepo,
+        repoRoot,
+        repoMap,
+      ) ?? undefined;
+
+    if (!repoPath && alert.monitorName) {
+      const guessedRepoName = extractRepoNameFromMonitorName(alert.monitorName);
+      if (guessedRepoName) {
+        repoPath = guessGitHubRepoPath(guessedRepoName, repoRoot) ?? undefined;
+      }
+    }
+    return { ...scoped, repoPath };
+  }
+
   async rerunRun(runId: string) {
     this.logger.log(`Re-run requested for run ${runId}.`);
     const previous = await this.prisma.triageRun.findUnique({
@@ -457,34 +551,10 @@ export class TriageService {
       return { error: "Run not found" };
     }
 
-    const run = await this.prisma.triageRun.create({
-      data: {
-        alertId: previous.alert.id,
-        status: "running",
-        provider: envString("PROVIDER") ?? "opencode",
-      },
+    const run = await this.enqueueRun(previous.alert, {
+      incidentId: previous.incidentId ?? undefined,
     });
-    this.logger.log(`Created rerun ${run.id} for alert ${previous.alert.id}.`);
-
-    const alertContext: AlertContext = {
-      monitorId: previous.alert.monitorId ?? undefined,
-      monitorName: previous.alert.monitorName ?? undefined,
-      monitorState: previous.alert.monitorState ?? undefined,
-      priority: previous.alert.priority ?? undefined,
-      monitorUrl: previous.alert.monitorUrl ?? undefined,
-      monitorMessage: previous.alert.monitorMessage ?? undefined,
-      monitorQuery: previous.alert.monitorQuery ?? undefined,
-      monitorTags: (previous.alert.monitorTags as string[]) ?? undefined,
-      overallStateModified: previous.alert.overallStateModified?.toISOString(),
-      service: previous.alert.service ?? undefined,
-      environment: previous.alert.environment ?? undefined,
-      sourceRepo: previous.alert.sourceRepo ?? undefined,
-      repoHint: previous.alert.repoHint ?? undefined,
-      repoUrl: previous.alert.repoUrl ?? undefined,
-      repoPath: previous.alert.repoPath ?? undefined,
-    };
-
-    void this.runTriage(run, alertContext, {});
+    this.logger.log(`Queued rerun ${run.id} for alert ${previous.alert.id}.`);
     return { queued: true, runId: run.id };
   }
 
@@ -501,9 +571,10 @@ export class TriageService {
     });
   }
 
-  async reprocessLastError() {
+  async reprocessLastError(teamId?: string) {
     this.logger.log("Reprocess last error requested.");
-    const lastError = await this.fetchLastErrorFromDatadog();
+    const scope = await this.teamService.settingsFor(teamId);
+    const lastError = await this.fetchLastErrorFromDatadog(scope);
     if (!lastError) {
       this.logger.warn(
         "Reprocess last error: no matching alerts found in Datadog.",
@@ -530,132 +601,11 @@ export class TriageService {
     return { queued: true, monitorId: lastError.monitorId };
   }
 
-  private async fetchLastErrorFromDatadog(): Promise<AlertContext | null> {
-    const apiKey = envString("DATADOG_API_KEY") ?? "";
-    const appKey = envString("DATADOG_APP_KEY") ?? "";
-    const site = envString("DATADOG_SITE") ?? "datadoghq.com";
-    const timeoutMs = envNumber("DATADOG_TIMEOUT_MS", 20_000);
-    const teamFilter = parseTeamFilter(envString("ALERT_TEAM"));
-
-    if (!apiKey || !appKey) {
-      this.logger.warn("Missing Datadog keys for reprocess last error.");
-      return null;
-    }
-
-    if (teamFilter.length === 0) {
-      this.logger.warn("ALERT_TEAM not configured for reprocess last error.");
-      return null;
-    }
-
-    try {
-      this.logger.log("Fetching Datadog monitors for reprocess last error.");
-      const response = await axios.get(
-        `https://api.${site}/api/v1/monitor?with_downtimes=true`,
-        {
-          headers: { "DD-API-KEY": apiKey, "DD-APPLICATION-KEY": appKey },
-          timeout: timeoutMs,
-        },
-      );
-      const monitors = response.data ?? [];
-
-      const alerts: AlertContext[] = [];
-      const maxAgeHours = 24;
-
-      for (const monitor of monitors) {
-        const tags: string[] = monitor.tags ?? [];
-        if (
-          !matchesTeam(tags, teamFilter) &&
-          !matchesNamespace(tags, teamFilter)
-        )
-          continue;
-
-        const priority: number | null = (() => {
-          if (typeof monitor.priority === "number") return monitor.priority;
-          if (typeof monitor.priority === "string") {
-            const parsed = Number.parseInt(monitor.priority, 10);
-            return Number.isFinite(parsed) ? parsed : null;
-          }
-          return (
-            extractPriority(monitor.name) ??
-            extractPriority(monitor.message) ??
-            null
-          );
-        })();
-
-        if (priority !== 2 && priority !== 4) continue;
-
-        const modified = monitor.overall_state_modified ?? monitor.modified;
-        const modifiedDate = modified ? new Date(modified) : null;
-        if (!modifiedDate || Number.isNaN(modifiedDate.valueOf())) continue;
-
-        if (Date.now() - modifiedDate.valueOf() > maxAgeHours * 60 * 60 * 1000)
-          continue;
-
-        const service =
-          guessServiceFromTags(tags) ||
-          guessServiceFromQuery(monitor.query) ||
-          guessServiceFromMessage(monitor.message) ||
-          guessServiceFromName(monitor.name);
-        const environment = tags
-          .find((tag) => tag.startsWith("environment:"))
-          ?.split(":")[1];
-        const sourceRepo = tags
-          .find((tag) => tag.startsWith("sourceRepo:"))
-          ?.split(":")[1];
-        const { repo: repoHint, url: repoUrl } = extractRepoFromMessage(
-          monitor.message,
-        );
-
-        const repoRoot = this.resolveRepoRoot();
-        const repoMap = parseServiceRepoMap(envString("SERVICE_REPO_MAP"));
-        let repoPath =
-          findRepoPath(service, repoHint, sourceRepo, repoRoot, repoMap) ??
-          undefined;
-
-        if (!repoPath && monitor.name) {
-          const guessedRepoName = extractRepoNameFromMonitorName(monitor.name);
-          if (guessedRepoName) {
-            repoPath =
-              guessGitHubRepoPath(guessedRepoName, repoRoot) ?? undefined;
-          }
-        }
-
-        alerts.push({
-          monitorId: String(monitor.id),
-          monitorName: monitor.name,
-          monitorState: monitor.overall_state,
-          priority,
-          monitorUrl: monitorUrl(site, monitor.id),
-          monitorMessage: monitor.message,
-          monitorQuery: monitor.query,
-          monitorTags: tags,
-          overallStateModified: modifiedDate.toISOString(),
-          service: service ?? undefined,
-          environment,
-          sourceRepo,
-          repoHint: repoHint ?? undefined,
-          repoUrl: repoUrl ?? undefined,
-          repoPath,
-        });
-      }
-
-      alerts.sort((a, b) => {
-        const aTime = a.overallStateModified
-          ? new Date(a.overallStateModified).getTime()
-          : 0;
-        const bTime = b.overallStateModified
-          ? new Date(b.overallStateModified).getTime()
-          : 0;
-        return bTime - aTime;
-      });
-
-      return alerts.length > 0 ? alerts[0] : null;
-    } catch (error: unknown) {
-      this.logger.error(
-        `Datadog fetch failed for reprocess last error: ${error instanceof Error ? error.message : String(error)}`,
-      );
-      return null;
-    }
+  private async fetchLastErrorFromDatadog(
+    scope: TeamSettings,
+  ): Promise<AlertContext | null> {
+    const lastError = await this.createDatadogSource(scope).findLastError();
+    return lastError ? this.withRepoPath(lastError, scope) : null;
   }
 
   async forceClearRunning() {
@@ -679,6 +629,9 @@ export class TriageService {
         finishedAt: new Date(),
       },
     });
+    await this.queue.failForRuns(ids, "Manually cleared");
+    this.abortRuns(ids);
+    for (const id of ids) void this.notificationService.runEvent(id, "failed");
     await this.prisma.schedulerLock.updateMany({
       where: { name: this.lockName },
       data: { leaseExpiresAt: new Date(0) },
@@ -700,7 +653,8 @@ export class TriageService {
     const codexBin =
       envString("CODEX_BIN") ??
       "/Applications/Codex.app/Contents/Resources/codex";
-    const repoRoot = this.resolveRepoRoot();
+    const scope = await this.teamService.settingsFor(run.teamId);
+    const repoRoot = this.resolveRepoRoot(scope.repoRoot);
     const cmd = `${codexBin} resume ${run.sessionId} -C ${repoRoot}`;
 
     if (process.platform === "darwin") {
@@ -736,15 +690,10 @@ export class TriageService {
     });
     if (!run?.alert) return { error: "Run not found" };
 
-    const service = run.alert.service ?? run.alert.repoHint ?? "triage";
-    const monitorName = run.alert.monitorName ?? "alert";
-    const slug = monitorName
-      .toLowerCase()
-      .replace(/[^a-z0-9]+/g, "-")
-      .replace(/^-+|-+$/g, "")
-      .slice(0, 32);
-    const date = new Date().toISOString().slice(0, 10).replace(/-/g, "");
-    const branchName = `triage/${service}/${date}-${slug}`.replace(/\/+/g, "/");
+    const branchName = fixBranchName(
+      run.alert.service ?? run.alert.repoHint ?? "triage",
+      run.alert.monitorName ?? "alert",
+    );
 
     const report = run.reportMarkdown ?? "";
     const fileRegex =
@@ -769,131 +718,265 @@ export class TriageService {
     };
   }
 
+  /** Polls every team's sources with its own filters and credentials. */
   async collectAlerts(): Promise<AlertContext[]> {
-    const apiKey = envString("DATADOG_API_KEY") ?? "";
-    const appKey = envString("DATADOG_APP_KEY") ?? "";
-    const site = envString("DATADOG_SITE") ?? "datadoghq.com";
-    const timeoutMs = envNumber("DATADOG_TIMEOUT_MS", 20_000);
+    const alerts: AlertContext[] = [];
 
-    if (!apiKey || !appKey) {
-      this.logger.warn("Missing Datadog keys. Skipping alert collection.");
-      return [];
+    for (const scope of await this.teamService.scopes()) {
+      for (const source of this.getAlertSources(scope)) {
+        let collected: AlertContext[] = [];
+        try {
+          collected = await source.collect();
+        } catch (error: unknown) {
+          this.logger.error(
+            `Alert source ${source.name} failed: ${formatError(error)}`,
+          );
+          continue;
+        }
+
+        for (const alert of collected) {
+          if (!alert.monitorId || !alert.overallStateModified) continue;
+          const exists = await this.findExistingAlertEvent(
+            alert.monitorId,
+            new Date(alert.overallStateModified),
+          );
+          // Teams with overlapping filters see the same monitor; the first
+          // one polled owns it.
+          if (
+            exists ||
+            alerts.some(
+              (seen) =>
+                seen.monitorId === alert.monitorId &&
+                seen.overallStateModified === alert.overallStateModified,
+            )
+          ) {
+            continue;
+          }
+          alerts.push(this.withRepoPath(alert, scope));
+        }
+      }
     }
 
-    const alertStates = parseAlertStates(envString("ALERT_STATES"));
-    const alertFilter = envString("ALERT_TEXT_FILTER");
-    const teamFilter = parseTeamFilter(envString("ALERT_TEAM"));
-    const maxAgeMinutes = envNumber("ALERT_MAX_AGE_MINUTES", 120);
-    const now = Date.now();
+    this.logger.log(`Alert sources filtered to ${alerts.length} new alert(s).`);
+    return alerts;
+  }
 
-    let monitors: DatadogMonitor[] = [];
-    try {
-      this.logger.log("Fetching Datadog monitors.");
-      const response = await axios.get(
-        `https://api.${site}/api/v1/monitor?with_downtimes=true`,
-        {
-          headers: { "DD-API-KEY": apiKey, "DD-APPLICATION-KEY": appKey },
-          timeout: timeoutMs,
-          timeoutErrorMessage: `Datadog request timed out after ${timeoutMs}ms`,
-        },
+  /**
+   * Entry point for push-delivered alerts. Datadog alerts are re-read from
+   * the monitor API so the dedup key matches what the poller would record;
+   * everything then goes through the same `AlertEvent` dedup as `runOnce`.
+   * Without `teamId` each alert goes to the first team whose filter it
+   * matches.
+   */
+  /**
+   * The state and text filters the matching poller applies, so a pushed
+   * alert only starts a run the poller would also have started.
+   */
+  private passesSourceFilters(alert: AlertContext) {
+    const state = (alert.monitorState ?? "").toLowerCase();
+    if (alert.source === "datadog") {
+      return (
+        parseAlertStates(envString("ALERT_STATES")).includes(state) &&
+        matchesAlertFilter(alert.monitorMessage, envString("ALERT_TEXT_FILTER"))
       );
-      monitors = response.data ?? [];
-      this.logger.log(`Datadog monitors fetched (${monitors.length}).`);
-    } catch (error: unknown) {
-      this.logger.error(
-        `Datadog fetch failed: ${(error instanceof Error ? error.message : String(error)) ?? "unknown error"}`,
+    }
+    if (alert.source === "generic") {
+      return parseAlertStates(envString("ALERT_STATES")).includes(state);
+    }
+    return true;
+  }
+
+  async ingestWebhookAlerts(alerts: AlertContext[], teamId?: string) {
+    const scopes = teamId
+      ? [await this.teamService.settingsFor(teamId)]
+      : await this.teamService.scopes();
+    let accepted = 0;
+    let duplicates = 0;
+    let ignored = 0;
+    let resolved = 0;
+
+    for (const received of alerts) {
+      const scope =
+        scopes.find((candidate) =>
+          this.matchesScope(received.monitorTags ?? [], candidate),
+        ) ?? scopes[0];
+      const alert =
+        received.source === "datadog" && received.monitorId
+          ? ((await this.createDatadogSource(scope).fetchMonitorAlert(
+              received.monitorId,
+            )) ?? received)
+          : received;
+      if (alert.monitorId && alert.monitorState === "ok") {
+        // Datadog's re-read monitor carries the recovery time; other sources
+        // only say the alert resolved, so the delivery time stands in.
+        const resolvedAt =
+          alert.source === "datadog" && alert.overallStateModified
+            ? new Date(alert.overallStateModified)
+            : new Date();
+        resolved += await this.resolveMonitor(alert.monitorId, resolvedAt);
+        continue;
+      }
+
+      if (
+        !alert.monitorId ||
+        !alert.overallStateModified ||
+        !this.matchesScope(alert.monitorTags ?? [], scope) ||
+        !this.passesSourceFilters(alert)
+      ) {
+        ignored += 1;
+        continue;
+      }
+
+      const exists = await this.findExistingAlertEvent(
+        alert.monitorId,
+        new Date(alert.overallStateModified),
       );
-      return [];
+      if (exists) {
+        duplicates += 1;
+        continue;
+      }
+
+      accepted += 1;
+      void this.processAlert(this.withRepoPath(alert, scope)).catch((error) => {
+        this.logger.error(
+          `Webhook alert ${alert.monitorId} failed: ${formatError(error)}`,
+        );
+      });
     }
-    this.logger.log("Filtering Datadog monitors.");
-    const alerts: AlertContext[] = [];
 
-    for (const monitor of monitors) {
-      const overallState = (monitor.overall_state ?? "").toLowerCase();
-      if (!alertStates.includes(overallState)) continue;
-      if (!matchesAlertFilter(monitor.message, alertFilter)) continue;
+    this.logger.log(
+      `Webhook ingested ${accepted} alert(s) (${duplicates} duplicate, ${ignored} ignored, ${resolved} resolved).`,
+    );
+    return { accepted, duplicates, ignored, resolved };
+  }
 
-      const modified = monitor.overall_state_modified ?? monitor.modified;
-      const modifiedDate = modified ? new Date(modified) : null;
-      if (!modifiedDate || Number.isNaN(modifiedDate.valueOf())) continue;
-      if (now - modifiedDate.valueOf() > maxAgeMinutes * 60 * 1000) continue;
+  private matchesScope(tags: string[], scope: TeamSettings) {
+    const teamFilter = parseTeamFilter(scope.alertTeam);
+    return matchesTeam(tags, teamFilter) || matchesNamespace(tags, teamFilter);
+  }
 
-      const exists = await this.prisma.alertEvent.findFirst({
+  /**
+   * Asks each alert source for the current state of monitors that still have
+   * an open AlertEvent and closes out the ones that recovered.
+   */
+  async collectRecoveries() {
+    let resolved = 0;
+    const scopes = await this.teamService.scopes();
+    const teamsExist = scopes.some((scope) => scope.teamId);
+    // Alerts recorded before the first team was created have no team; the
+    // env-driven sources that raised them still check them.
+    if (teamsExist) scopes.push(await this.teamService.settingsFor(null));
+    for (const scope of scopes) {
+      const open = await this.prisma.alertEvent.findMany({
         where: {
-          monitorId: String(monitor.id),
-          overallStateModified: modifiedDate,
+          resolvedAt: null,
+          monitorId: { not: null },
+          // The env-driven scope (no teams) checks every open alert.
+          ...(teamsExist ? { teamId: scope.teamId ?? null } : {}),
         },
+        select: { source: true, monitorId: true },
       });
-      if (exists) continue;
-
-      const tags: string[] = monitor.tags ?? [];
-      if (!matchesTeam(tags, teamFilter) && !matchesNamespace(tags, teamFilter))
-        continue;
-      let priority: number | null = null;
-      if (typeof monitor.priority === "number") {
-        priority = monitor.priority;
-      } else if (typeof monitor.priority === "string") {
-        const parsed = Number.parseInt(monitor.priority, 10);
-        priority = Number.isFinite(parsed) ? parsed : null;
-      }
-      if (!priority) {
-        priority =
-          extractPriority(monitor.name) ??
-          extractPriority(monitor.message) ??
-          null;
-      }
-      const service =
-        guessServiceFromTags(tags) ||
-        guessServiceFromQuery(monitor.query) ||
-        guessServiceFromMessage(monitor.message) ||
-        guessServiceFromName(monitor.name);
-      const environment = tags
-        .find((tag) => tag.startsWith("environment:"))
-        ?.split(":")[1];
-      const sourceRepo = tags
-        .find((tag) => tag.startsWith("sourceRepo:"))
-        ?.split(":")[1];
-      const { repo: repoHint, url: repoUrl } = extractRepoFromMessage(
-        monitor.message,
-      );
-
-      const repoRoot = this.resolveRepoRoot();
-      const repoMap = parseServiceRepoMap(envString("SERVICE_REPO_MAP"));
-      let repoPath =
-        findRepoPath(service, repoHint, sourceRepo, repoRoot, repoMap) ??
-        undefined;
-
-      if (!repoPath && monitor.name) {
-        const guessedRepoName = extractRepoNameFromMonitorName(monitor.name);
-        if (guessedRepoName) {
-          repoPath =
-            guessGitHubRepoPath(guessedRepoName, repoRoot) ?? undefined;
+      if (open.length === 0) continue;
+
+      for (const source of this.getAlertSources(scope)) {
+        if (!source.monitorStates) continue;
+        const monitorIds = Array.from(
+          new Set(
+            open
+              .filter((event) => event.source === source.name)
+              .map((event) => event.monitorId as string),
+          ),
+        );
+        if (monitorIds.length === 0) continue;
+
+        const states = await source.monitorStates(monitorIds);
+        if (!states) continue;
+        for (const monitorId of monitorIds) {
+          const status = states.get(monitorId);
+          if (status?.state !== "ok") continue;
+          const since = status.since ? new Date(status.since) : null;
+          resolved += await this.resolveMonitor(
+            monitorId,
+            since && !Number.isNaN(since.valueOf()) ? since : new Date(),
+          );
         }
       }
+    }
+    if (resolved > 0) {
+      this.logger.log(`Resolved ${resolved} recovered alert(s).`);
+    }
+    return resolved;
+  }
 
-      alerts.push({
-        monitorId: String(monitor.id),
-        monitorName: monitor.name,
-        monitorState: monitor.overall_state,
-        priority,
-        monitorUrl: monitorUrl(site, monitor.id),
-        monitorMessage: monitor.message,
-        monitorQuery: monitor.query,
-        monitorTags: tags,
-        overallStateModified: modifiedDate.toISOString(),
-        service: service ?? undefined,
-        environment,
-        sourceRepo,
-        repoHint: repoHint ?? undefined,
-        repoUrl: repoUrl ?? undefined,
-        repoPath,
+  /**
+   * Records recovery on every open AlertEvent of a monitor that fired before
+   * `resolvedAt`, then supersedes their in-flight runs.
+   */
+  private async resolveMonitor(monitorId: string, resolvedAt: Date) {
+    const events = await this.prisma.alertEvent.findMany({
+      where: { monitorId, resolvedAt: null },
+      select: {
+        id: true,
+        overallStateModified: true,
+        createdAt: true,
+        incidentId: true,
+      },
+    });
+
+    let resolved = 0;
+    for (const event of events) {
+      const firedAt = event.overallStateModified ?? event.createdAt;
+      if (firedAt > resolvedAt) continue;
+      const updated = await this.prisma.alertEvent.updateMany({
+        where: { id: event.id, resolvedAt: null },
+        data: {
+          resolvedAt,
+          timeToRecoverSec: Math.round(
+            (resolvedAt.getTime() - firedAt.getTime()) / 1000,
+          ),
+        },
       });
+      if (updated.count === 0) continue;
+      resolved += 1;
+      this.logger.log(
+        `Alert ${event.id} (${monitorId}) recovered at ${resolvedAt.toISOString()}.`,
+      );
+      // An incident's consolidated run stays relevant until every member
+      // alert has recovered.
+      if (!event.incidentId) {
+        await this.supersedeRuns({ alertId: event.id });
+      } else if (
+        await this.incidentService.resolveIfRecovered(event.incidentId)
+      ) {
+        this.logger.log(`Incident ${event.incidentId} resolved.`);
+        await this.supersedeRuns({ incidentId: event.incidentId });
+      }
     }
+    return resolved;
+  }
 
-    this.logger.log(
-      `Datadog monitors filtered to ${alerts.length} new alert(s).`,
-    );
-    return alerts;
+  /**
+   * Flags queued/running runs of a recovered alert or incident. They finish
+   * normally unless `CANCEL_ON_RECOVERY` is set.
+   */
+  private async supersedeRuns(where: {
+    alertId?: string;
+    incidentId?: string;
+  }) {
+    const inFlight = await this.prisma.triageRun.findMany({
+      where: { ...where, status: { in: ["queued", "running"] } },
+      select: { id: true },
+    });
+    if (inFlight.length === 0) return;
+
+    await this.prisma.triageRun.updateMany({
+      where: { id: { in: inFlight.map((run) => run.id) } },
+      data: { supersededAt: new Date() },
+    });
+    if (!envBool("CANCEL_ON_RECOVERY", false)) return;
+    for (const run of inFlight) {
+      await this.cancelRun(run.id, "Superseded by recovery");
+    }
   }
 
   private withTimeout<T>(
@@ -916,25 +999,38 @@ export class TriageService {
   }
 
   private async failStaleRuns() {
+    // Each provider in a failover chain gets its own provider timeout.
     const timeoutMs = envNumber(
       "TRIAGE_RUN_TIMEOUT_MS",
-      envNumber("TRIAGE_PROVIDER_TIMEOUT_MS", 1_200_000) + 120_000,
+      envNumber("TRIAGE_PROVIDER_TIMEOUT_MS", 1_200_000) *
+        providerChain(envString("PROVIDER", "opencode")).length +
+        120_000,
     );
     const threshold = new Date(Date.now() - timeoutMs);
     const stale = await this.prisma.triageRun.findMany({
-      where: { status: "running", createdAt: { lt: threshold } },
+      where: {
+        status: "running",
+        OR: [
+          { startedAt: { lt: threshold } },
+          { startedAt: null, createdAt: { lt: threshold } },
+        ],
+      },
       select: { id: true },
     });
     if (stale.length === 0) return;
     const ids = stale.map((run) => run.id);
+    const error = `Timed out after ${Math.round(timeoutMs / 1000)}s`;
     await this.prisma.triageRun.updateMany({
       where: { id: { in: ids } },
       data: {
         status: "failed",
-        error: `Timed out after ${Math.round(timeoutMs / 1000)}s`,
+        error,
         finishedAt: new Date(),
       },
     });
+    await this.queue.failForRuns(ids, error);
+    this.abortRuns(ids);
+    for (const id of ids) void this.notificationService.runEvent(id, "failed");
     this.logger.warn(`Marked ${ids.length} stale triage run(s) as failed.`);
   }
 
@@ -965,71 +1061,328 @@ export class TriageService {
       }
     }
 
-    const enrichedAlert: AlertContext = { ...alert };
-
     if (!alertRecord) {
       this.logger.log("Creating new alert event record...");
-      alertRecord = await this.prisma.alertEvent.create({
-        data: {
-          monitorId: alert.monitorId,
-          monitorName: alert.monitorName ?? "",
-          monitorState: alert.monitorState ?? "",
-          priority: alert.priority ?? undefined,
-          monitorUrl: alert.monitorUrl,
-          monitorMessage: alert.monitorMessage,
-          monitorQuery: alert.monitorQuery,
-          monitorTags: alert.monitorTags ?? [],
-          overallStateModified: alert.overallStateModified
-            ? new Date(alert.overallStateModified)
-            : undefined,
-          service: alert.service,
-          environment: alert.environment,
-          sourceRepo: alert.sourceRepo,
-          repoHint: alert.repoHint,
-          repoUrl: alert.repoUrl,
-          repoPath: alert.repoPath,
-        },
-      });
+      try {
+        alertRecord = await this.prisma.alertEvent.create({
+          data: {
+            source: alert.source ?? "datadog",
+            monitorId: alert.monitorId,
+            monitorName: alert.monitorName ?? "",
+            monitorState: alert.monitorState ?? "",
+            priority: alert.priority ?? undefined,
+            monitorUrl: alert.monitorUrl,
+            monitorMessage: alert.monitorMessage,
+            monitorQuery: alert.monitorQuery,
+            monitorTags: alert.monitorTags ?? [],
+            overallStateModified: alert.overallStateModified
+              ? new Date(alert.overallStateModified)
+              : undefined,
+            service: alert.service,
+            environment: alert.environment,
+            sourceRepo: alert.sourceRepo,
+            repoHint: alert.repoHint,
+            repoUrl: alert.repoUrl,
+            repoPath: alert.repoPath,
+            teamId: alert.teamId,
+          },
+        });
+      } catch (error) {
+        // The poller and the webhook can race on the same alert; the unique
+        // (monitorId, overallStateModified) index lets exactly one through.
+        if (
+          error instanceof Prisma.PrismaClientKnownRequestError &&
+          error.code === "P2002"
+        ) {
+          this.logger.log(
+            `Alert ${alert.monitorId} already recorded, skipping duplicate.`,
+          );
+          return;
+        }
+        throw error;
+      }
     } else {
       this.logger.log(`Using existing alert event record: ${alertRecord.id}`);
     }
 
-    this.logger.log("Creating triage run...");
-    const run = await this.prisma.triageRun.create({
-      data: {
-        alertId: alertRecord.id,
-        status: "running",
-        provider: envString("PROVIDER") ?? "opencode",
-      },
-    });
+    let incidentId = alertRecord.incidentId ?? undefined;
+    let followUp: {
+      previousReport?: string;
+      parentRunId?: string;
+      followUpQuestion?: string;
+    } = {};
+    if (!incidentId) {
+      const scope = await this.teamService.settingsFor(alertRecord.teamId);
+      const assigned = await this.incidentService.assign(
+        alertRecord,
+        scope.skillsContextPath,
+      );
+      incidentId = assigned.incidentId;
+      if (!assigned.created && !allowReprocess) {
+        // A queued run reads the incident's member list when it starts, so
+        // it picks this alert up. Runs that already started never saw it.
+        const queued = await this.prisma.triageRun.count({
+          where: { incidentId, status: "queued" },
+        });
+        if (queued > 0) {
+          this.logger.log(
+            `Alert ${alert.monitorId} joined incident ${incidentId}; its queued run covers it.`,
+          );
+          return;
+        }
+        const latest = await this.prisma.triageRun.findFirst({
+          where: { incidentId, status: "complete" },
+          orderBy: { createdAt: "desc" },
+        });
+        if (latest) {
+          followUp = {
+            previousReport: latest.reportMarkdown ?? "",
+            parentRunId: latest.id,
+            followUpQuestion: `Alert "${alertRecord.monitorName}" joined this incident after the previous report. Update the diagnosis to account for it.`,
+          };
+        }
+      }
+    }
+
+    if (!allowReprocess) {
+      const budget = await this.usageService.budget();
+      if (budget.paused) {
+        this.logger.warn(
+          `Monthly triage budget reached ($${budget.spentUsd.toFixed(2)} of $${budget.limitUsd}); recorded ${alert.monitorId} without a run.`,
+        );
+        return;
+      }
+    }
 
-    this.logger.log("Starting runTriage()...");
-    await this.runTriage(run, enrichedAlert, {});
-    this.logger.log("runTriage() completed");
+    const run = await this.enqueueRun(alertRecord, {
+      ...followUp,
+      incidentId,
+      // Give correlated alerts from the same burst time to join before the
+      // consolidated run starts.
+      delayMs: allowReprocess ? 0 : envNumber("INCIDENT_GROUP_WAIT_MS", 15_000),
+    });
+    this.logger.log(`Queued triage run ${run.id} for ${alert.monitorId}.`);
   }
 
-  private async runTriage(
-    run: { id: string; provider: string },
-    alert: AlertContext,
+  private async enqueueRun(
+    alert: { id: string; priority: number | null; teamId: string | null },
     options?: {
       previousReport?: string;
+      parentRunId?: string;
+      followUpQuestion?: string;
+      incidentId?: string;
+      delayMs?: number;
     },
   ) {
+    const scope = await this.teamService.settingsFor(alert.teamId);
+    const run = await this.queue.enqueue(
+      {
+        alertId: alert.id,
+        teamId: alert.teamId,
+        provider: scope.provider,
+        parentRunId: options?.parentRunId,
+        followUpQuestion: options?.followUpQuestion,
+        incidentId: options?.incidentId,
+      },
+      {
+        priority: alert.priority,
+        previousReport: options?.previousReport,
+        delayMs: options?.delayMs,
+      },
+    );
+    void this.pumpQueue();
+    return run;
+  }
+
+  private startQueueWorker() {
+    if (this.queueTimers.length > 0) return;
+    const pollMs = envNumber("TRIAGE_QUEUE_POLL_MS", 5_000);
+    const heartbeatMs = envNumber("TRIAGE_JOB_HEARTBEAT_MS", 15_000);
+    this.queueTimers = [
+      setInterval(() => void this.pumpQueue(), pollMs),
+      setInterval(() => {
+        void this.syncActiveJobs().catch((error) => {
+          this.logger.warn(`Queue heartbeat failed: ${formatError(error)}`);
+        });
+      }, heartbeatMs),
+      setInterval(() => void this.notificationService.retryDue(), pollMs),
+      setInterval(() => {
+        void this.runProgress.prune().catch((error) => {
+          this.logger.warn(`Progress pruning failed: ${formatError(error)}`);
+        });
+      }, 60_000),
+    ];
+    void this.pumpQueue();
+  }
+
+  /**
+   * Keeps claimed jobs alive and stops runs that were cancelled from another
+   * process, which cannot reach this process's child processes directly.
+   */
+  private async syncActiveJobs() {
+    if (this.activeJobs.size === 0) return;
+    await this.queue.heartbeat(
+      Array.from(this.activeJobs.keys()),
+      this.ownerId,
+    );
+    const cancelled = await this.prisma.triageRun.findMany({
+      where: {
+        id: { in: Array.from(this.activeJobs.values()) },
+        status: "cancelled",
+      },
+      select: { id: true },
+    });
+    this.abortRuns(cancelled.map((run) => run.id));
+  }
+
+  /** Signals in-flight provider runs owned by this process to stop. */
+  private abortRuns(runIds: string[]) {
+    let signalled = 0;
+    for (const runId of runIds) {
+      const controller = this.runControllers.get(runId);
+      if (!controller || controller.signal.aborted) continue;
+      controller.abort();
+      signalled += 1;
+    }
+    return signalled;
+  }
+
+  async cancelRun(runId: string, reason = "Cancelled by user") {
+    const run = await this.prisma.triageRun.findUnique({
+      where: { id: runId },
+      select: { status: true },
+    });
+    if (!run) return { error: "Run not found" };
+
+    const cancelled = await this.prisma.triageRun.updateMany({
+      where: { id: runId, status: { in: ["queued", "running"] } },
+      data: {
+        status: "cancelled",
+        error: reason,
+        finishedAt: new Date(),
+      },
+    });
+    if (cancelled.count === 0) {
+      return { error: `Run is already ${run.status}` };
+    }
+    await this.queue.failForRuns([runId], reason, "cancelled");
+    const signalled = this.abortRuns([runId]) > 0;
+    void this.notificationService.runEvent(runId, "cancelled");
+    this.logger.warn(
+      `[${runId}] ${reason}${signalled ? ", provider signalled" : ""}.`,
+    );
+    return { ok: true, signalled };
+  }
+
+  /** Claims jobs until `TRIAGE_CONCURRENCY` runs are in flight. */
+  private async pumpQueue() {
+    if (this.isShuttingDown) return;
+    if (this.isPumping) {
+      this.pumpRequested = true;
+      return;
+    }
+    this.isPumping = true;
+    try {
+      do {
+        this.pumpRequested = false;
+        const recovered = await this.queue.recoverStale();
+        if (recovered > 0) {
+          this.logger.warn(`Recovered ${recovered} stale triage job(s).`);
+        }
+        const concurrency = Math.max(1, envNumber("TRIAGE_CONCURRENCY", 2));
+        while (this.activeJobs.size < concurrency && !this.isShuttingDown) {
+          const job = await this.queue.claimNext(this.ownerId);
+          if (!job) break;
+          this.activeJobs.set(job.id, job.runId);
+          void this.runTriage(job).finally(() => {
+            this.activeJobs.delete(job.id);
+            void this.pumpQueue();
+          });
+        }
+      } while (this.pumpRequested && !this.isShuttingDown);
+    } catch (error: unknown) {
+      this.logger.error(`Queue pump failed: ${formatError(error)}`);
+    } finally {
+      this.isPumping = false;
+    }
+  }
+
+  private async runTriage(job: ClaimedTriageJob) {
     const runStartTime = Date.now();
+    // Registered before the run is marked running so a cancel never finds a
+    // running run without a way to stop it.
+    const controller = new AbortController();
+    this.runControllers.set(job.runId, controller);
+    try {
+      await this.executeJob(job, controller.signal, runStartTime);
+    } finally {
+      this.runControllers.delete(job.runId);
+    }
+  }
+
+  private async executeJob(
+    job: ClaimedTriageJob,
+    signal: AbortSignal,
+    runStartTime: number,
+  ) {
+    let run;
+    try {
+      const started = await this.prisma.triageRun.updateMany({
+        where: { id: job.runId, status: "queued" },
+        data: { status: "running", startedAt: new Date(), error: null },
+      });
+      if (started.count === 0) {
+        this.logger.warn(`[${job.runId}] Run is no longer queued, skipping.`);
+        await this.queue.failForRuns([job.runId], "Run is no longer queued");
+        return;
+      }
+      run = await this.prisma.triageRun.findUniqueOrThrow({
+        where: { id: job.runId },
+        include: { alert: true },
+      });
+    } catch (error: unknown) {
+      this.logger.error(
+        `[${job.runId}] Could not start queued run: ${formatError(error)}`,
+      );
+      await this.queue.failForRuns([job.runId], formatError(error));
+      return;
+    }
     this.logger.log(
-      `[${run.id}] Starting triage run with provider ${run.provider}`,
+      `[${run.id}] Starting triage run with provider ${run.provider} (attempt ${job.attempts}/${job.maxAttempts})`,
     );
+    if (job.attempts === 1) {
+      void this.notificationService.runEvent(run.id, "started");
+    }
 
     try {
+      if (!run.alert) throw new Error("Run has no alert");
       this.logger.log(
         `[${run.id}] Starting provider execution (${run.provider})`,
       );
       this.logger.log(`[${run.id}] Calling executeProviderRun()...`);
       const providerStartTime = Date.now();
 
-      await this.executeProviderRun(run, alert, {
-        previousReport: options?.previousReport,
-      });
+      const alertContext = await this.runAlertContext(
+        run.alert,
+        run.incidentId,
+      );
+      const similarIncidents = await this.findSimilarIncidents(
+        run.id,
+        run.alert.id,
+        alertContext,
+      );
+      await this.executeProviderRun(
+        run,
+        alertContext,
+        {
+          previousReport: job.previousReport ?? undefined,
+          followUpQuestion: run.followUpQuestion ?? undefined,
+          similarIncidents,
+        },
+        await this.teamService.settingsFor(run.teamId),
+        signal,
+      );
+      await this.queue.complete(job.id);
 
       const providerDuration = (
         (Date.now() - providerStartTime) /
@@ -1041,10 +1394,63 @@ export class TriageService {
       );
     } catch (error: unknown) {
       const totalDuration = ((Date.now() - runStartTime) / 1000).toFixed(1);
+      if (signal.aborted) {
+        this.logger.warn(
+          `[${run.id}] Triage cancelled after ${totalDuration}s`,
+        );
+        return;
+      }
       this.logger.error(
         `[${run.id}] Triage failed after ${totalDuration}s: ${formatError(error)}`,
       );
-      await this.failRun(run.id, error);
+      const retry = await this.queue.retryOrFail(job, error);
+      if (retry) {
+        // A run cancelled or failed elsewhere meanwhile stays that way.
+        const requeued = await this.prisma.triageRun.updateMany({
+          where: { id: run.id, status: "running" },
+          data: {
+            status: "queued",
+            error: `Attempt ${job.attempts}/${job.maxAttempts} failed, retrying: ${formatError(error)}`,
+          },
+        });
+        if (requeued.count > 0) {
+          this.logger.warn(`[${run.id}] Re-queued for retry.`);
+        } else {
+          await this.queue.failForRuns(
+            [run.id],
+            "Run was finished outside the queue",
+          );
+        }
+      } else {
+        await this.failRun(run.id, error);
+      }
+    }
+  }
+
+  private async findSimilarIncidents(
+    runId: string,
+    alertId: string,
+    alert: AlertContext,
+  ): Promise<SimilarIncident[]> {
+    try {
+      const incidents = await this.similarityService.findSimilar(alert, {
+        excludeAlertId: alertId,
+      });
+      await this.prisma.triageRun.update({
+        where: { id: runId },
+        data: {
+          similarIncidents: incidents as unknown as Prisma.InputJsonValue,
+        },
+      });
+      this.logger.log(
+        `[${runId}] Found ${incidents.length} similar incident(s)`,
+      );
+      return incidents;
+    } catch (error: unknown) {
+      this.logger.warn(
+        `[${runId}] Similar incident lookup failed: ${formatError(error)}`,
+      );
+      return [];
     }
   }
 
@@ -1053,9 +1459,12 @@ export class TriageService {
     runId: string,
     options?: {
       previousReport?: string;
+      followUpQuestion?: string;
+      similarIncidents?: SimilarIncident[];
     },
+    scope?: TeamSettings,
   ) {
-    const repoRoot = this.resolveRepoRoot();
+    const repoRoot = this.resolveRepoRoot(scope?.repoRoot);
     const runDir = path.join(
       envString("RUNS_DIR") ?? path.join(process.cwd(), "data", "runs"),
       runId,
@@ -1065,7 +1474,8 @@ export class TriageService {
     const alertPath = path.join(runDir, "alert.json");
     writeFileSync(alertPath, JSON.stringify(alert, null, 2));
 
-    const skillsPath = envString("SKILLS_CONTEXT_PATH");
+    const skillsPath =
+      scope?.skillsContextPath ?? envString("SKILLS_CONTEXT_PATH");
     const skillsContext =
       skillsPath && existsSync(skillsPath)
         ? readFileSync(skillsPath, "utf-8")
@@ -1078,6 +1488,31 @@ export class TriageService {
         `PREVIOUS REPORT:\n${options.previousReport}`.slice(0, 8000),
       );
     }
+    if (options?.followUpQuestion) {
+      extraSections.push(
+        [
+          "FOLLOW-UP QUESTION FROM THE ON-CALL ENGINEER:",
+          options.followUpQuestion.slice(0, 2000),
+          "Answer this question first, building on the previous report rather than repeating it, then update any sections it changes.",
+        ].join("\n"),
+      );
+    }
+    if (alert.incident) {
+      extraSections.push(
+        [
+          `CORRELATED INCIDENT (${alert.incident.alerts.length} alerts):`,
+          "These alerts fired together on related services and are listed under `incident.alerts` in alert.json. Look for one shared root cause before treating them separately, and cover every alert in the report.",
+          ...alert.incident.alerts.map(
+            (member) =>
+              `- ${member.monitorName ?? member.monitorId} (${member.service ?? "unknown service"}, ${member.monitorState ?? "unknown"}) since ${member.overallStateModified ?? "unknown"}`,
+          ),
+        ].join("\n"),
+      );
+    }
+    const similarSection = this.similarityService.buildPromptSection(
+      options?.similarIncidents ?? [],
+    );
+    if (similarSection) extraSections.push(similarSection);
 
     const prompt = buildPrompt(alert, skillsContext, extraSections);
 
@@ -1099,64 +1534,185 @@ export class TriageService {
   }
 
   private async executeProviderRun(
-    run: { id: string; provider: string },
+    run: { id: string; provider: string; teamId: string | null },
     alertContext: AlertContext,
     options?: {
       previousReport?: string;
+      followUpQuestion?: string;
+      similarIncidents?: SimilarIncident[];
     },
+    scope?: TeamSettings,
+    signal?: AbortSignal,
   ) {
     this.logger.log(`[${run.id}] Building run inputs`);
     const { prompt, attachments, workingDir } = this.buildRunInputs(
       alertContext,
       run.id,
       options,
+      scope,
     );
 
-    this.logger.log(
-      `[${run.id}] Invoking provider ${run.provider} (prompt: ${prompt.length} chars, attachments: ${attachments.length})`,
-    );
-    const provider = this.getProvider();
-    const providerCallStart = Date.now();
-
-    const result = await provider.run({
-      runId: run.id,
+    const providerStartedAt = Date.now();
+    // Flushed before the run is saved so the live log is complete.
+    const progress = this.runProgress.recorder(run.id);
+    const { result, provider } = await this.runProviderChain(run, {
       prompt,
       alertContext,
       attachments,
       workingDir,
-    });
+      signal,
+      onProgress: progress.push,
+    }).finally(progress.flush);
+    this.logger.log(`[${run.id}] executeProviderRun() finished`);
 
-    const providerCallDuration = (
-      (Date.now() - providerCallStart) /
-      1000
-    ).toFixed(1);
     this.logger.log(
-      `[${run.id}] Provider completed in ${providerCallDuration}s (report: ${result.reportMarkdown?.length || 0} chars)`,
+      `[${run.id}] Provider sessionUrl: ${result.sessionUrl ?? "(none)"}`,
     );
-    this.logger.log(`[${run.id}] executeProviderRun() finished`);
 
+    const parsed = parseTriageReport(result.reportMarkdown);
     this.logger.log(
-      `[${run.id}] Provider sessionUrl: ${result.sessionUrl ?? "(none)"}`,
+      parsed
+        ? `[${run.id}] Parsed report: ${parsed.evidence.sections.length} evidence section(s), ${parsed.evidenceTimeline.length} timeline event(s), ${parsed.fixSuggestions.length} fix suggestion(s)`
+        : `[${run.id}] Report does not follow the template, skipping structured extraction`,
     );
 
     this.logger.log(`[${run.id}] Saving completed run to database`);
-    await this.prisma.triageRun.update({
-      where: { id: run.id },
+    const saved = await this.prisma.triageRun.updateMany({
+      where: { id: run.id, status: "running" },
       data: {
         status: "complete",
+        provider,
         reportMarkdown: result.reportMarkdown,
         sessionId: result.sessionId,
         sessionUrl: result.sessionUrl,
+        evidence: parsed
+          ? (parsed.evidence as unknown as Prisma.InputJsonValue)
+          : Prisma.DbNull,
+        evidenceTimeline: parsed
+          ? (parsed.evidenceTimeline as unknown as Prisma.InputJsonValue)
+          : Prisma.DbNull,
+        fixSuggestions: parsed
+          ? (parsed.fixSuggestions as unknown as Prisma.InputJsonValue)
+          : Prisma.DbNull,
+        toolTranscript: result.toolTranscript
+          ? (result.toolTranscript as unknown as Prisma.InputJsonValue)
+          : Prisma.DbNull,
+        model: result.usage?.model,
+        inputTokens: result.usage?.inputTokens,
+        outputTokens: result.usage?.outputTokens,
+        costUsd: result.usage ? costOf(result.usage) : null,
+        durationMs: Date.now() - providerStartedAt,
         finishedAt: new Date(),
       },
     });
 
+    if (saved.count > 0) {
+      void this.notificationService.runEvent(run.id, "completed");
+    }
+
     return { ...result, sessionUrl: result.sessionUrl };
   }
 
-  private async failRun(runId: string, error: unknown) {
+  /**
+   * Tries the run's provider, then each `PROVIDER_FALLBACKS` entry when an
+   * attempt fails in a way `PROVIDER_FAILOVER_ON` lists. Every attempt is
+   * appended to `providerAttempts`.
+   */
+  private async runProviderChain(
+    run: { id: string; provider: string; teamId: string | null },
+    params: Omit<Parameters<TriageProvider["run"]>[0], "runId" | "env">,
+  ) {
+    const chain = providerChain(run.provider);
+    const rules = failoverRules();
+    for (const [index, name] of chain.entries()) {
+      const next = chain[index + 1];
+      const startedAt = new Date();
+      this.logger.log(
+        `[${run.id}] Invoking provider ${name} (${index + 1}/${chain.length}, prompt: ${params.prompt.length} chars, attachments: ${params.attachments.length})`,
+      );
+      params.onProgress?.({ kind: "status", text: `Running ${name}` });
+      try {
+        const result = await this.getProvider(name).run({
+          ...params,
+          runId: run.id,
+          env: secretEnv(run.teamId),
+        });
+        const duration = ((Date.now() - startedAt.getTime()) / 1000).toFixed(1);
+        this.logger.log(
+          `[${run.id}] Provider ${name} completed in ${duration}s (report: ${result.reportMarkdown?.length || 0} chars)`,
+        );
+        if (!result.reportMarkdown?.trim() && next && rules.has("empty")) {
+          await this.recordAttempt(run.id, {
+            provider: name,
+            startedAt: startedAt.toISOString(),
+            finishedAt: new Date().toISOString(),
+            outcome: "failover",
+            reason: "empty",
+            error: "Provider returned an empty report",
+          });
+          this.logger.warn(
+            `[${run.id}] ${name} returned an empty report, failing over to ${next}`,
+          );
+          params.onProgress?.({
+            kind: "status",
+            text: `${name} returned an empty report, failing over to ${next}`,
+          });
+          continue;
+        }
+        await this.recordAttempt(run.id, {
+          provider: name,
+          startedAt: startedAt.toISOString(),
+          finishedAt: new Date().toISOString(),
+          outcome: "success",
+        });
+        return { result, provider: name };
+      } catch (error: unknown) {
+        if (params.signal?.aborted) throw error;
+        const reason = failoverReason(error);
+        const failover = Boolean(next) && rules.has(reason);
+        await this.recordAttempt(run.id, {
+          provider: name,
+          startedAt: startedAt.toISOString(),
+          finishedAt: new Date().toISOString(),
+          outcome: failover ? "failover" : "failed",
+          reason,
+          error: formatError(error),
+        });
+        if (!failover) throw error;
+        this.logger.warn(
+          `[${run.id}] ${name} failed (${reason}): ${formatError(error)}. Failing over to ${next}`,
+        );
+        params.onProgress?.({
+          kind: "status",
+          text: `${name} failed (${reason}), failing over to ${next}`,
+          detail: formatError(error),
+        });
+      }
+    }
+    throw new Error(`Every provider failed (${chain.join(" → ")})`);
+  }
+
+  private async recordAttempt(runId: string, attempt: ProviderAttempt) {
+    const run = await this.prisma.triageRun.findUnique({
+      where: { id: runId },
+      select: { providerAttempts: true },
+    });
+    const attempts = [
+      ...((run?.providerAttempts as ProviderAttempt[] | null) ?? []),
+      attempt,
+    ];
     await this.prisma.triageRun.update({
       where: { id: runId },
+      data: {
+        providerAttempts: attempts as unknown as Prisma.InputJsonValue,
+      },
+    });
+  }
+
+  private async failRun(runId: string, error: unknown) {
+    // Leaves a run that was cancelled or failed elsewhere as it is.
+    const failed = await this.prisma.triageRun.updateMany({
+      where: { id: runId, status: "running" },
       data: {
         status: "failed",
         error: formatError(error),
@@ -1164,10 +1720,12 @@ export class TriageService {
       },
     });
     this.logger.error(`Triage failed: ${formatError(error)}`);
+    if (failed.count > 0) {
+      void this.notificationService.runEvent(runId, "failed");
+    }
   }
 
-  private getProvider(): TriageProvider {
-    const provider = (envString("PROVIDER") ?? "opencode").toLowerCase();
+  private getProvider(provider: string): TriageProvider {
     if (provider === "codex") {
       const bin =
         envString("CODEX_BIN") ??
@@ -1190,6 +1748,91 @@ export class TriageService {
       const variant = envString("OPENCODE_VARIANT");
       return new OpenCodeProvider(bin, model, variant);
     }
+    if (provider === "http") {
+      const allowlist = envString("TOOL_ALLOWLIST")
+        .split(",")
+        .map((entry) => entry.trim().replace(/\s+/g, " "))
+        .filter(Boolean);
+      return new HttpChatProvider(
+        envString("HTTP_PROVIDER_URL"),
+        envString("HTTP_PROVIDER_MODEL") || undefined,
+        envNumber("HTTP_PROVIDER_MAX_TOKENS", 0) || undefined,
+        envBool("HTTP_PROVIDER_TOOLS", true)
+          ? new ToolSandbox({
+              allowlist: allowlist.length ? allowlist : DEFAULT_TOOL_ALLOWLIST,
+              timeoutMs: envNumber("TOOL_TIMEOUT_MS", 30_000),
+              maxOutputChars: envNumber("TOOL_MAX_OUTPUT_CHARS", 20_000),
+              maxSteps: envNumber("TOOL_MAX_STEPS", 25),
+            })
+          : undefined,
+      );
+    }
     return new MockProvider();
   }
+
+  private createDatadogSource(scope: TeamSettings) {
+    return new DatadogAlertSource({
+      apiKey: getSecret("DATADOG_API_KEY", scope.teamId),
+      appKey: getSecret("DATADOG_APP_KEY", scope.teamId),
+      site: envString("DATADOG_SITE", "datadoghq.com"),
+      timeoutMs: envNumber("DATADOG_TIMEOUT_MS", 20_000),
+      alertStates: parseAlertStates(envString("ALERT_STATES")),
+      textFilter: envString("ALERT_TEXT_FILTER"),
+      teamFilter: parseTeamFilter(scope.alertTeam),
+      maxAgeMinutes: envNumber("ALERT_MAX_AGE_MINUTES", 120),
+    });
+  }
+
+  private getAlertSources(scope: TeamSettings): AlertSource[] {
+    const names = scope.alertSources
+      .split(",")
+      .map((name) => name.trim().toLowerCase())
+      .filter(Boolean);
+    const teamFilter = parseTeamFilter(scope.alertTeam);
+    const maxAgeMinutes = envNumber("ALERT_MAX_AGE_MINUTES", 120);
+    const timeoutMs = envNumber("ALERT_SOURCE_TIMEOUT_MS", 20_000);
+
+    const sources: AlertSource[] = [];
+    for (const name of new Set(names)) {
+      if (name === "datadog") {
+        sources.push(this.createDatadogSource(scope));
+      } else if (name === "alertmanager") {
+        sources.push(
+          new AlertmanagerAlertSource("alertmanager", {
+            baseUrl: envString("ALERTMANAGER_URL"),
+            alertsPath: "/api/v2/alerts",
+            token: getSecret("ALERTMANAGER_TOKEN", scope.teamId) || undefined,
+            timeoutMs,
+            teamFilter,
+            maxAgeMinutes,
+          }),
+        );
+      } else if (name === "grafana") {
+        sources.push(
+          new AlertmanagerAlertSource("grafana", {
+            baseUrl: envString("GRAFANA_URL"),
+            alertsPath: "/api/alertmanager/grafana/api/v2/alerts",
+            token: getSecret("GRAFANA_API_TOKEN", scope.teamId) || undefined,
+            timeoutMs,
+            teamFilter,
+            maxAgeMinutes,
+          }),
+        );
+      } else if (name === "generic") {
+        sources.push(
+          new GenericAlertSource({
+            url: envString("GENERIC_ALERTS_URL"),
+            token: getSecret("GENERIC_ALERTS_TOKEN", scope.teamId) || undefined,
+            timeoutMs,
+            alertStates: parseAlertStates(envString("ALERT_STATES")),
+            teamFilter,
+            maxAgeMinutes,
+          }),
+        );
+      } else {
+        this.logger.warn(`Unknown alert source "${name}" ignored.`);
+      }
+    }
+    return sources;
+  }
 }
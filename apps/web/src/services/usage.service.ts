@@ -0,0 +1,191 @@
+import { z } from "zod";
+import { PrismaService } from "./prisma.service";
+import { TokenUsage } from "@/triage/types";
+import { envString } from "@/utils/env";
+import { formatError } from "@/utils/error";
+
+/** USD per million tokens. */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+const modelPriceSchema = z.object({
+  input: z.number().finite().nonnegative(),
+  output: z.number().finite().nonnegative(),
+});
+
+export const USAGE_GROUPS = ["day", "service", "monitor", "model"] as const;
+export type UsageGroup = (typeof USAGE_GROUPS)[number];
+
+export interface UsageRow {
+  key: string;
+  runs: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  durationMs: number;
+  /** Runs with token counts but no `MODEL_PRICES` entry for their model. */
+  unpriced: number;
+}
+
+/**
+ * `MODEL_PRICES`, e.g. `{"gpt-5":{"input":1.25,"output":10}}`. Entries
+ * without numeric `input` and `output` prices are dropped with a warning, so
+ * a typo leaves the model unpriced instead of costing `NaN`.
+ */
+export function modelPrices(): Record<string, ModelPrice> {
+  const raw = envString("MODEL_PRICES");
+  if (!raw) return {};
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error) {
+    console.warn(`MODEL_PRICES is not valid JSON: ${formatError(error)}`);
+    return {};
+  }
+  const entries = z.record(z.string(), z.unknown()).safeParse(parsed);
+  if (!entries.success) {
+    console.warn("MODEL_PRICES must be an object keyed by model name");
+    return {};
+  }
+  const prices: Record<string, ModelPrice> = {};
+  for (const [model, value] of Object.entries(entries.data)) {
+    const price = modelPriceSchema.safeParse(value);
+    if (price.success) {
+      prices[model] = price.data;
+    } else {
+      console.warn(
+        `MODEL_PRICES entry "${model}" ignored: it needs numeric input and output prices`,
+      );
+    }
+  }
+  return prices;
+}
+
+/**
+ * What `usage` cost in USD, or null when its model has no price. A
+ * `provider/model` name falls back to the price of the bare model.
+ */
+export function costOf(usage: TokenUsage, prices = modelPrices()) {
+  if (!usage.model) return null;
+  const price =
+    prices[usage.model] ?? prices[usage.model.split("/").pop() ?? ""];
+  if (!price) return null;
+  return (
+    (usage.inputTokens * price.input + usage.outputTokens * price.output) /
+    1_000_000
+  );
+}
+
+function monthStart(now = new Date()) {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+function emptyRow(key: string): UsageRow {
+  return {
+    key,
+    runs: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    costUsd: 0,
+    durationMs: 0,
+    unpriced: 0,
+  };
+}
+
+/** Token usage and cost of triage runs, and the monthly budget. */
+export class UsageService {
+  constructor(private prisma: PrismaService) {}
+
+  /** Totals of finished runs created in the window, grouped by `groupBy`. */
+  async summary(options: {
+    groupBy: UsageGroup;
+    since: Date;
+    until?: Date;
+    teamId?: string;
+  }) {
+    const runs = await this.prisma.triageRun.findMany({
+      where: {
+        teamId: options.teamId,
+        createdAt: { gte: options.since, lte: options.until },
+        finishedAt: { not: null },
+      },
+      select: {
+        createdAt: true,
+        model: true,
+        inputTokens: true,
+        outputTokens: true,
+        costUsd: true,
+        durationMs: true,
+        alert: { select: { service: true, monitorName: true } },
+      },
+    });
+
+    const rows = new Map<string, UsageRow>();
+    const totals = emptyRow("total");
+    for (const run of runs) {
+      const key =
+        options.groupBy === "day"
+          ? run.createdAt.toISOString().slice(0, 10)
+          : options.groupBy === "service"
+            ? run.alert?.service
+            : options.groupBy === "monitor"
+              ? run.alert?.monitorName
+              : run.model;
+      const row = rows.get(key || "unknown") ?? emptyRow(key || "unknown");
+      rows.set(row.key, row);
+      for (const target of [row, totals]) {
+        target.runs += 1;
+        target.inputTokens += run.inputTokens ?? 0;
+        target.outputTokens += run.outputTokens ?? 0;
+        target.costUsd += run.costUsd ?? 0;
+        target.durationMs += run.durationMs ?? 0;
+        if (run.inputTokens !== null && run.costUsd === null) {
+          target.unpriced += 1;
+        }
+      }
+    }
+
+    const sorted = [...rows.values()].sort((a, b) =>
+      options.groupBy === "day"
+        ? b.key.localeCompare(a.key)
+        : b.costUsd - a.costUsd ||
+          b.inputTokens + b.outputTokens - (a.inputTokens + a.outputTokens),
+    );
+    return { rows: sorted, totals };
+  }
+
+  /**
+   * `TRIAGE_MONTHLY_BUDGET_USD` against the cost of every run created this
+   * calendar month (UTC). Automatic triage pauses once it is reached. The
+   * budget is deployment-wide, not per team, and runs whose model has no
+   * price add nothing to it; `unpricedRuns` counts those.
+   */
+  async budget() {
+    const limit = Number.parseFloat(envString("TRIAGE_MONTHLY_BUDGET_USD"));
+    const limitUsd = Number.isFinite(limit) && limit > 0 ? limit : null;
+    const since = monthStart();
+    const [spent, unpricedRuns] = await Promise.all([
+      this.prisma.triageRun.aggregate({
+        where: { createdAt: { gte: since } },
+        _sum: { costUsd: true },
+      }),
+      this.prisma.triageRun.count({
+        where: {
+          createdAt: { gte: since },
+          inputTokens: { not: null },
+          costUsd: null,
+        },
+      }),
+    ]);
+    const spentUsd = spent._sum.costUsd ?? 0;
+    return {
+      limitUsd,
+      spentUsd,
+      unpricedRuns,
+      since: since.toISOString(),
+      paused: limitUsd !== null && spentUsd >= limitUsd,
+    };
+  }
+}
@@ -0,0 +1,334 @@
+import axios from "axios";
+import { createHmac } from "crypto";
+import { Prisma } from "@prisma/client";
+import { PrismaService } from "./prisma.service";
+import { isMaskedSecret, SecretName, SecretsService } from "./secrets.service";
+import { RUN_EVENTS, RunEvent, RunSummary } from "@/triage/types";
+import { envNumber } from "@/utils/env";
+import { formatError } from "@/utils/error";
+import { renderTemplate } from "@/utils/template";
+
+export const DEFAULT_WEBHOOK_TEMPLATE = `{
+  "event": "{{event}}",
+  "summary": {{json summary}},
+  "run": {
+    "id": "{{run.id}}",
+    "status": "{{run.status}}",
+    "provider": "{{run.provider}}",
+    "error": {{json run.error}},
+    "createdAt": {{json run.createdAt}},
+    "finishedAt": {{json run.finishedAt}}
+  },
+  "alert": {{json alert}}
+}`;
+
+export interface WebhookInput {
+  name?: string;
+  url?: string;
+  events?: RunEvent[];
+  template?: string | null;
+  teamId?: string | null;
+  enabled?: boolean;
+  /** HMAC signing secret; empty clears it, a masked value keeps it. */
+  secret?: string;
+}
+
+interface AttemptLogEntry {
+  at: string;
+  responseCode?: number;
+  error?: string;
+  durationMs: number;
+}
+
+function secretName(webhookId: string): SecretName {
+  return `webhook:${webhookId}`;
+}
+
+/** `sha256=<hex>`, the same scheme `/api/alerts/webhook` verifies. */
+export function signPayload(payload: string, secret: string) {
+  return `sha256=${createHmac("sha256", secret).update(payload).digest("hex")}`;
+}
+
+/** Rejects templates that don't render to JSON for a representative run. */
+export function validateTemplate(template: string) {
+  const sample = {
+    event: "completed",
+    summary: { runId: "run", title: "Sample alert", immediateActions: [] },
+    run: { id: "run", status: "complete", createdAt: new Date() },
+    alert: { monitorName: 'Sample "quoted" alert', priority: 1 },
+  };
+  try {
+    JSON.parse(renderTemplate(template, sample));
+    return null;
+  } catch (error) {
+    return `Template does not render to valid JSON: ${formatError(error)}`;
+  }
+}
+
+/**
+ * Outbound webhooks for run events. Each event becomes a `WebhookDelivery`
+ * holding the rendered payload, so retries resend exactly what was signed;
+ * failed attempts back off exponentially until `WEBHOOK_MAX_ATTEMPTS`.
+ */
+export class WebhookService {
+  private secrets: SecretsService;
+
+  constructor(private prisma: PrismaService) {
+    this.secrets = new SecretsService(prisma);
+  }
+
+  async list() {
+    await this.secrets.load();
+    const webhooks = await this.prisma.outboundWebhook.findMany({
+      orderBy: { createdAt: "asc" },
+    });
+    return webhooks.map((webhook) => ({
+      ...webhook,
+      events: webhook.events.split(",").filter(Boolean),
+      signed: Boolean(this.secrets.storedValue(secretName(webhook.id))),
+    }));
+  }
+
+  async create(input: WebhookInput & { name: string; url: string }) {
+    const invalid = this.inputError(input);
+    if (invalid) return { error: invalid };
+    const webhook = await this.prisma.outboundWebhook.create({
+      data: {
+        name: input.name,
+        url: input.url,
+        events: (input.events ?? RUN_EVENTS).join(","),
+        template: input.template || null,
+        teamId: input.teamId || null,
+        enabled: input.enabled ?? true,
+      },
+    });
+    if (input.secret)
+      await this.secrets.set(secretName(webhook.id), input.secret);
+    return { webhook };
+  }
+
+  async update(id: string, input: WebhookInput) {
+    const existing = await this.prisma.outboundWebhook.findUnique({
+      where: { id },
+    });
+    if (!existing) return { error: "Webhook not found" };
+    const invalid = this.inputError(input);
+    if (invalid) return { error: invalid };
+    const webhook = await this.prisma.outboundWebhook.update({
+      where: { id },
+      data: {
+        name: input.name,
+        url: input.url,
+        events: input.events?.join(","),
+        template:
+          input.template === undefined ? undefined : input.template || null,
+        teamId: input.teamId === undefined ? undefined : input.teamId || null,
+        enabled: input.enabled,
+      },
+    });
+    if (input.secret !== undefined && !isMaskedSecret(input.secret)) {
+      await this.secrets.set(secretName(id), input.secret);
+    }
+    return { webhook };
+  }
+
+  async remove(id: string) {
+    const existing = await this.prisma.outboundWebhook.findUnique({
+      where: { id },
+    });
+    if (!existing) return { error: "Webhook not found" };
+    await this.secrets.set(secretName(id), "");
+    await this.prisma.outboundWebhook.delete({ where: { id } });
+    return { ok: true };
+  }
+
+  async deliveries(filter: {
+    webhookId?: string;
+    status?: string;
+    limit?: number;
+  }) {
+    return this.prisma.webhookDelivery.findMany({
+      where: {
+        webhookId: filter.webhookId || undefined,
+        status: filter.status || undefined,
+      },
+      include: { webhook: { select: { name: true, url: true } } },
+      orderBy: { createdAt: "desc" },
+      take: Math.min(Math.max(filter.limit ?? 100, 1), 500),
+    });
+  }
+
+  private inputError(input: WebhookInput) {
+    if (input.template) {
+      const invalid = validateTemplate(input.template);
+      if (invalid) return invalid;
+    }
+    if (
+      input.secret &&
+      !isMaskedSecret(input.secret) &&
+      !this.secrets.enabled()
+    ) {
+      return "Set SECRETS_MASTER_KEY before saving a signing secret; it is stored encrypted, never in plaintext.";
+    }
+    return null;
+  }
+
+  /** Queues and attempts one delivery per webhook subscribed to the event. */
+  async dispatch(summary: RunSummary) {
+    const webhooks = await this.prisma.outboundWebhook.findMany({
+      where: {
+        enabled: true,
+        OR: [
+          { teamId: null },
+          ...(summary.teamId ? [{ teamId: summary.teamId }] : []),
+        ],
+      },
+    });
+    const subscribed = webhooks.filter((webhook) =>
+      webhook.events.split(",").includes(summary.event),
+    );
+    if (subscribed.length === 0) return;
+
+    const run = await this.prisma.triageRun.findUnique({
+      where: { id: summary.runId },
+      include: { alert: true, incident: true },
+    });
+    if (!run) return;
+    const { alert, incident, ...runFields } = run;
+    const context = {
+      event: summary.event,
+      summary,
+      run: runFields,
+      alert,
+      incident,
+    };
+
+    for (const webhook of subscribed) {
+      let payload: string;
+      try {
+        payload = renderTemplate(
+          webhook.template || DEFAULT_WEBHOOK_TEMPLATE,
+          context,
+        );
+      } catch (error) {
+        console.warn(
+          `[Webhooks] ${webhook.name}: template failed: ${formatError(error)}`,
+        );
+        continue;
+      }
+      const delivery = await this.prisma.webhookDelivery.create({
+        data: {
+          webhookId: webhook.id,
+          runId: summary.runId,
+          event: summary.event,
+          payload,
+          nextAttemptAt: new Date(),
+        },
+      });
+      await this.attempt(delivery.id);
+    }
+  }
+
+  /** Retries pending deliveries whose backoff has elapsed. */
+  async retryDue() {
+    try {
+      const due = await this.prisma.webhookDelivery.findMany({
+        where: { status: "pending", nextAttemptAt: { lte: new Date() } },
+        orderBy: { nextAttemptAt: "asc" },
+        select: { id: true },
+        take: 20,
+      });
+      for (const delivery of due) await this.attempt(delivery.id);
+    } catch (error) {
+      console.warn(`[Webhooks] Retry sweep failed: ${formatError(error)}`);
+    }
+  }
+
+  private async attempt(deliveryId: string) {
+    // Clearing nextAttemptAt claims the delivery so a concurrent sweep
+    // can't send it twice.
+    const claimed = await this.prisma.webhookDelivery.updateMany({
+      where: {
+        id: deliveryId,
+        status: "pending",
+        nextAttemptAt: { not: null },
+      },
+      data: { nextAttemptAt: null },
+    });
+    if (claimed.count === 0) return;
+    const delivery = await this.prisma.webhookDelivery.findUniqueOrThrow({
+      where: { id: deliveryId },
+      include: { webhook: true },
+    });
+
+    await this.secrets.load();
+    const secret = this.secrets.storedValue(secretName(delivery.webhookId));
+    const startedAt = Date.now();
+    let responseCode: number | undefined;
+    let error: string | undefined;
+    try {
+      const response = await axios.post(
+        delivery.webhook.url,
+        delivery.payload,
+        {
+          headers: {
+            "Content-Type": "application/json",
+            "User-Agent": "oncall-triage-dashboard",
+            "X-Webhook-Event": delivery.event,
+            "X-Webhook-Delivery": delivery.id,
+            ...(secret
+              ? { "X-Signature-256": signPayload(delivery.payload, secret) }
+              : {}),
+          },
+          // Send the signed bytes untouched.
+          transformRequest: [(data) => data],
+          timeout: envNumber("NOTIFY_TIMEOUT_MS", 10_000),
+          validateStatus: () => true,
+        },
+      );
+      responseCode = response.status;
+      if (response.status < 200 || response.status >= 300) {
+        error = `HTTP ${response.status}`;
+      }
+    } catch (caught) {
+      error = formatError(caught);
+    }
+
+    const attempts = delivery.attempts + 1;
+    const attemptLog = [
+      ...((delivery.attemptLog as AttemptLogEntry[] | null) ?? []),
+      {
+        at: new Date(startedAt).toISOString(),
+        responseCode,
+        error,
+        durationMs: Date.now() - startedAt,
+      },
+    ];
+    const maxAttempts = Math.max(1, envNumber("WEBHOOK_MAX_ATTEMPTS", 5));
+    const status = !error
+      ? "success"
+      : attempts >= maxAttempts
+        ? "failed"
+        : "pending";
+    const backoffMs = envNumber("WEBHOOK_RETRY_BACKOFF_MS", 30_000);
+    await this.prisma.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: {
+        status,
+        attempts,
+        responseCode: responseCode ?? null,
+        error: error ?? null,
+        attemptLog: attemptLog as unknown as Prisma.InputJsonValue,
+        nextAttemptAt:
+          status === "pending"
+            ? new Date(Date.now() + backoffMs * 2 ** (attempts - 1))
+            : null,
+      },
+    });
+    if (error) {
+      console.warn(
+        `[Webhooks] ${delivery.webhook.name} attempt ${attempts}/${maxAttempts} for ${delivery.event} failed: ${error}`,
+      );
+    }
+  }
+}
@@ -22,6 +22,15 @@ export function buildPrompt(
     '- Report "Alert has recovered, no investigation needed"',
     '- No need to gather any evidence or run commands',
     '',
+    ...(alert.paging
+      ? [
+          '## Paging State',
+          '',
+          `The alert paged through ${alert.paging.provider === 'pagerduty' ? 'PagerDuty' : 'Opsgenie'} (see "paging" in the context JSON).`,
+          'State in the Alert Summary whether it is acknowledged and who is responding.',
+          '',
+        ]
+      : []),
     '## Investigation Steps (IF NOT A RECOVERY)',
     '',
     'You MUST actively investigate using these tools and commands:',
@@ -0,0 +1,269 @@
+import {
+  EvidenceSection,
+  EvidenceStatus,
+  EvidenceStep,
+  FixSuggestion,
+  ReportEvidence,
+} from './types';
+
+export interface ParsedReport {
+  evidence: ReportEvidence;
+  evidenceTimeline: EvidenceStep[];
+  fixSuggestions: FixSuggestion[];
+}
+
+interface MarkdownSection {
+  lines: string[];
+  subsections: { heading: string; lines: string[] }[];
+}
+
+const FAILURE_PATTERN =
+  /\b(not available|unavailable|unable to|could not|couldn't|failed|permission denied|no access|not found)\b/i;
+const TIMESTAMP_PATTERN =
+  /\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2}|\s?UTC)?/;
+const FILE_PATTERN = /[\w./-]+\.(?:ya?ml|json|ts|tsx|js|go|py|tf|hcl|md)\b/g;
+
+/**
+ * Splits a report into its `##` sections (keyed by lower-cased heading) and
+ * their `###` subsections, ignoring headings inside code fences.
+ */
+function splitSections(markdown: string) {
+  let title: string | undefined;
+  const sections = new Map<string, MarkdownSection>();
+  let current: MarkdownSection | null = null;
+  let inFence = false;
+
+  for (const line of markdown.split('\n')) {
+    if (line.trim().startsWith('```')) inFence = !inFence;
+    const heading = inFence ? null : line.match(/^(#{1,3})\s+(.+?)\s*#*$/);
+    if (heading && heading[1].length === 1) {
+      title ??= heading[2];
+      continue;
+    }
+    if (heading && heading[1].length === 2) {
+      current = { lines: [], subsections: [] };
+      sections.set(heading[2].toLowerCase(), current);
+      continue;
+    }
+    if (!current) continue;
+    if (heading) {
+      current.subsections.push({ heading: heading[2], lines: [] });
+      continue;
+    }
+    const target = current.subsections.at(-1)?.lines ?? current.lines;
+    target.push(line);
+  }
+  return { title, sections };
+}
+
+function findSection(
+  sections: Map<string, MarkdownSection>,
+  name: string,
+): MarkdownSection | undefined {
+  for (const [heading, section] of sections) {
+    if (heading.startsWith(name)) return section;
+  }
+  return undefined;
+}
+
+/** Template placeholders echoed back verbatim, e.g. `[Next step]`. */
+function isPlaceholder(text: string) {
+  return /^\[[^\]]*\]$/.test(text.trim());
+}
+
+function bullets(lines: string[] = []) {
+  return lines
+    .map((line) => line.match(/^\s*(?:[-*+]|\d+[.)])\s+(.+)/)?.[1]?.trim())
+    .filter((item): item is string => Boolean(item) && !isPlaceholder(item!));
+}
+
+/** Lines outside ``` fences. */
+function outsideFences(lines: string[]) {
+  let inFence = false;
+  return lines.filter((line) => {
+    if (line.trim().startsWith('```')) {
+      inFence = !inFence;
+      return false;
+    }
+    return !inFence;
+  });
+}
+
+function prose(lines: string[] = []) {
+  const text = outsideFences(lines).join(' ').replace(/\s+/g, ' ').trim();
+  return text && !isPlaceholder(text) ? text : undefined;
+}
+
+function extractArtifacts(items: string[]) {
+  const artifacts = new Set<string>();
+  for (const item of items) {
+    for (const url of item.match(/https?:\/\/[^\s)>\]]+/g) ?? []) {
+      artifacts.add(url.replace(/[.,;]+$/, ''));
+    }
+    for (const sha of item.match(/\b[0-9a-f]{7,40}\b/g) ?? []) {
+      if (/\d/.test(sha) && /[a-f]/.test(sha)) artifacts.add(sha);
+    }
+    for (const file of item.match(FILE_PATTERN) ?? []) {
+      if (!file.includes('://')) artifacts.add(file);
+    }
+  }
+  return Array.from(artifacts).slice(0, 10);
+}
+
+function sectionStatus(items: string[]): EvidenceStatus {
+  if (items.length === 0) return 'skipped';
+  return items.every((item) => FAILURE_PATTERN.test(item)) ? 'error' : 'ok';
+}
+
+function parseEvidence(section?: MarkdownSection): EvidenceSection[] {
+  if (!section) return [];
+  return section.subsections.map(({ heading, lines }) => {
+    const items = bullets(lines);
+    return {
+      source: heading,
+      status: sectionStatus(items),
+      items,
+      artifacts: extractArtifacts(items),
+    };
+  });
+}
+
+function parseTimestamp(text: string) {
+  const match = text.match(TIMESTAMP_PATTERN)?.[0];
+  if (!match) return null;
+  const date = new Date(match.replace(/\s?UTC$/, 'Z').replace(' ', 'T'));
+  return Number.isNaN(date.valueOf()) ? null : date;
+}
+
+/** Dated timeline entries; undated ones (e.g. "Time delta") are dropped. */
+function parseTimeline(section?: MarkdownSection): EvidenceStep[] {
+  const steps: EvidenceStep[] = [];
+  for (const item of bullets(section?.lines).map((text) =>
+    text.replace(/^\[(.*)\]$/, '$1'),
+  )) {
+    const date = parseTimestamp(item);
+    if (!date) continue;
+    const label = item.split(':')[0].trim();
+    steps.push({
+      id: `timeline-${steps.length + 1}`,
+      title: label.length > 0 && label.length <= 60 ? label : 'Event',
+      status: 'ok',
+      startedAt: date.toISOString(),
+      summary: item,
+      artifacts: extractArtifacts([item]),
+    });
+  }
+  return steps.sort((a, b) => a.startedAt.localeCompare(b.startedAt));
+}
+
+function confidenceOf(text?: string) {
+  if (!text) return 0.5;
+  const percent = text.match(/(\d{1,3})\s*%/);
+  if (percent) return Math.min(Number(percent[1]), 100) / 100;
+  if (/\bhigh\b/i.test(text)) return 0.8;
+  if (/\b(medium|moderate)\b/i.test(text)) return 0.5;
+  if (/\blow\b/i.test(text)) return 0.3;
+  return 0.5;
+}
+
+function codeBlocks(lines: string[]) {
+  const blocks: string[] = [];
+  let current: string[] | null = null;
+  for (const line of lines) {
+    if (line.trim().startsWith('```')) {
+      if (current) {
+        blocks.push(current.join('\n').trim());
+        current = null;
+      } else {
+        current = [];
+      }
+      continue;
+    }
+    current?.push(line);
+  }
+  return blocks.filter((block) => block && !isPlaceholder(block));
+}
+
+function isDiff(block: string) {
+  return block
+    .split('\n')
+    .some((line) => /^(diff --git|@@ |\+\+\+ |--- )/.test(line));
+}
+
+function diffFiles(diff: string) {
+  const files: { path: string; line?: number }[] = [];
+  for (const line of diff.split('\n')) {
+    const target = line.match(/^\+\+\+ (?:b\/)?(.+)$/)?.[1]?.trim();
+    if (target && target !== '/dev/null') {
+      files.push({ path: target });
+      continue;
+    }
+    const hunk = line.match(/^@@ -\d+(?:,\d+)? \+(\d+)/);
+    const last = files.at(-1);
+    if (hunk && last && last.line === undefined) last.line = Number(hunk[1]);
+  }
+  return files;
+}
+
+function parseFixes(
+  section: MarkdownSection | undefined,
+  leadingCause: string | undefined,
+  title: string | undefined,
+): FixSuggestion[] {
+  if (!section) return [];
+  const lines = [
+    ...section.lines,
+    ...section.subsections.flatMap((sub) => sub.lines),
+  ];
+  const blocks = codeBlocks(lines);
+  const diffs = blocks.filter(isDiff);
+  const summary =
+    prose(lines) ?? blocks.find((block) => !isDiff(block)) ?? leadingCause;
+  const suggestionTitle = (leadingCause ?? title ?? 'Draft fix').slice(0, 120);
+  const confidence = confidenceOf(leadingCause);
+
+  if (diffs.length === 0) {
+    return summary ? [{ title: suggestionTitle, summary, confidence }] : [];
+  }
+  return diffs.map((diff, index) => ({
+    title:
+      diffs.length > 1
+        ? `${suggestionTitle} (${index + 1}/${diffs.length})`
+        : suggestionTitle,
+    summary: summary ?? 'See the Draft Fix section of the report.',
+    confidence,
+    diff,
+    files: diffFiles(diff),
+  }));
+}
+
+/**
+ * Turns the Markdown report mandated by `buildPrompt()` into the structured
+ * columns on `TriageRun`. Returns null when the report doesn't follow the
+ * template (raw provider output, recovery short-circuits, ...).
+ */
+export function parseTriageReport(markdown?: string): ParsedReport | null {
+  if (!markdown?.trim()) return null;
+  const { title, sections } = splitSections(markdown);
+  if (sections.size === 0) return null;
+
+  const likelyCauses = bullets(findSection(sections, 'likely cause')?.lines);
+  const evidence: ReportEvidence = {
+    title,
+    summary: prose(findSection(sections, 'alert summary')?.lines),
+    likelyCauses,
+    sections: parseEvidence(findSection(sections, 'evidence')),
+    immediateActions: bullets(findSection(sections, 'immediate action')?.lines),
+    nextChecks: bullets(findSection(sections, 'next check')?.lines),
+  };
+
+  return {
+    evidence,
+    evidenceTimeline: parseTimeline(findSection(sections, 'timeline')),
+    fixSuggestions: parseFixes(
+      findSection(sections, 'draft fix'),
+      likelyCauses[0],
+      title,
+    ),
+  };
+}
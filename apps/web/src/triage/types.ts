@@ -1,4 +1,8 @@
+export type AlertSourceName =
+  "datadog" | "alertmanager" | "grafana" | "generic";
+
 export interface AlertContext {
+  source?: AlertSourceName;
   monitorId?: string;
   monitorName?: string;
   monitorState?: string;
@@ -14,6 +18,20 @@ export interface AlertContext {
   repoHint?: string;
   repoUrl?: string;
   repoPath?: string;
+  /** Owning team when workspaces are configured. */
+  teamId?: string;
+  /** Set when the alert was correlated with others into one incident. */
+  incident?: IncidentContext;
+  /** The PagerDuty incident or Opsgenie alert that paged for this alert. */
+  paging?: PagingIncident;
+}
+
+export interface IncidentContext {
+  id: string;
+  title: string;
+  firstAlertAt: string;
+  /** Every member alert, including the one the run was queued for. */
+  alerts: AlertContext[];
 }
 
 export interface ProviderResult {
@@ -21,6 +39,108 @@ export interface ProviderResult {
   sessionId?: string;
   sessionUrl?: string;
   rawOutput?: string;
+  /** Commands the provider ran on the model's behalf, in order. */
+  toolTranscript?: ToolCallRecord[];
+  /** Tokens the model reported using, when the provider exposes them. */
+  usage?: TokenUsage;
+}
+
+/** Token counts summed over every model call of one provider run. */
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  /** As the provider names it, e.g. `gpt-5` or `anthropic/claude-sonnet-4`. */
+  model?: string;
+}
+
+/** One command from a direct-model provider's tool loop. */
+export interface ToolCallRecord {
+  command: string[];
+  cwd: string;
+  startedAt: string;
+  durationMs: number;
+  /** `null` when the command was refused or did not exit on its own. */
+  exitCode: number | null;
+  /** Output as the model saw it, truncated. */
+  output: string;
+  /** Why the command was refused, timed out or could not start. */
+  error?: string;
+}
+
+/** One step of a provider's investigation, shown live on a running card. */
+export interface ProgressEvent {
+  kind: "text" | "tool" | "command" | "status";
+  /** Partial assistant text, a tool name, a command line or a status line. */
+  text: string;
+  /** A tool's input, a command's exit code and the like. */
+  detail?: string;
+}
+
+/** Why a provider attempt handed over to the next provider in the chain. */
+export type FailoverReason = "spawn" | "timeout" | "empty" | "error";
+
+/** One provider invocation, stored in `TriageRun.providerAttempts`. */
+export interface ProviderAttempt {
+  provider: string;
+  startedAt: string;
+  finishedAt: string;
+  /** `failover` when the next provider in the chain took over. */
+  outcome: "success" | "failover" | "failed";
+  reason?: FailoverReason;
+  error?: string;
+}
+
+export type EvidenceStatus = "ok" | "error" | "skipped";
+
+/** One "Evidence Gathered" subsection of a report (Git History, ...). */
+export interface EvidenceSection {
+  source: string;
+  status: EvidenceStatus;
+  items: string[];
+  /** Commit SHAs, URLs and file paths cited in the section. */
+  artifacts: string[];
+}
+
+/** Structured view of a triage report, stored in `TriageRun.evidence`. */
+export interface ReportEvidence {
+  title?: string;
+  summary?: string;
+  likelyCauses: string[];
+  sections: EvidenceSection[];
+  immediateActions: string[];
+  nextChecks: string[];
+}
+
+/** A dated "Timeline Correlation" entry, stored in `evidenceTimeline`. */
+export interface EvidenceStep {
+  id: string;
+  title: string;
+  status: EvidenceStatus;
+  startedAt: string;
+  finishedAt?: string;
+  summary?: string;
+  artifacts?: string[];
+}
+
+export interface FixSuggestion {
+  title: string;
+  summary: string;
+  /** 0-1, taken from the confidence the report gives its leading cause. */
+  confidence: number;
+  diff?: string;
+  files?: { path: string; line?: number; text?: string }[];
+}
+
+/** A past run of a similar alert, stored in `TriageRun.similarIncidents`. */
+export interface SimilarIncident {
+  /** Id of the past TriageRun. */
+  id: string;
+  createdAt: string;
+  summary: string;
+  /** 0-1 similarity score. */
+  confidence: number;
+  service?: string;
+  monitorName?: string;
 }
 
 export interface TriageProvider {
@@ -30,5 +150,111 @@ export interface TriageProvider {
     alertContext: AlertContext;
     attachments: string[];
     workingDir: string;
+    /** Aborted when the run is cancelled; providers must stop their work. */
+    signal?: AbortSignal;
+    /** Decrypted credentials for the run's team, passed to spawned tools. */
+    env?: Record<string, string>;
+    /** Called as the provider works; must not throw or block. */
+    onProgress?: (event: ProgressEvent) => void;
   }): Promise<ProviderResult>;
 }
+
+/** Current state of a monitor as reported by its alert source. */
+export interface MonitorStatus {
+  /** `"ok"` once the monitor has recovered. */
+  state: string;
+  /** When the monitor entered `state`, if the source knows. */
+  since?: string;
+}
+
+export interface AlertSource {
+  readonly name: AlertSourceName;
+  /**
+   * Returns the alerts currently firing in this source. `monitorId` must be
+   * stable and namespaced per source, and `overallStateModified` must be the
+   * time the alert started firing: together they are the AlertEvent dedup key.
+   */
+  collect(): Promise<AlertContext[]>;
+  /**
+   * Looks up the current state of the given monitors so recovered alerts can
+   * be closed out. Returns null when the source can't be read, so a failed
+   * fetch never looks like a recovery; monitors missing from the map are
+   * treated as unknown.
+   */
+  monitorStates?(
+    monitorIds: string[],
+  ): Promise<Map<string, MonitorStatus> | null>;
+}
+
+export const RUN_EVENTS = [
+  "started",
+  "completed",
+  "failed",
+  "cancelled",
+] as const;
+export type RunEvent = (typeof RUN_EVENTS)[number];
+
+/** What notifiers are told when a run starts or reaches a final state. */
+export interface RunSummary {
+  runId: string;
+  event: RunEvent;
+  title: string;
+  priority?: number | null;
+  service?: string;
+  environment?: string;
+  likelyCause?: string;
+  immediateActions: string[];
+  error?: string;
+  /** Dashboard deep link to the run. */
+  url: string;
+  /** Shared by every run of the same alert or incident. */
+  threadKey: string;
+  teamId?: string | null;
+}
+
+export interface NotificationThread {
+  target: string | null;
+  /** The notifier's id for the first message, e.g. a Slack `ts`. */
+  externalId: string;
+}
+
+export interface Notifier {
+  readonly name: string;
+  /** Run events this notifier reports; others are never passed to it. */
+  readonly events: readonly RunEvent[];
+  enabled(): boolean;
+  /**
+   * Delivers one summary, replying under `thread` when an earlier run of the
+   * same alert was already announced. Throws on failure.
+   */
+  notify(
+    summary: RunSummary,
+    thread?: NotificationThread,
+  ): Promise<{ target: string | null; externalId?: string } | null>;
+}
+
+export type PagingProviderName = "pagerduty" | "opsgenie";
+
+export interface PagingIncident {
+  provider: PagingProviderName;
+  id: string;
+  title?: string;
+  url?: string;
+  /** Provider status, e.g. `triggered`, `acknowledged`, `open`. */
+  status: string;
+  acknowledged: boolean;
+  acknowledgedBy: string[];
+  assignees: string[];
+}
+
+/** A paging service triage can read incident state from and annotate. */
+export interface PagingClient {
+  readonly name: PagingProviderName;
+  enabled(): boolean;
+  findIncident(
+    alert: AlertContext,
+    dedupKey?: string,
+  ): Promise<PagingIncident | null>;
+  /** Adds a note to the incident and returns the note's id when known. */
+  addNote(incidentId: string, content: string): Promise<string | undefined>;
+}
@@ -248,3 +248,18 @@ export function buildRepoUrlFromPath(
 
   return null;
 }
+
+/** `triage/<service>/<yyyymmdd>-<monitor-slug>`, never a default branch name. */
+export function fixBranchName(
+  service: string,
+  monitorName: string,
+  date = new Date(),
+) {
+  const slug = monitorName
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 32);
+  const day = date.toISOString().slice(0, 10).replace(/-/g, '');
+  return `triage/${service}/${day}-${slug}`.replace(/\/+/g, '/');
+}
@@ -0,0 +1,94 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { envBool, envNumber, envString } from "./env";
+
+export const SESSION_COOKIE = "triage_session";
+
+export const ROLES = ["viewer", "responder", "admin"] as const;
+export type Role = (typeof ROLES)[number];
+
+export interface SessionUser {
+  id: string;
+  email: string;
+  role: Role;
+}
+
+interface SessionPayload extends SessionUser {
+  exp: number;
+}
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === "string" && ROLES.includes(value as Role);
+}
+
+/** True when `role` is at least as privileged as `required`. */
+export function hasRole(role: Role, required: Role) {
+  return ROLES.indexOf(role) >= ROLES.indexOf(required);
+}
+
+export function authEnabled() {
+  return envBool("AUTH_ENABLED", false);
+}
+
+export function sessionTtlSeconds() {
+  return envNumber("AUTH_SESSION_TTL_HOURS", 12) * 3600;
+}
+
+function sign(value: string, secret: string) {
+  return createHmac("sha256", secret).update(value).digest("base64url");
+}
+
+/**
+ * `<base64url payload>.<base64url HMAC>`. The role inside is only a hint;
+ * `AuthService.sessionUser` checks the user record on every request.
+ */
+export function createSessionToken(user: SessionUser) {
+  const secret = envString("AUTH_SECRET");
+  if (!secret) throw new Error("AUTH_SECRET is not configured");
+  const payload: SessionPayload = {
+    id: user.id,
+    email: user.email,
+    role: user.role,
+    exp: Math.floor(Date.now() / 1000) + sessionTtlSeconds(),
+  };
+  const encoded = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  return `${encoded}.${sign(encoded, secret)}`;
+}
+
+export function verifySessionToken(token?: string | null): SessionUser | null {
+  const secret = envString("AUTH_SECRET");
+  if (!secret || !token) return null;
+  const [encoded, signature] = token.split(".");
+  if (!encoded || !signature) return null;
+
+  const expected = Buffer.from(sign(encoded, secret));
+  const received = Buffer.from(signature);
+  if (
+    expected.length !== received.length ||
+    !timingSafeEqual(expected, received)
+  ) {
+    return null;
+  }
+
+  try {
+    const payload = JSON.parse(
+      Buffer.from(encoded, "base64url").toString("utf-8"),
+    ) as SessionPayload;
+    if (!isRole(payload.role) || payload.exp * 1000 < Date.now()) return null;
+    return { id: payload.id, email: payload.email, role: payload.role };
+  } catch {
+    return null;
+  }
+}
+
+export function sessionCookieOptions() {
+  return {
+    httpOnly: true,
+    sameSite: "lax" as const,
+    secure: envBool(
+      "AUTH_COOKIE_SECURE",
+      process.env.NODE_ENV === "production",
+    ),
+    path: "/",
+    maxAge: sessionTtlSeconds(),
+  };
+}
@@ -0,0 +1,56 @@
+/**
+ * A small Handlebars-style renderer for JSON payload templates:
+ *
+ * - `{{path}}` inserts the value escaped for use inside a JSON string
+ * - `{{{path}}}` inserts it raw
+ * - `{{json path}}` inserts it as a JSON literal (objects, numbers, null)
+ * - `{{#if path}}...{{else}}...{{/if}}` keeps a block when the value is truthy
+ *
+ * Paths are dotted (`alert.monitorName`, `run.evidence.likelyCauses.0`);
+ * missing values render as empty strings.
+ */
+
+const IF_BLOCK =
+  /\{\{#if\s+([\w.]+)\s*\}\}([\s\S]*?)(?:\{\{else\}\}([\s\S]*?))?\{\{\/if\}\}/g;
+const TAG = /\{\{\{\s*([\w.]+)\s*\}\}\}|\{\{\s*(json\s+)?([\w.]+)\s*\}\}/g;
+
+function lookup(context: unknown, path: string) {
+  return path
+    .split(".")
+    .reduce<unknown>(
+      (value, key) =>
+        value && typeof value === "object"
+          ? (value as Record<string, unknown>)[key]
+          : undefined,
+      context,
+    );
+}
+
+function truthy(value: unknown) {
+  if (Array.isArray(value)) return value.length > 0;
+  return Boolean(value);
+}
+
+function stringify(value: unknown) {
+  if (value === null || value === undefined) return "";
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+export function renderTemplate(template: string, context: unknown) {
+  const withBlocks = template.replace(
+    IF_BLOCK,
+    (_match, path: string, then: string, otherwise = "") =>
+      truthy(lookup(context, path)) ? then : otherwise,
+  );
+  return withBlocks.replace(
+    TAG,
+    (_match, rawPath?: string, json?: string, path?: string) => {
+      if (rawPath) return stringify(lookup(context, rawPath));
+      const value = lookup(context, path as string);
+      if (json) return JSON.stringify(value ?? null);
+      return JSON.stringify(stringify(value)).slice(1, -1);
+    },
+  );
+}
@@ -0,0 +1,341 @@
+import { test, expect } from "@playwright/test";
+import { mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import http from "http";
+import { AddressInfo } from "net";
+import os from "os";
+import path from "path";
+import { HttpChatProvider } from "../apps/web/src/services/providers/http-chat.provider";
+import { ToolSandbox } from "../apps/web/src/services/providers/tool-sandbox";
+
+// Runs the HTTP provider against a local stand-in for an OpenAI-compatible
+// server; no browser or dashboard is involved.
+
+type Received = {
+  headers: http.IncomingHttpHeaders;
+  body: {
+    model?: string;
+    messages: { role: string; content: string | null }[];
+    stream?: boolean;
+    stream_options?: { include_usage?: boolean };
+    tools?: { function: { name: string } }[];
+    max_tokens?: number;
+  };
+};
+
+type Reply = (res: http.ServerResponse, received: Received) => void;
+
+let workingDir = "";
+
+async function stubServer(replies: Reply[]) {
+  const requests: Received[] = [];
+  const server = http.createServer((req, res) => {
+    let raw = "";
+    req.on("data", (chunk) => (raw += chunk));
+    req.on("end", () => {
+      const received = { headers: req.headers, body: JSON.parse(raw) };
+      requests.push(received);
+      const reply = replies[requests.length - 1] ?? replies.at(-1)!;
+      reply(res, received);
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}/v1`,
+    requests,
+    close: () =>
+      new Promise<void>((resolve) => {
+        server.closeAllConnections();
+        server.close(() => resolve());
+      }),
+  };
+}
+
+function sse(chunks: object[]): Reply {
+  return (res) => {
+    res.writeHead(200, { "Content-Type": "text/event-stream" });
+    for (const chunk of chunks) res.write(`data: ${JSON.stringify(chunk)}\n\n`);
+    res.end("data: [DONE]\n\n");
+  };
+}
+
+function toolCalls(calls: { name: string; arguments: object | string }[]) {
+  return sse([
+    {
+      choices: [
+        {
+          delta: {
+            tool_calls: calls.map((call, index) => ({
+              index,
+              id: `call_${index}`,
+              function: {
+                name: call.name,
+                arguments:
+                  typeof call.arguments === "string"
+                    ? call.arguments
+                    : JSON.stringify(call.arguments),
+              },
+            })),
+          },
+        },
+      ],
+    },
+  ]);
+}
+
+function sandbox(maxSteps = 5) {
+  return new ToolSandbox({
+    allowlist: ["ls"],
+    timeoutMs: 5_000,
+    maxOutputChars: 2_000,
+    maxSteps,
+  });
+}
+
+async function runProvider(
+  provider: HttpChatProvider,
+  options: { env?: Record<string, string>; signal?: AbortSignal } = {},
+) {
+  const progress: { kind: string; text: string }[] = [];
+  const result = await provider.run({
+    runId: "run-1",
+    prompt: "inline prompt",
+    alertContext: { monitorName: "Checkout 5xx" } as never,
+    attachments: [
+      path.join(workingDir, "prompt.txt"),
+      path.join(workingDir, "alert.json"),
+    ],
+    workingDir,
+    env: options.env,
+    signal: options.signal,
+    onProgress: (event) => progress.push(event),
+  });
+  return { result, progress };
+}
+
+test.beforeEach(async () => {
+  workingDir = await mkdtemp(path.join(os.tmpdir(), "http-provider-"));
+  await writeFile(path.join(workingDir, "prompt.txt"), "SYSTEM PROMPT");
+  await writeFile(
+    path.join(workingDir, "alert.json"),
+    JSON.stringify({ monitorName: "Checkout 5xx" }),
+  );
+  await writeFile(path.join(workingDir, "evidence.log"), "first line");
+});
+
+test.afterEach(async () => {
+  delete process.env.TRIAGE_PROVIDER_TIMEOUT_MS;
+  await rm(workingDir, { recursive: true, force: true });
+});
+
+test("http provider sends the prompt and alert and parses a streamed report", async () => {
+  const server = await stubServer([
+    sse([
+      { model: "qwen-32b", choices: [{ delta: { content: "# Report\n" } }] },
+      { choices: [{ delta: { content: "Database is down." } }] },
+      {
+        model: "qwen-32b",
+        choices: [],
+        usage: { prompt_tokens: 120, completion_tokens: 30 },
+      },
+    ]),
+  ]);
+  try {
+    const provider = new HttpChatProvider(server.url, "qwen-32b", 4096);
+    const { result, progress } = await runProvider(provider, {
+      env: { HTTP_PROVIDER_API_KEY: "secret-key" },
+    });
+
+    expect(server.requests).toHaveLength(1);
+    const [{ headers, body }] = server.requests;
+    expect(headers.authorization).toBe("Bearer secret-key");
+    expect(body.model).toBe("qwen-32b");
+    expect(body.max_tokens).toBe(4096);
+    expect(body.stream).toBe(true);
+    expect(body.stream_options).toEqual({ include_usage: true });
+    expect(body.tools).toBeUndefined();
+    expect(body.messages[0]).toEqual({
+      role: "system",
+      content: "SYSTEM PROMPT",
+    });
+    expect(body.messages[1].role).toBe("user");
+    expect(body.messages[1].content).toContain('"monitorName":"Checkout 5xx"');
+    expect(body.messages[1].content).toContain("cannot run commands");
+
+    expect(result.reportMarkdown).toBe("# Report\nDatabase is down.");
+    expect(result.usage).toEqual({
+      inputTokens: 120,
+      outputTokens: 30,
+      model: "qwen-32b",
+    });
+    expect(result.toolTranscript).toBeUndefined();
+    expect(progress.map((event) => event.text).join("")).toBe(
+      result.reportMarkdown,
+    );
+    expect(
+      await readFile(path.join(workingDir, "http_report.md"), "utf-8"),
+    ).toBe(result.reportMarkdown);
+  } finally {
+    await server.close();
+  }
+});
+
+test("http provider accepts a plain JSON answer from servers that ignore stream", async () => {
+  const server = await stubServer([
+    (res) => {
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(
+        JSON.stringify({
+          model: "llama3",
+          choices: [{ message: { role: "assistant", content: "# Plain" } }],
+          usage: { prompt_tokens: 10, completion_tokens: 2 },
+        }),
+      );
+    },
+  ]);
+  try {
+    const { result } = await runProvider(new HttpChatProvider(server.url));
+    expect(server.requests[0].body.model).toBeUndefined();
+    expect(server.requests[0].headers.authorization).toBeUndefined();
+    expect(result.reportMarkdown).toBe("# Plain");
+    expect(result.usage).toEqual({
+      inputTokens: 10,
+      outputTokens: 2,
+      model: "llama3",
+    });
+  } finally {
+    await server.close();
+  }
+});
+
+test("http provider reports the server's error message and status", async () => {
+  const server = await stubServer([
+    (res) => {
+      res.writeHead(503, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: { message: "model is loading" } }));
+    },
+  ]);
+  try {
+    await expect(runProvider(new HttpChatProvider(server.url))).rejects.toThrow(
+      "http provider request failed: HTTP 503: model is loading",
+    );
+  } finally {
+    await server.close();
+  }
+});
+
+test("http provider keeps the connection error code for failover", async () => {
+  const server = await stubServer([sse([])]);
+  await server.close();
+  const error = await runProvider(new HttpChatProvider(server.url)).catch(
+    (caught) => caught,
+  );
+  expect(error).toBeInstanceOf(Error);
+  expect(error.message).toContain("http provider request failed");
+  expect(error.code).toBe("ECONNREFUSED");
+});
+
+test("http provider gives up after TRIAGE_PROVIDER_TIMEOUT_MS", async () => {
+  // Never answers, so only the provider's own timeout ends the request.
+  const server = await stubServer([() => undefined]);
+  process.env.TRIAGE_PROVIDER_TIMEOUT_MS = "300";
+  try {
+    await expect(runProvider(new HttpChatProvider(server.url))).rejects.toThrow(
+      "http provider timed out after 300ms",
+    );
+  } finally {
+    await server.close();
+  }
+});
+
+test("http provider runs allowlisted tool calls and refuses the rest", async () => {
+  const server = await stubServer([
+    toolCalls([
+      { name: "run_command", arguments: { command: ["ls"] } },
+      {
+        name: "run_command",
+        arguments: { command: ["git", "branch", "evil"] },
+      },
+      { name: "run_command", arguments: { command: ["ls", "/etc"] } },
+      { name: "delete_everything", arguments: {} },
+      { name: "run_command", arguments: "not json" },
+    ]),
+    sse([{ choices: [{ delta: { content: "# Report with tools" } }] }]),
+  ]);
+  try {
+    const provider = new HttpChatProvider(
+      server.url,
+      "m",
+      undefined,
+      sandbox(),
+    );
+    const { result, progress } = await runProvider(provider);
+
+    expect(server.requests).toHaveLength(2);
+    const first = server.requests[0].body;
+    expect(first.tools?.map((tool) => tool.function.name)).toEqual([
+      "run_command",
+    ]);
+    expect(first.messages[1].content).toContain("Allowed commands: `ls`");
+
+    const transcript = result.toolTranscript!;
+    expect(transcript).toHaveLength(5);
+    expect(transcript[0].exitCode).toBe(0);
+    expect(transcript[0].output).toContain("evidence.log");
+    expect(transcript[1].error).toContain("Command not allowed");
+    expect(transcript[1].exitCode).toBeNull();
+    expect(transcript[2].error).toContain(
+      "outside the run directory and repository",
+    );
+    expect(transcript[3].error).toBe("Unknown tool delete_everything");
+    expect(transcript[4].error).toBe("Arguments must be a JSON object");
+
+    // Every call is answered, refusals included, before the next turn.
+    const toolMessages = server.requests[1].body.messages.filter(
+      (message) => message.role === "tool",
+    );
+    expect(toolMessages).toHaveLength(5);
+    expect(toolMessages[0].content).toContain("Exit code 0");
+    expect(toolMessages[1].content).toContain("Error: Command not allowed");
+
+    expect(progress.filter((event) => event.kind === "command")).toHaveLength(
+      5,
+    );
+    expect(result.reportMarkdown).toBe("# Report with tools");
+    const saved = JSON.parse(
+      await readFile(path.join(workingDir, "tool_transcript.json"), "utf-8"),
+    );
+    expect(saved).toHaveLength(5);
+  } finally {
+    await server.close();
+  }
+});
+
+test("http provider withdraws tools once TOOL_MAX_STEPS is used up", async () => {
+  const server = await stubServer([
+    toolCalls([{ name: "run_command", arguments: { command: ["ls"] } }]),
+    sse([{ choices: [{ delta: { content: "# Final" } }] }]),
+  ]);
+  try {
+    const provider = new HttpChatProvider(
+      server.url,
+      undefined,
+      undefined,
+      sandbox(1),
+    );
+    const { result } = await runProvider(provider);
+
+    expect(server.requests).toHaveLength(2);
+    const last = server.requests[1].body;
+    expect(last.tools).toBeUndefined();
+    expect(last.messages.at(-1)).toEqual({
+      role: "user",
+      content:
+        "The tool budget is used up. Write the final Markdown report now.",
+    });
+    expect(result.toolTranscript).toHaveLength(1);
+    expect(result.reportMarkdown).toBe("# Final");
+  } finally {
+    await server.close();
+  }
+});